@@ -1,11 +1,33 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import type { GeneratedMeme, ApprovedMemeConcept } from './types';
-import { generateMemesFromHeadline, generateMemesFromInspiration, sendApprovalEmail, generateImage, generateImageWithDalle, generateImageAltText, generateMemeImageWithFallback } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import type { AuthUser, GeneratedMeme, GenerationBatch, GenerationSettings, Headline, InspirationSet, MemeRiffKind, MemeSlotValue, MemeStatus, RejectionReason } from './types';
+import { DEFAULT_GENERATION_SETTINGS, MAX_PHOTOS, generateMemesFromHeadline, generateMemesFromInspiration, generateMemesFromPhotos, editGeneratedMeme, editMemeImage, undoMemeImageEdit, generateImageAltText, generateMemeImages, moderateRegeneratedMeme, riffOnMeme } from './services/geminiService';
+import type { RiffContext } from './services/geminiService';
+import { sendApprovalEmail } from './services/emailService';
+import { DEFAULT_APPROVAL_RECIPIENT } from './services/approvalEmail';
+import type { ImageProviderCredentials } from './services/imageProviders';
+import { convertToJpeg } from './services/memeCompositor';
 import { getApprovedMemes, addApprovedMeme } from './services/feedbackService';
+import { saveGeneratedMeme, updateGeneratedMemeStatus } from './services/historyService';
+import { signOut, watchAuthUser } from './services/authService';
+import { getGenerationSettings } from './services/generationSettingsService';
+import { getInspirationSets } from './services/inspirationService';
+import { markHeadlinesUsed } from './services/headlineService';
 import Header from './components/Header';
 import MemeCard from './components/MemeCard';
 import LoadingSpinner from './components/LoadingSpinner';
 import ApiKeyManager from './components/ApiKeyManager';
+import BatchHistory from './components/BatchHistory';
+import AutopilotPanel from './components/AutopilotPanel';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import HeadlineInbox from './components/HeadlineInbox';
+import InspirationLibrary from './components/InspirationLibrary';
+import ModelAllocationPanel from './components/ModelAllocationPanel';
+import ModerationPolicyPanel from './components/ModerationPolicyPanel';
+import SocialQueuePanel from './components/SocialQueuePanel';
+import ArchiveExportPanel from './components/ArchiveExportPanel';
+import PublicGallery from './components/PublicGallery';
+import LoginModal from './components/LoginModal';
+import EmailActionPage from './components/EmailActionPage';
 
 const getFriendlyErrorMessage = (error: unknown): string => {
   if (error instanceof Error) {
@@ -18,6 +40,9 @@ const getFriendlyErrorMessage = (error: unknown): string => {
     if (error.message.includes('DALL-E API Error:') || error.message.includes('Invalid response from OpenAI API')) {
         return `OpenAI Error: ${error.message.replace('DALL-E API Error: ', '')}`;
     }
+    if (error.message.includes('inspiration set') || error.message.includes('photo') || error.message.includes('edited image') || error.message.includes('moderation policy')) {
+        return error.message;
+    }
     if (error.message.includes('Invalid response from Gemini API')) {
         return `Gemini Error: ${error.message}`;
     }
@@ -26,41 +51,106 @@ const getFriendlyErrorMessage = (error: unknown): string => {
   return 'An unknown error occurred. Please check the console and try again.';
 };
 
+// Photos are scaled down to this size (longer side) before they are sent to Gemini and stored.
+const MAX_PHOTO_SIZE = 1600;
+
+// Set when the page was opened from an Approve/Reject/Regenerate link in the approval email.
+const emailActionToken = new URLSearchParams(window.location.search).get('emailAction');
+
 
 const App: React.FC = () => {
   // State for headline generator
   const [headline, setHeadline] = useState<string>('');
+  // The inbox headline in the input, marked as used once memes are generated from it.
+  const [pickedHeadline, setPickedHeadline] = useState<Headline | null>(null);
+  const [headlineInboxVersion, setHeadlineInboxVersion] = useState(0);
   
   // State for inspiration generator
   const [customPrompt, setCustomPrompt] = useState<string>('');
-  const [instagramLinks, setInstagramLinks] = useState<string>('');
+  const [inspirationSets, setInspirationSets] = useState<InspirationSet[]>([]);
+  const [inspirationSetName, setInspirationSetName] = useState<string>('');
+
+  // State for photo generator
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [photoPrompt, setPhotoPrompt] = useState<string>('');
+  const [photoStyle, setPhotoStyle] = useState<string>('');
+  const [isPreparingPhotos, setIsPreparingPhotos] = useState<boolean>(false);
 
-  // State for autopilot generator
-  const [isAutopilotOn, setIsAutopilotOn] = useState<boolean>(false);
-  const [autopilotPrompt, setAutopilotPrompt] = useState<string>('');
-  const [autopilotLinks, setAutopilotLinks] = useState<string>('');
-  const autopilotIntervalRef = useRef<number | undefined>(undefined);
 
   // Shared state
   const [memes, setMemes] = useState<GeneratedMeme[]>([]);
+  // What the memes on screen were generated from, so riffs stay on topic.
+  const [riffContext, setRiffContext] = useState<RiffContext | null>(null);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isSendingEmail, setIsSendingEmail] = useState<boolean>(false);
   const [emailSent, setEmailSent] = useState<boolean>(false);
-  const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false);
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const [isLoginOpen, setIsLoginOpen] = useState<boolean>(false);
   const [regeneratingMemeId, setRegeneratingMemeId] = useState<string | null>(null);
+  // How many memes the moderation policy dropped from the batch on screen.
+  const [blockedMemeCount, setBlockedMemeCount] = useState<number>(0);
   
   // API Keys & Backend Config
   const [openAiApiKey, setOpenAiApiKey] = useState<string>('');
-  const [supabaseUrl, setSupabaseUrl] = useState<string>('');
-  const [supabaseAnonKey, setSupabaseAnonKey] = useState<string>('');
+  const [stableDiffusionUrl, setStableDiffusionUrl] = useState<string>('');
+  const [supabaseUrl, setSupabaseUrl] = useState<string>(process.env.SUPABASE_URL ?? '');
+  const [supabaseAnonKey, setSupabaseAnonKey] = useState<string>(process.env.SUPABASE_ANON_KEY ?? '');
   const [isSupabaseConnected, setIsSupabaseConnected] = useState<boolean>(false);
 
-  const handleLogin = () => setIsLoggedIn(true);
-  const handleLogout = () => setIsLoggedIn(false);
+  const imageCredentials = useMemo<ImageProviderCredentials>(
+    () => ({ openAiApiKey, stableDiffusionUrl }),
+    [openAiApiKey, stableDiffusionUrl]
+  );
+
+  // Signed-in users without a role in the profiles table get the public view.
+  const isLoggedIn = authUser?.role != null;
+  const isAdmin = authUser?.role === 'admin';
+
+  useEffect(() => {
+    if (!supabaseUrl || !supabaseAnonKey) return;
+    try {
+      return watchAuthUser(supabaseUrl, supabaseAnonKey, setAuthUser);
+    } catch (err) {
+      console.error("Could not watch the auth session:", err);
+    }
+  }, [supabaseUrl, supabaseAnonKey]);
+
+  // Each admin's generation settings follow them between sessions.
+  useEffect(() => {
+    if (!isAdmin || !isSupabaseConnected) return;
+    getGenerationSettings(supabaseUrl, supabaseAnonKey).then(setGenerationSettings);
+  }, [isAdmin, isSupabaseConnected, supabaseUrl, supabaseAnonKey]);
+
+  const loadInspirationSets = useCallback(async () => {
+    setInspirationSets(await getInspirationSets(supabaseUrl, supabaseAnonKey));
+  }, [supabaseUrl, supabaseAnonKey]);
+
+  useEffect(() => {
+    if (!isAdmin || !isSupabaseConnected) return;
+    loadInspirationSets().catch(err => console.warn("Could not load the inspiration library:", err));
+  }, [isAdmin, isSupabaseConnected, loadInspirationSets]);
+
+  const selectedInspirationSet = inspirationSets.find(set => set.name === inspirationSetName);
+
+  const handleLogin = () => setIsLoginOpen(true);
+  const handleLogout = async () => {
+    try {
+      await signOut(supabaseUrl, supabaseAnonKey);
+    } catch (err) {
+      console.error(err);
+    }
+    setAuthUser(null);
+    setIsSupabaseConnected(false);
+    setMemes([]);
+    setRiffContext(null);
+    setGenerationSettings(DEFAULT_GENERATION_SETTINGS);
+    setInspirationSets([]);
+  };
 
   // A generic function to run any meme generation logic
-  const runMemeGeneration = useCallback(async (generatorType: 'headline' | 'inspiration') => {
+  const runMemeGeneration = useCallback(async (generatorType: 'headline' | 'inspiration' | 'photo') => {
     if (isLoading) return;
     if (!isSupabaseConnected) {
       setError("Please configure and test your Supabase connection in the admin panel to generate memes.");
@@ -73,15 +163,31 @@ const App: React.FC = () => {
     setEmailSent(false);
 
     try {
-      const examples = await getApprovedMemes(supabaseUrl, supabaseAnonKey);
-      let generatedMemes: GeneratedMeme[];
+      const query = { headline, inspiration: customPrompt, photo: photoPrompt }[generatorType];
+      const examples = await getApprovedMemes(supabaseUrl, supabaseAnonKey, query);
+      let batch: GenerationBatch;
       
       if (generatorType === 'headline') {
-          generatedMemes = await generateMemesFromHeadline(headline, examples, openAiApiKey, supabaseUrl, supabaseAnonKey);
+          batch = await generateMemesFromHeadline(headline, examples, imageCredentials, supabaseUrl, supabaseAnonKey, generationSettings);
+      } else if (generatorType === 'photo') {
+          batch = await generateMemesFromPhotos(photoUrls, photoPrompt, photoStyle, examples, imageCredentials, supabaseUrl, supabaseAnonKey, generationSettings);
       } else {
-          generatedMemes = await generateMemesFromInspiration(instagramLinks, customPrompt, examples, openAiApiKey, supabaseUrl, supabaseAnonKey);
+          if (!selectedInspirationSet) throw new Error("Choose an inspiration set first.");
+          batch = await generateMemesFromInspiration(selectedInspirationSet, customPrompt, examples, imageCredentials, supabaseUrl, supabaseAnonKey, 'inspiration', generationSettings);
+      }
+      setMemes(batch.memes);
+      setBlockedMemeCount(batch.blockedCount);
+      setRiffContext(batch);
+
+      if (generatorType === 'headline' && pickedHeadline?.title === headline) {
+          try {
+              await markHeadlinesUsed([pickedHeadline.id], batch.id, supabaseUrl, supabaseAnonKey);
+              setHeadlineInboxVersion(version => version + 1);
+          } catch (markError) {
+              console.warn("Could not mark the inbox headline as used:", markError);
+          }
+          setPickedHeadline(null);
       }
-      setMemes(generatedMemes);
 
     } catch (err) {
       console.error(err);
@@ -89,7 +195,7 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [isLoading, headline, instagramLinks, customPrompt, openAiApiKey, supabaseUrl, supabaseAnonKey, isSupabaseConnected]);
+  }, [isLoading, headline, pickedHeadline, customPrompt, selectedInspirationSet, photoUrls, photoPrompt, photoStyle, imageCredentials, generationSettings, supabaseUrl, supabaseAnonKey, isSupabaseConnected]);
 
   const handleGenerateFromHeadline = useCallback(() => {
     if (!headline.trim()) return;
@@ -97,78 +203,53 @@ const App: React.FC = () => {
   }, [headline, runMemeGeneration]);
 
   const handleGenerateFromInspiration = useCallback(() => {
-    if (!customPrompt.trim() || !instagramLinks.trim()) return;
+    if (!customPrompt.trim() || !selectedInspirationSet) return;
     runMemeGeneration('inspiration');
-  }, [customPrompt, instagramLinks, runMemeGeneration]);
+  }, [customPrompt, selectedInspirationSet, runMemeGeneration]);
 
-  const handleToggleAutopilot = () => {
-    if (!isAutopilotOn) {
-      if (!isSupabaseConnected) {
-        setError("Please configure and test your Supabase connection before enabling Autopilot.");
-        return;
-      }
-      if (!autopilotPrompt.trim() || !autopilotLinks.trim()) {
-        setError("Please set a prompt and provide inspiration links before enabling Autopilot.");
-        return;
-      }
-    }
-    setError(null);
-    setIsAutopilotOn(prev => !prev);
-  };
-
-  // Effect to simulate the daily autopilot job
-  useEffect(() => {
-    const runAutopilotTask = async () => {
-      // NOTE: This is a frontend simulation of a backend cron job.
-      const now = new Date();
-      const today = now.toISOString().split('T')[0];
-      const lastRunDate = localStorage.getItem('lastAutopilotRunDate');
-
-      if (now.getHours() === 8 && lastRunDate !== today && isSupabaseConnected) {
-        console.log(`[${now.toLocaleTimeString()}] AUTOPILOT TRIGGERED! Generating memes...`);
-        localStorage.setItem('lastAutopilotRunDate', today);
+  const handleGenerateFromPhotos = useCallback(() => {
+    if (photoUrls.length === 0) return;
+    runMemeGeneration('photo');
+  }, [photoUrls, runMemeGeneration]);
 
+  const handleAddPhotos = async (files: File[]) => {
+    const newFiles = files.slice(0, MAX_PHOTOS - photoUrls.length);
+    if (newFiles.length === 0) return;
+    setIsPreparingPhotos(true);
+    try {
+      const newPhotoUrls = await Promise.all(newFiles.map(async file => {
+        const objectUrl = URL.createObjectURL(file);
         try {
-          const examples = await getApprovedMemes(supabaseUrl, supabaseAnonKey);
-          const autopilotMemes = await generateMemesFromInspiration(autopilotLinks, autopilotPrompt, examples, openAiApiKey, supabaseUrl, supabaseAnonKey);
-          const successfulMemes = autopilotMemes.filter(m => m.status !== 'rejected');
-          if (successfulMemes.length > 0) {
-            await sendApprovalEmail(
-              successfulMemes,
-              'admin@kissmyfacenewyork.com',
-              `KMFNY Autopilot Memes: ${today}`
-            );
-            console.log("Autopilot email successfully sent.");
-          } else {
-            console.warn("Autopilot: All meme generations failed. No email sent.");
-          }
-        } catch (err) {
-          console.error("Autopilot task failed:", err);
+          return await convertToJpeg(objectUrl, 0.9, MAX_PHOTO_SIZE);
+        } finally {
+          URL.revokeObjectURL(objectUrl);
         }
-      }
-    };
-
-    if (isAutopilotOn) {
-      runAutopilotTask();
-      autopilotIntervalRef.current = window.setInterval(runAutopilotTask, 5 * 60 * 1000);
+      }));
+      setPhotoUrls(currentPhotoUrls => [...currentPhotoUrls, ...newPhotoUrls]);
+    } catch (err) {
+      console.error(err);
+      setError("One of the photos couldn't be read. Please upload JPEG, PNG or WebP images.");
+    } finally {
+      setIsPreparingPhotos(false);
     }
+  };
 
-    return () => {
-      if (autopilotIntervalRef.current) {
-        clearInterval(autopilotIntervalRef.current);
-      }
-    };
-  }, [isAutopilotOn, autopilotPrompt, autopilotLinks, openAiApiKey, supabaseUrl, supabaseAnonKey, isSupabaseConnected]);
-
-  const handleStatusChange = (id: string, status: 'approved' | 'rejected' | 'pending') => {
+  const handleStatusChange = (id: string, status: MemeStatus, rejectionReason?: RejectionReason) => {
     setMemes(currentMemes =>
       currentMemes.map(meme =>
-        meme.id === id ? { ...meme, status } : meme
+        meme.id === id ? { ...meme, status, rejectionReason } : meme
       )
     );
+    // Keep the batch history in sync. Failures here never block the review flow.
+    updateGeneratedMemeStatus(id, status, supabaseUrl, supabaseAnonKey, rejectionReason)
+      .catch(err => console.warn('[History] Could not record status change:', err));
   };
   
   const handleApprove = async (id:string) => {
+    if (!isAdmin) {
+      setError("Only admins can approve memes.");
+      return;
+    }
     if (!isSupabaseConnected) {
       setError("Please test and verify your Supabase connection in the admin panel.");
       return;
@@ -190,7 +271,7 @@ const App: React.FC = () => {
     }
   };
 
-  const handleReject = (id:string) => handleStatusChange(id, 'rejected');
+  const handleReject = (id: string, reason: RejectionReason) => handleStatusChange(id, 'rejected', reason);
 
   const handleRegenerate = async (id: string) => {
     if (regeneratingMemeId) return; // Prevent multiple regenerations at once
@@ -202,26 +283,29 @@ const App: React.FC = () => {
     setError(null);
 
     try {
-      const { imageUrl: newImageUrl, modelUsed: newModelUsed } = await generateMemeImageWithFallback(
-        memeToRegenerate.imagePrompt,
+      const { imageUrl: newImageUrl, slotImageUrls: newSlotImageUrls, modelUsed: newModelUsed } = await generateMemeImages(
+        memeToRegenerate,
         memeToRegenerate.modelUsed,
-        openAiApiKey
+        imageCredentials
       );
       const newAltText = await generateImageAltText(memeToRegenerate);
+      const regeneratedMeme: GeneratedMeme = await moderateRegeneratedMeme({
+        ...memeToRegenerate,
+        imageUrl: newImageUrl,
+        slotImageUrls: newSlotImageUrls,
+        compositedImageUrl: undefined,
+        altText: newAltText,
+        status: 'pending',
+        rejectionReason: undefined,
+        modelUsed: newModelUsed,
+        imageHistory: undefined,
+      }, supabaseUrl, supabaseAnonKey);
 
       setMemes(currentMemes =>
-        currentMemes.map(meme =>
-          meme.id === id
-            ? {
-                ...meme,
-                imageUrl: newImageUrl,
-                altText: newAltText,
-                status: 'pending',
-                modelUsed: newModelUsed,
-              }
-            : meme
-        )
+        currentMemes.map(meme => meme.id === id ? regeneratedMeme : meme)
       );
+      saveGeneratedMeme(regeneratedMeme, supabaseUrl, supabaseAnonKey)
+        .catch(err => console.warn('[History] Could not record regenerated meme:', err));
     } catch (err) {
       console.error("Failed to regenerate image:", err);
       setError(getFriendlyErrorMessage(err));
@@ -230,6 +314,99 @@ const App: React.FC = () => {
     }
   };
 
+  const handleEdit = async (id: string, slots: MemeSlotValue[]) => {
+    if (regeneratingMemeId) return;
+
+    const memeToEdit = memes.find(m => m.id === id);
+    if (!memeToEdit) return;
+
+    setRegeneratingMemeId(id);
+    setError(null);
+
+    try {
+      const editedMeme = await editGeneratedMeme(memeToEdit, slots, imageCredentials, supabaseUrl, supabaseAnonKey);
+      if (editedMeme === memeToEdit) return;
+
+      setMemes(currentMemes =>
+        currentMemes.map(meme => meme.id === id ? editedMeme : meme)
+      );
+      saveGeneratedMeme(editedMeme, supabaseUrl, supabaseAnonKey)
+        .catch(err => console.warn('[History] Could not record edited meme:', err));
+    } catch (err) {
+      console.error("Failed to edit meme:", err);
+      setError(getFriendlyErrorMessage(err));
+    } finally {
+      setRegeneratingMemeId(null);
+    }
+  };
+
+  const handleEditImage = async (id: string, slotId: string, instruction: string) => {
+    if (regeneratingMemeId) return;
+
+    const memeToEdit = memes.find(m => m.id === id);
+    if (!memeToEdit) return;
+
+    setRegeneratingMemeId(id);
+    setError(null);
+
+    try {
+      const editedMeme = await editMemeImage(memeToEdit, slotId, instruction, supabaseUrl, supabaseAnonKey);
+      setMemes(currentMemes =>
+        currentMemes.map(meme => meme.id === id ? editedMeme : meme)
+      );
+      saveGeneratedMeme(editedMeme, supabaseUrl, supabaseAnonKey)
+        .catch(err => console.warn('[History] Could not record edited image:', err));
+    } catch (err) {
+      console.error("Failed to edit image:", err);
+      setError(getFriendlyErrorMessage(err));
+    } finally {
+      setRegeneratingMemeId(null);
+    }
+  };
+
+  const handleUndoImageEdit = (id: string) => {
+    const memeToRestore = memes.find(m => m.id === id);
+    if (!memeToRestore || regeneratingMemeId) return;
+
+    const restoredMeme = undoMemeImageEdit(memeToRestore);
+    setMemes(currentMemes =>
+      currentMemes.map(meme => meme.id === id ? restoredMeme : meme)
+    );
+    saveGeneratedMeme(restoredMeme, supabaseUrl, supabaseAnonKey)
+      .catch(err => console.warn('[History] Could not record restored image:', err));
+  };
+
+  const handleRiff = async (id: string, kind: MemeRiffKind) => {
+    if (regeneratingMemeId || !riffContext) return;
+
+    const seed = memes.find(m => m.id === id);
+    if (!seed) return;
+
+    setRegeneratingMemeId(id);
+    setError(null);
+
+    try {
+      const examples = await getApprovedMemes(supabaseUrl, supabaseAnonKey, riffContext.inputText);
+      const newMemes = await riffOnMeme(kind, seed, riffContext, examples, imageCredentials, supabaseUrl, supabaseAnonKey);
+
+      // Show the new memes right after their seed.
+      setMemes(currentMemes => {
+        const seedIndex = currentMemes.findIndex(meme => meme.id === id);
+        return [...currentMemes.slice(0, seedIndex + 1), ...newMemes, ...currentMemes.slice(seedIndex + 1)];
+      });
+      setEmailSent(false);
+      for (const meme of newMemes) {
+        saveGeneratedMeme(meme, supabaseUrl, supabaseAnonKey)
+          .catch(err => console.warn('[History] Could not record new meme:', err));
+      }
+    } catch (err) {
+      console.error("Failed to riff on meme:", err);
+      setError(getFriendlyErrorMessage(err));
+    } finally {
+      setRegeneratingMemeId(null);
+    }
+  };
+
   const handleSendEmail = async () => {
     if (isSendingEmail || memes.length === 0) return;
 
@@ -237,35 +414,86 @@ const App: React.FC = () => {
     setError(null);
 
     try {
-      await sendApprovalEmail(memes, 'admin@kissmyfacenewyork.com', 'New Memes for Approval');
+      await sendApprovalEmail(memes, [DEFAULT_APPROVAL_RECIPIENT], 'New Memes for Approval', supabaseUrl, supabaseAnonKey);
       setEmailSent(true);
     } catch (err) {
       console.error("Failed to send approval email:", err);
-      setError("Could not send the approval email. Please try again.");
+      setError(err instanceof Error ? err.message : "Could not send the approval email. Please try again.");
     } finally {
       setIsSendingEmail(false);
     }
   };
 
-  const displayedMemes = isLoggedIn ? memes : memes.filter(meme => meme.status === 'approved');
+  const handleReopenBatch = (batch: GenerationBatch) => {
+    setMemes(batch.memes);
+    setBlockedMemeCount(batch.blockedCount);
+    setRiffContext(batch);
+    setEmailSent(false);
+    setError(null);
+  };
+
+  const header = (
+    <>
+      <Header isLoggedIn={authUser !== null} userEmail={authUser?.email} onLogin={handleLogin} onLogout={handleLogout} />
+      {isLoginOpen && (
+        <LoginModal
+          supabaseUrl={supabaseUrl} setSupabaseUrl={setSupabaseUrl}
+          supabaseAnonKey={supabaseAnonKey} setSupabaseAnonKey={setSupabaseAnonKey}
+          onClose={() => setIsLoginOpen(false)}
+        />
+      )}
+    </>
+  );
+
+  if (emailActionToken) {
+    return (
+      <div className="min-h-screen text-white font-sans bg-gray-950">
+        {header}
+        <main className="container mx-auto px-4 py-8 md:py-12">
+          <EmailActionPage token={emailActionToken} />
+        </main>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen text-white font-sans bg-gray-950">
-      <Header isLoggedIn={isLoggedIn} onLogin={handleLogin} onLogout={handleLogout} />
+      {header}
       <main className="container mx-auto px-4 py-8 md:py-12">
-        {isLoggedIn && (
+        {authUser && !authUser.role && (
+          <div className="max-w-3xl mx-auto bg-yellow-900/50 border border-yellow-500 text-yellow-200 px-4 py-3 rounded-lg mb-6" role="alert">
+            You're signed in as {authUser.email}, but your account doesn't have an admin or reviewer role yet. Ask an admin to add you to the profiles table.
+          </div>
+        )}
+
+        {isAdmin && (
           <>
             <ApiKeyManager 
               openAiApiKey={openAiApiKey} setOpenAiApiKey={setOpenAiApiKey}
+              stableDiffusionUrl={stableDiffusionUrl} setStableDiffusionUrl={setStableDiffusionUrl}
               supabaseUrl={supabaseUrl} setSupabaseUrl={setSupabaseUrl}
               supabaseAnonKey={supabaseAnonKey} setSupabaseAnonKey={setSupabaseAnonKey}
               isSupabaseConnected={isSupabaseConnected}
               setIsSupabaseConnected={setIsSupabaseConnected}
             />
 
+            <GenerationSettingsPanel
+              settings={generationSettings}
+              onSettingsChange={setGenerationSettings}
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
+
+            <ModerationPolicyPanel
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
+
             <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-cyan-500/30 shadow-lg shadow-cyan-500/10 mb-8">
               <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Generate Today's Memes</h2>
-              <p className="text-center text-gray-400 mb-6">Enter a news headline or a trending topic to create 5 fresh memes for the timeline.</p>
+              <p className="text-center text-gray-400 mb-6">Enter a news headline or a trending topic to create {generationSettings.conceptCount * generationSettings.imagesPerConcept} fresh memes for the timeline.</p>
               <div className="flex flex-col sm:flex-row gap-4">
                 <input
                   type="text"
@@ -286,9 +514,20 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <HeadlineInbox
+              onPickHeadline={(picked: Headline) => {
+                setHeadline(picked.title);
+                setPickedHeadline(picked);
+              }}
+              refreshKey={headlineInboxVersion}
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
+
             <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-pink-500/30 shadow-lg shadow-pink-500/10 mb-8">
                 <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Generate from Inspiration</h2>
-                <p className="text-center text-gray-400 mb-6">Use Instagram pages as a vibe check and add a prompt to create 5 new memes.</p>
+                <p className="text-center text-gray-400 mb-6">Show the model a set from the Inspiration Library as a vibe check and add a prompt to create {generationSettings.conceptCount * generationSettings.imagesPerConcept} new memes.</p>
                 <div className="flex flex-col gap-4">
                     <input
                         type="text"
@@ -298,17 +537,21 @@ const App: React.FC = () => {
                         className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 focus:ring-cyan-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors"
                         disabled={isLoading}
                     />
-                    <textarea
-                        value={instagramLinks}
-                        onChange={(e) => setInstagramLinks(e.target.value)}
-                        placeholder="Paste Instagram URLs, separated by commas..."
-                        className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 focus:ring-cyan-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors resize-y"
-                        rows={3}
+                    <select
+                        value={inspirationSetName}
+                        onChange={(e) => setInspirationSetName(e.target.value)}
+                        className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 focus:ring-cyan-500 rounded-lg px-4 py-3 text-white transition-colors"
                         disabled={isLoading}
-                    />
+                        aria-label="Inspiration set"
+                    >
+                        <option value="">Choose an inspiration set...</option>
+                        {inspirationSets.map(set => (
+                            <option key={set.id} value={set.name} disabled={set.items.length === 0}>{set.name} ({set.items.length} screenshots)</option>
+                        ))}
+                    </select>
                     <button
                         onClick={handleGenerateFromInspiration}
-                        disabled={isLoading || !customPrompt.trim() || !instagramLinks.trim() || !isSupabaseConnected}
+                        disabled={isLoading || !customPrompt.trim() || !selectedInspirationSet || selectedInspirationSet.items.length === 0 || !isSupabaseConnected}
                         className="bg-gradient-to-r from-cyan-400 to-pink-500 hover:from-cyan-500 hover:to-pink-600 text-white font-bold py-3 px-8 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105"
                     >
                         {isLoading ? 'Generating...' : 'Generate from Vibe'}
@@ -316,50 +559,112 @@ const App: React.FC = () => {
                 </div>
             </div>
 
-            <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-purple-500/30 shadow-lg shadow-purple-500/10 mb-12">
-              <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Autopilot Meme Generation</h2>
-              <p className="text-center text-gray-400 mb-6">
-                Set a recurring theme. The AI will automatically generate and email 5 memes to{' '}
-                <code className="bg-gray-800 text-purple-300 px-1 rounded">admin@kissmyfacenewyork.com</code> daily at 8 AM EST.
-              </p>
-              <div className="flex flex-col gap-4">
-                <input
-                  type="text"
-                  value={autopilotPrompt}
-                  onChange={(e) => setAutopilotPrompt(e.target.value)}
-                  placeholder="Enter a recurring prompt (e.g., 'That Friday feeling')"
-                  className="w-full bg-gray-800 border-2 border-gray-700 focus:border-purple-500 focus:ring-purple-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors disabled:bg-gray-800/50 disabled:cursor-not-allowed"
-                  disabled={isAutopilotOn}
-                />
-                <textarea
-                  value={autopilotLinks}
-                  onChange={(e) => setAutopilotLinks(e.target.value)}
-                  placeholder="Paste inspiration Instagram URLs..."
-                  className="w-full bg-gray-800 border-2 border-gray-700 focus:border-purple-500 focus:ring-purple-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors resize-y disabled:bg-gray-800/50 disabled:cursor-not-allowed"
-                  rows={2}
-                  disabled={isAutopilotOn}
-                />
-                <button
-                  onClick={handleToggleAutopilot}
-                  disabled={(!autopilotPrompt.trim() || !autopilotLinks.trim() || !isSupabaseConnected) && !isAutopilotOn}
-                  className={`font-bold py-3 px-8 rounded-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed ${
-                    isAutopilotOn
-                      ? 'bg-red-600 hover:bg-red-700'
-                      : 'bg-gradient-to-r from-purple-500 to-indigo-500 hover:from-purple-600 hover:to-indigo-600'
-                  }`}
-                >
-                  {isAutopilotOn ? '⏹️ Disable Autopilot' : '▶️ Enable Autopilot'}
-                </button>
-              </div>
-               {isAutopilotOn && (
-                <p className="text-center text-green-400 mt-4 animate-pulse">
-                  Autopilot is active. Checking for new tasks every 5 minutes...
-                </p>
-              )}
+            <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-amber-500/30 shadow-lg shadow-amber-500/10 mb-8">
+                <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Caption Our Photos</h2>
+                <p className="text-center text-gray-400 mb-6">Upload up to {MAX_PHOTOS} photos from our shows and get {Math.max(generationSettings.conceptCount, photoUrls.length)} memes captioned in our voice, using the photos themselves.</p>
+                <div className="flex flex-col gap-4">
+                    {photoUrls.length > 0 && (
+                        <div className="grid grid-cols-5 gap-2">
+                            {photoUrls.map((photoUrl, index) => (
+                                <div key={index} className="relative">
+                                    <img src={photoUrl} alt={`Photo ${index + 1}`} className="w-full aspect-square object-cover rounded-md" />
+                                    <button
+                                        onClick={() => setPhotoUrls(currentPhotoUrls => currentPhotoUrls.filter((_, i) => i !== index))}
+                                        disabled={isLoading}
+                                        title="Remove photo"
+                                        className="absolute top-1 right-1 bg-gray-900/80 hover:bg-red-600 text-white text-xs font-bold w-6 h-6 rounded-full disabled:opacity-50"
+                                    >
+                                        ✕
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <input
+                        type="file"
+                        accept="image/png,image/jpeg,image/webp"
+                        multiple
+                        onChange={(e) => {
+                            handleAddPhotos(Array.from(e.target.files ?? []));
+                            e.target.value = '';
+                        }}
+                        disabled={isLoading || isPreparingPhotos || photoUrls.length >= MAX_PHOTOS}
+                        className="text-sm text-gray-300 disabled:opacity-50"
+                        aria-label="Photos"
+                    />
+                    <input
+                        type="text"
+                        value={photoPrompt}
+                        onChange={(e) => setPhotoPrompt(e.target.value)}
+                        placeholder="Context (optional), e.g., 'Pride after-party, 4am, the DJ played Robyn twice'"
+                        className="w-full bg-gray-800 border-2 border-gray-700 focus:border-amber-500 focus:ring-amber-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors"
+                        disabled={isLoading}
+                    />
+                    <input
+                        type="text"
+                        value={photoStyle}
+                        onChange={(e) => setPhotoStyle(e.target.value)}
+                        placeholder="Stylize the photos (optional), e.g., 'a risograph print'"
+                        className="w-full bg-gray-800 border-2 border-gray-700 focus:border-amber-500 focus:ring-amber-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors"
+                        disabled={isLoading}
+                    />
+                    <button
+                        onClick={handleGenerateFromPhotos}
+                        disabled={isLoading || isPreparingPhotos || photoUrls.length === 0 || !isSupabaseConnected}
+                        className="bg-gradient-to-r from-amber-400 to-pink-500 hover:from-amber-500 hover:to-pink-600 text-white font-bold py-3 px-8 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105"
+                    >
+                        {isLoading ? 'Generating...' : isPreparingPhotos ? 'Preparing photos...' : 'Caption Photos'}
+                    </button>
+                </div>
             </div>
+
+            <InspirationLibrary
+              sets={inspirationSets}
+              onSetsChange={loadInspirationSets}
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
+
+            <AutopilotPanel
+              generationSettings={generationSettings}
+              inspirationSetNames={inspirationSets.map(set => set.name)}
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
+
+            <SocialQueuePanel
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
+
+            <ArchiveExportPanel
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
+
+            <ModelAllocationPanel
+              imageCredentials={imageCredentials}
+              supabaseUrl={supabaseUrl}
+              supabaseAnonKey={supabaseAnonKey}
+              isSupabaseConnected={isSupabaseConnected}
+            />
           </>
         )}
 
+        {isLoggedIn && (
+          <BatchHistory
+            supabaseUrl={supabaseUrl}
+            supabaseAnonKey={supabaseAnonKey}
+            // Signing in already proved the credentials work, so reviewers don't need the connection test.
+            isSupabaseConnected={isSupabaseConnected || !isAdmin}
+            onReopenBatch={handleReopenBatch}
+          />
+        )}
+
         {error && (
           <div className="max-w-3xl mx-auto bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg relative mb-6" role="alert">
             <strong className="font-bold">Error: </strong>
@@ -369,8 +674,13 @@ const App: React.FC = () => {
 
         {isLoading && <div className="text-center my-12"><LoadingSpinner /></div>}
 
-        {!isLoading && memes.length > 0 && (
+        {isLoggedIn && !isLoading && memes.length > 0 && (
           <>
+            {blockedMemeCount > 0 && (
+              <p className="text-center text-sm text-yellow-300 mb-4">
+                🛡 The moderation policy blocked {blockedMemeCount} {blockedMemeCount === 1 ? 'meme' : 'memes'} from this batch.
+              </p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
               {memes.map(meme => (
                 <MemeCard
@@ -378,31 +688,33 @@ const App: React.FC = () => {
                   meme={meme}
                   onApprove={handleApprove}
                   onReject={handleReject}
+                  onEdit={handleEdit}
+                  onEditImage={handleEditImage}
+                  onUndoImageEdit={handleUndoImageEdit}
+                  onRiff={riffContext ? handleRiff : undefined}
                   onRegenerate={handleRegenerate}
                   isRegenerating={regeneratingMemeId === meme.id}
                   isLoggedIn={isLoggedIn}
+                  canApprove={isAdmin}
                 />
               ))}
             </div>
 
-            {isLoggedIn && (
-              <div className="text-center mt-12">
-                <button
-                  onClick={handleSendEmail}
-                  disabled={isSendingEmail || emailSent}
-                  className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-10 rounded-lg disabled:opacity-60 disabled:cursor-not-allowed transition-all transform hover:scale-105 text-lg"
-                >
-                  {isSendingEmail ? 'Sending...' : emailSent ? '✅ Email Sent!' : '📧 Email to Admin'}
-                </button>
-              </div>
-            )}
+            <div className="text-center mt-12">
+              <button
+                onClick={handleSendEmail}
+                disabled={isSendingEmail || emailSent}
+                className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-10 rounded-lg disabled:opacity-60 disabled:cursor-not-allowed transition-all transform hover:scale-105 text-lg"
+              >
+                {isSendingEmail ? 'Sending...' : emailSent ? '✅ Email Sent!' : '📧 Email to Admin'}
+              </button>
+            </div>
           </>
         )}
 
-        {!isLoading && displayedMemes.length === 0 && !isLoggedIn && (
-          <div className="text-center text-gray-300 py-16">
-            <h2 className="text-2xl font-bold mb-2">Nothing to see here... yet!</h2>
-            <p>The admins haven't approved any memes today. Check back later!</p>
+        {!isLoading && (
+          <div className={isLoggedIn ? 'mt-16' : ''}>
+            <PublicGallery supabaseUrl={supabaseUrl} supabaseAnonKey={supabaseAnonKey} isLoggedIn={isAdmin} />
           </div>
         )}
       </main>
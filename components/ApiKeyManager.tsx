@@ -4,6 +4,8 @@ import { verifySupabaseConnection } from '../services/feedbackService';
 interface ApiKeyManagerProps {
   openAiApiKey: string;
   setOpenAiApiKey: (key: string) => void;
+  stableDiffusionUrl: string;
+  setStableDiffusionUrl: (url: string) => void;
   supabaseUrl: string;
   setSupabaseUrl: (url: string) => void;
   supabaseAnonKey: string;
@@ -15,6 +17,8 @@ interface ApiKeyManagerProps {
 const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ 
   openAiApiKey, 
   setOpenAiApiKey,
+  stableDiffusionUrl,
+  setStableDiffusionUrl,
   supabaseUrl,
   setSupabaseUrl,
   supabaseAnonKey,
@@ -25,6 +29,16 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   const [showTableCreationSql, setShowTableCreationSql] = useState(false);
   const [showStoragePolicySql, setShowStoragePolicySql] = useState(false);
   const [showTablePolicySql, setShowTablePolicySql] = useState(false);
+  const [showHistorySql, setShowHistorySql] = useState(false);
+  const [showAuthRolesSql, setShowAuthRolesSql] = useState(false);
+  const [showAutopilotSql, setShowAutopilotSql] = useState(false);
+  const [showEmailActionSql, setShowEmailActionSql] = useState(false);
+  const [showSocialSql, setShowSocialSql] = useState(false);
+  const [showExampleSearchSql, setShowExampleSearchSql] = useState(false);
+  const [showGenerationSettingsSql, setShowGenerationSettingsSql] = useState(false);
+  const [showInspirationSql, setShowInspirationSql] = useState(false);
+  const [showHeadlineInboxSql, setShowHeadlineInboxSql] = useState(false);
+  const [showModerationSql, setShowModerationSql] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [connectionMessage, setConnectionMessage] = useState('');
@@ -36,8 +50,26 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   bottom_text TEXT NOT NULL,
   image_prompt TEXT NOT NULL,
   model_used TEXT NOT NULL,
-  image_url TEXT NOT NULL
-);`;
+  image_url TEXT NOT NULL,
+  original_image_url TEXT,
+  template_id TEXT NOT NULL DEFAULT 'classic',
+  slots JSONB NOT NULL DEFAULT '[]',
+  slot_image_urls JSONB NOT NULL DEFAULT '{}',
+  alt_text TEXT NOT NULL DEFAULT '',
+  social_copy JSONB NOT NULL DEFAULT '{}',
+  is_featured BOOLEAN NOT NULL DEFAULT FALSE,
+  social_post_urls JSONB NOT NULL DEFAULT '{}'
+);
+
+-- Already created the table? Add the newer columns instead:
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS original_image_url TEXT;
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS template_id TEXT NOT NULL DEFAULT 'classic';
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS slots JSONB NOT NULL DEFAULT '[]';
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS slot_image_urls JSONB NOT NULL DEFAULT '{}';
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS alt_text TEXT NOT NULL DEFAULT '';
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS is_featured BOOLEAN NOT NULL DEFAULT FALSE;
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS social_post_urls JSONB NOT NULL DEFAULT '{}';
+-- ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS social_copy JSONB NOT NULL DEFAULT '{}';`;
 
   const storagePolicySqlToCopy = `-- This script configures your Supabase storage bucket for public access.
 -- You MUST run this entire script in your Supabase SQL Editor to fix upload errors.
@@ -89,6 +121,489 @@ CREATE POLICY "Allow public insert access to approved_memes"
 ON public.approved_memes FOR INSERT
 TO anon
 WITH CHECK (true);
+
+-- STEP 4: Create a policy to allow public UPDATE access.
+-- This allows admins to feature memes in the public gallery.
+CREATE POLICY "Allow public update access to approved_memes"
+ON public.approved_memes FOR UPDATE
+TO anon
+USING (true)
+WITH CHECK (true);
+`;
+
+const historySqlToCopy = `-- This script creates the tables that record every generation batch,
+-- including pending and rejected memes, for the Batch History panel.
+
+CREATE TABLE generation_batches (
+  id UUID PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  source_type TEXT NOT NULL,
+  input_text TEXT NOT NULL,
+  inspiration_set_name TEXT NOT NULL DEFAULT '',
+  inspiration_links TEXT NOT NULL DEFAULT '',
+  system_instruction_version TEXT NOT NULL,
+  examples JSONB NOT NULL DEFAULT '[]',
+  rejected_examples JSONB NOT NULL DEFAULT '[]',
+  text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro',
+  images_per_concept SMALLINT NOT NULL DEFAULT 1,
+  model_preference JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL,
+  error_message TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL,
+  concept_duration_ms INTEGER,
+  total_duration_ms INTEGER NOT NULL,
+  blocked_count SMALLINT NOT NULL DEFAULT 0
+);
+
+CREATE TABLE generated_memes (
+  id UUID PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES generation_batches(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  template_id TEXT NOT NULL DEFAULT 'classic',
+  slots JSONB NOT NULL DEFAULT '[]',
+  top_text TEXT NOT NULL,
+  bottom_text TEXT NOT NULL,
+  image_prompt TEXT NOT NULL,
+  alt_text TEXT NOT NULL,
+  social_copy JSONB NOT NULL DEFAULT '{}',
+  model_used TEXT NOT NULL,
+  image_url TEXT NOT NULL,
+  slot_image_urls JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending',
+  rejection_tags TEXT[] NOT NULL DEFAULT '{}',
+  rejection_note TEXT NOT NULL DEFAULT '',
+  original_concept JSONB,
+  generation_duration_ms INTEGER,
+  moderation JSONB
+);
+
+-- Already created the tables? Add the newer columns instead (and skip the policies below):
+-- ALTER TABLE generation_batches ADD COLUMN IF NOT EXISTS rejected_examples JSONB NOT NULL DEFAULT '[]';
+-- ALTER TABLE generation_batches ADD COLUMN IF NOT EXISTS text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro';
+-- ALTER TABLE generation_batches ADD COLUMN IF NOT EXISTS images_per_concept SMALLINT NOT NULL DEFAULT 1;
+-- ALTER TABLE generation_batches ADD COLUMN IF NOT EXISTS inspiration_set_name TEXT NOT NULL DEFAULT '';
+-- ALTER TABLE generated_memes ADD COLUMN IF NOT EXISTS rejection_tags TEXT[] NOT NULL DEFAULT '{}';
+-- ALTER TABLE generated_memes ADD COLUMN IF NOT EXISTS rejection_note TEXT NOT NULL DEFAULT '';
+-- ALTER TABLE generated_memes ADD COLUMN IF NOT EXISTS original_concept JSONB;
+-- ALTER TABLE generated_memes ADD COLUMN IF NOT EXISTS social_copy JSONB NOT NULL DEFAULT '{}';
+-- ALTER TABLE generation_batches ADD COLUMN IF NOT EXISTS blocked_count SMALLINT NOT NULL DEFAULT 0;
+-- ALTER TABLE generated_memes ADD COLUMN IF NOT EXISTS moderation JSONB;
+
+ALTER TABLE public.generation_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.generated_memes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to generation_batches"
+ON public.generation_batches FOR ALL
+TO anon
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Allow public access to generated_memes"
+ON public.generated_memes FOR ALL
+TO anon
+USING (true)
+WITH CHECK (true);
+`;
+
+const authRolesSqlToCopy = `-- This script replaces the public write policies above with admin-only ones.
+-- Only signed-in users listed in 'profiles' can use the admin tools:
+--   admin    - generate, approve, feature and configure
+--   reviewer - browse batches, reject, regenerate, edit and riff
+-- Website visitors keep read-only access to the gallery.
+
+-- STEP 1: Create the profiles table that stores each user's role.
+CREATE TABLE public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'reviewer')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own profile"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (id = auth.uid());
+
+-- STEP 2: Helper functions used by the policies below.
+CREATE OR REPLACE FUNCTION public.is_admin() RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff() RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid());
+$$;
+
+-- STEP 3: Only admins can upload images, except that reviewers can save the images of memes they
+-- regenerate, edit or riff on under public/history/. Everyone can still view them.
+DROP POLICY IF EXISTS "Allow public uploads to memes bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public updates to memes bucket" ON storage.objects;
+
+CREATE POLICY "Allow admin uploads to memes bucket"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK ( bucket_id = 'memes' AND public.is_admin() );
+
+CREATE POLICY "Allow admin updates to memes bucket"
+ON storage.objects FOR UPDATE TO authenticated
+USING ( bucket_id = 'memes' AND public.is_admin() )
+WITH CHECK ( bucket_id = 'memes' AND public.is_admin() );
+
+CREATE POLICY "Allow staff uploads to memes history"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK ( bucket_id = 'memes' AND name LIKE 'public/history/%' AND public.is_staff() );
+
+CREATE POLICY "Allow staff updates to memes history"
+ON storage.objects FOR UPDATE TO authenticated
+USING ( bucket_id = 'memes' AND name LIKE 'public/history/%' AND public.is_staff() )
+WITH CHECK ( bucket_id = 'memes' AND name LIKE 'public/history/%' AND public.is_staff() );
+
+CREATE POLICY "Allow signed-in reads of memes bucket"
+ON storage.objects FOR SELECT TO authenticated
+USING ( bucket_id = 'memes' );
+
+-- STEP 4: Only admins can approve and feature memes. Everyone can still read them.
+DROP POLICY IF EXISTS "Allow public insert access to approved_memes" ON public.approved_memes;
+DROP POLICY IF EXISTS "Allow public update access to approved_memes" ON public.approved_memes;
+
+CREATE POLICY "Allow signed-in read access to approved_memes"
+ON public.approved_memes FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Allow admin insert access to approved_memes"
+ON public.approved_memes FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow admin update access to approved_memes"
+ON public.approved_memes FOR UPDATE
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+-- STEP 5: History is visible to staff only. Admins record batches; reviewers save the memes they
+-- review, regenerate, edit or riff on (saving a meme is an upsert, so it needs INSERT and UPDATE).
+DROP POLICY IF EXISTS "Allow public access to generation_batches" ON public.generation_batches;
+DROP POLICY IF EXISTS "Allow public access to generated_memes" ON public.generated_memes;
+
+CREATE POLICY "Allow staff read access to generation_batches"
+ON public.generation_batches FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Allow admin write access to generation_batches"
+ON public.generation_batches FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow admin update access to generation_batches"
+ON public.generation_batches FOR UPDATE
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow staff read access to generated_memes"
+ON public.generated_memes FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Allow staff insert access to generated_memes"
+ON public.generated_memes FOR INSERT
+TO authenticated
+WITH CHECK (public.is_staff());
+
+CREATE POLICY "Allow staff update access to generated_memes"
+ON public.generated_memes FOR UPDATE
+TO authenticated
+USING (public.is_staff())
+WITH CHECK (public.is_staff());
+
+-- Already ran an earlier version of this script? So that reviewers' regenerations and edits are saved,
+-- run this line, then the CREATE POLICY statements above for "Allow staff uploads to memes history",
+-- "Allow staff updates to memes history", "Allow admin update access to generation_batches" and
+-- "Allow staff insert access to generated_memes":
+-- DROP POLICY IF EXISTS "Allow admin insert access to generated_memes" ON public.generated_memes;
+
+-- STEP 6: Make yourself the first admin (after creating your user under Authentication > Users).
+-- INSERT INTO public.profiles (id, email, role)
+-- SELECT id, email, 'admin' FROM auth.users WHERE email = 'you@example.com';
+`;
+
+const autopilotSqlToCopy = `-- This script creates the campaign and run tables used by the autopilot worker.
+-- Run the 'Auth & Roles SQL' first: only admins can manage autopilot from the app.
+-- The worker itself connects with the service role key, which bypasses these policies.
+
+CREATE TABLE autopilot_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  name TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  inspiration_set_name TEXT NOT NULL DEFAULT '',
+  headline_count SMALLINT NOT NULL DEFAULT 0 CHECK (headline_count BETWEEN 0 AND 5),
+  cron_expression TEXT NOT NULL DEFAULT '0 8 * * *',
+  time_zone TEXT NOT NULL DEFAULT 'America/New_York',
+  meme_count SMALLINT NOT NULL DEFAULT 5 CHECK (meme_count BETWEEN 1 AND 10),
+  images_per_concept SMALLINT NOT NULL DEFAULT 1 CHECK (images_per_concept BETWEEN 1 AND 4),
+  text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro',
+  model_preference JSONB NOT NULL DEFAULT '{}',
+  recipients TEXT[] NOT NULL DEFAULT '{admin@kissmyfacenewyork.com}',
+  is_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  max_attempts SMALLINT NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  next_run_at TIMESTAMPTZ
+);
+
+CREATE TABLE autopilot_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES autopilot_jobs(id) ON DELETE CASCADE,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  triggered_by TEXT NOT NULL DEFAULT 'schedule',
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempt SMALLINT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  error_message TEXT,
+  batch_id UUID,
+  email_sent_at TIMESTAMPTZ,
+  UNIQUE (job_id, scheduled_for)
+);
+
+-- Already created the single-schedule autopilot tables? Upgrade them instead:
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS name TEXT NOT NULL DEFAULT 'Daily autopilot';
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS cron_expression TEXT NOT NULL DEFAULT '0 8 * * *';
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS meme_count SMALLINT NOT NULL DEFAULT 5 CHECK (meme_count BETWEEN 1 AND 10);
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS model_preference JSONB NOT NULL DEFAULT '{}';
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS images_per_concept SMALLINT NOT NULL DEFAULT 1 CHECK (images_per_concept BETWEEN 1 AND 4);
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro';
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS inspiration_set_name TEXT NOT NULL DEFAULT '';
+-- ALTER TABLE autopilot_jobs DROP COLUMN IF EXISTS inspiration_links;
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS headline_count SMALLINT NOT NULL DEFAULT 0 CHECK (headline_count BETWEEN 0 AND 5);
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS recipients TEXT[] NOT NULL DEFAULT '{admin@kissmyfacenewyork.com}';
+-- ALTER TABLE autopilot_runs ADD COLUMN IF NOT EXISTS email_sent_at TIMESTAMPTZ;
+-- ALTER TABLE autopilot_jobs ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ;
+-- ALTER TABLE autopilot_jobs DROP COLUMN IF EXISTS run_hour;
+-- ALTER TABLE autopilot_runs ADD COLUMN IF NOT EXISTS triggered_by TEXT NOT NULL DEFAULT 'schedule';
+-- ALTER TABLE autopilot_runs DROP COLUMN IF EXISTS run_date;
+-- ALTER TABLE autopilot_runs ADD UNIQUE (job_id, scheduled_for);
+-- DROP POLICY IF EXISTS "Allow admin read access to autopilot_runs" ON public.autopilot_runs;
+-- Then run the policies below (skipping the ones that already exist), and pause and
+-- re-enable each campaign in the admin panel to compute its next run.
+
+ALTER TABLE public.autopilot_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.autopilot_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin access to autopilot_jobs"
+ON public.autopilot_jobs FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+-- Admins read run status and queue "Run now" runs.
+CREATE POLICY "Allow admin access to autopilot_runs"
+ON public.autopilot_runs FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+`;
+
+const emailActionSqlToCopy = `-- This script creates the table that makes the Approve/Reject/Regenerate links
+-- in approval emails single-use. Only the worker (with the service role key) uses it.
+CREATE TABLE email_action_tokens (
+  id UUID PRIMARY KEY,
+  meme_id UUID NOT NULL,
+  batch_id UUID NOT NULL,
+  action TEXT NOT NULL,
+  used_at TIMESTAMPTZ DEFAULT NOW(),
+  -- A meme's links from one email share a set; only one of them can be used.
+  link_set_id UUID UNIQUE
+);
+
+-- No policies: the anon key and signed-in users can't read or write it.
+ALTER TABLE public.email_action_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Already created the table? Add the newer column instead:
+-- ALTER TABLE email_action_tokens ADD COLUMN IF NOT EXISTS link_set_id UUID UNIQUE;
+`;
+
+const socialSqlToCopy = `-- This script creates the publishing queue for our social accounts.
+-- Run the 'Auth & Roles SQL' first: only admins can queue posts from the app.
+-- The worker publishes with the service role key, which bypasses these policies.
+
+-- Links to the published posts, keyed by platform. Visible in the public gallery.
+ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS social_post_urls JSONB NOT NULL DEFAULT '{}';
+
+CREATE TABLE social_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  meme_id UUID NOT NULL REFERENCES approved_memes(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  caption TEXT NOT NULL,
+  alt_text TEXT NOT NULL DEFAULT '',
+  image_url TEXT NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  attempt SMALLINT NOT NULL DEFAULT 0,
+  max_attempts SMALLINT NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  next_attempt_at TIMESTAMPTZ NOT NULL,
+  started_at TIMESTAMPTZ,
+  published_at TIMESTAMPTZ,
+  post_url TEXT,
+  error_message TEXT
+);
+
+ALTER TABLE public.social_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin access to social_posts"
+ON public.social_posts FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+`;
+
+const exampleSearchSqlToCopy = `-- This script lets generation pick the approved memes most related to the headline or prompt as examples.
+-- Embeddings are stored when a meme is approved; older memes are embedded a few at a time on each generation.
+-- Storing them uses the approved_memes UPDATE policy, so sign in as an admin.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS embedding vector(768);
+CREATE INDEX IF NOT EXISTS approved_memes_embedding_idx ON approved_memes USING hnsw (embedding vector_cosine_ops);
+
+CREATE OR REPLACE FUNCTION match_approved_memes(query_embedding vector(768), match_count INT)
+RETURNS TABLE (id UUID, top_text TEXT, bottom_text TEXT, image_prompt TEXT, model_used TEXT, template_id TEXT, slots JSONB, embedding vector(768))
+LANGUAGE sql STABLE AS $$
+  SELECT id, top_text, bottom_text, image_prompt, model_used, template_id, slots, embedding
+  FROM approved_memes
+  WHERE embedding IS NOT NULL
+  ORDER BY embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+`;
+
+const generationSettingsSqlToCopy = `-- This script stores each admin's generation settings (concepts, images per concept, provider mix and text model).
+-- Run the 'Auth & Roles SQL' first. Without this table, generation uses the defaults.
+
+CREATE TABLE generation_settings (
+  user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  concept_count SMALLINT NOT NULL DEFAULT 5 CHECK (concept_count BETWEEN 1 AND 10),
+  images_per_concept SMALLINT NOT NULL DEFAULT 1 CHECK (images_per_concept BETWEEN 1 AND 4),
+  model_preference JSONB NOT NULL DEFAULT '{}',
+  text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro'
+);
+
+ALTER TABLE public.generation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage their own generation_settings"
+ON public.generation_settings FOR ALL
+TO authenticated
+USING (user_id = auth.uid() AND public.is_admin())
+WITH CHECK (user_id = auth.uid() AND public.is_admin());
+`;
+
+const inspirationSqlToCopy = `-- This script creates the inspiration library: named sets of reference meme screenshots with their captions.
+-- Run the 'Auth & Roles SQL' first. Screenshots are uploaded to the 'memes' bucket, so admins can upload them.
+-- The worker reads the sets for autopilot campaigns with the service role key.
+
+CREATE TABLE inspiration_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  name TEXT NOT NULL UNIQUE
+);
+
+CREATE TABLE inspiration_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  set_id UUID NOT NULL REFERENCES inspiration_sets(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  image_url TEXT NOT NULL,
+  caption TEXT NOT NULL DEFAULT ''
+);
+
+ALTER TABLE public.inspiration_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inspiration_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin access to inspiration_sets"
+ON public.inspiration_sets FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow admin access to inspiration_items"
+ON public.inspiration_items FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+`;
+
+const headlineInboxSqlToCopy = `-- This script creates the headline inbox: RSS/Atom feeds and the headlines the worker reads from them.
+-- Run the 'Auth & Roles SQL' first. The worker fetches the feeds with the service role key.
+
+CREATE TABLE headline_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  name TEXT NOT NULL,
+  url TEXT NOT NULL UNIQUE,
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_fetched_at TIMESTAMPTZ,
+  last_error TEXT
+);
+
+CREATE TABLE headlines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  feed_id UUID REFERENCES headline_feeds(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  link TEXT NOT NULL DEFAULT '',
+  published_at TIMESTAMPTZ,
+  dedupe_key TEXT NOT NULL UNIQUE,
+  used_at TIMESTAMPTZ,
+  used_by_batch_id UUID
+);
+CREATE INDEX headlines_unused_idx ON headlines (published_at DESC) WHERE used_at IS NULL;
+
+ALTER TABLE public.headline_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.headlines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin access to headline_feeds"
+ON public.headline_feeds FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Allow admin access to headlines"
+ON public.headlines FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+`;
+
+const moderationSqlToCopy = `-- This script stores the moderation policy: what happens to memes in each category (block, flag or allow).
+-- Run the 'Auth & Roles SQL' first. Without this table, memes are screened with the default policy.
+
+CREATE TABLE moderation_policy (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  actions JSONB NOT NULL DEFAULT '{}'
+);
+
+ALTER TABLE public.moderation_policy ENABLE ROW LEVEL SECURITY;
+
+-- Reviewers riff on memes too, so every signed-in user can read the policy.
+CREATE POLICY "Allow signed-in users to read moderation_policy"
+ON public.moderation_policy FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Allow admins to change moderation_policy"
+ON public.moderation_policy FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
 `;
 
   const handleCredentialsChange = () => {
@@ -207,6 +722,106 @@ WITH CHECK (true);
                     </pre>
                   )}
             </InstructionStep>
+
+            <InstructionStep number={6} title="Create History Tables (Optional)">
+                <p>Run this SQL to record every generation batch, including pending and rejected memes, so you can browse and reopen them later.</p>
+                <button onClick={() => setShowHistorySql(!showHistorySql)} className="text-cyan-400 hover:underline mt-2">({showHistorySql ? 'Hide' : 'Show'} History Tables SQL)</button>
+                 {showHistorySql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{historySqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={7} title="CRITICAL: Restrict Access to Admins" isCritical>
+                <p>Steps 3, 5 and 6 let anyone with the anon key write to your backend. Run this SQL to require an admin or reviewer login, then add yourself as the first admin at the bottom of the script.</p>
+                <button onClick={() => setShowAuthRolesSql(!showAuthRolesSql)} className="text-cyan-400 hover:underline mt-2 text-left">({showAuthRolesSql ? 'Hide' : 'Show'} Auth &amp; Roles SQL)</button>
+                 {showAuthRolesSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{authRolesSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={8} title="Create Autopilot Tables (Optional)">
+                <p>Run this SQL to store autopilot campaigns and their run status, then start the autopilot worker on a server (see the README). Autopilot no longer needs this page to stay open.</p>
+                <button onClick={() => setShowAutopilotSql(!showAutopilotSql)} className="text-cyan-400 hover:underline mt-2">({showAutopilotSql ? 'Hide' : 'Show'} Autopilot Tables SQL)</button>
+                 {showAutopilotSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{autopilotSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={9} title="Create Email Link Table (Optional)">
+                <p>Run this SQL to add Approve, Reject and Regenerate links to approval emails. Each link works once. The worker also needs <code>APP_URL</code> and <code>EMAIL_ACTION_SECRET</code> (see the README), and the memes must be in the history tables from step 6.</p>
+                <button onClick={() => setShowEmailActionSql(!showEmailActionSql)} className="text-cyan-400 hover:underline mt-2">({showEmailActionSql ? 'Hide' : 'Show'} Email Link Table SQL)</button>
+                 {showEmailActionSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{emailActionSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={10} title="Create Publishing Queue (Optional)">
+                <p>Run this SQL to post approved memes to Instagram, Bluesky and X. Open a meme in the gallery to schedule it; the worker publishes it with the account credentials from its environment (see the README).</p>
+                <button onClick={() => setShowSocialSql(!showSocialSql)} className="text-cyan-400 hover:underline mt-2">({showSocialSql ? 'Hide' : 'Show'} Social Publishing SQL)</button>
+                 {showSocialSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{socialSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={11} title="Enable Example Search (Optional)">
+                <p>Run this SQL to search approved memes by meaning with pgvector, so each batch learns from the examples closest to its headline or prompt. Without it, recent memes are embedded and searched in the browser or worker instead.</p>
+                <button onClick={() => setShowExampleSearchSql(!showExampleSearchSql)} className="text-cyan-400 hover:underline mt-2">({showExampleSearchSql ? 'Hide' : 'Show'} Example Search SQL)</button>
+                 {showExampleSearchSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{exampleSearchSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={12} title="Save Generation Settings (Optional)">
+                <p>Run this SQL so each admin's concept count, images per concept, provider mix and text model are saved between sessions. Without it, the Generation Settings panel still works but resets on reload.</p>
+                <button onClick={() => setShowGenerationSettingsSql(!showGenerationSettingsSql)} className="text-cyan-400 hover:underline mt-2">({showGenerationSettingsSql ? 'Hide' : 'Show'} Generation Settings SQL)</button>
+                 {showGenerationSettingsSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{generationSettingsSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={13} title="Create Inspiration Library">
+                <p>Run this SQL to store reference meme screenshots and captions in named sets. Generating from inspiration, by hand or on autopilot, shows the model the screenshots of the chosen set.</p>
+                <button onClick={() => setShowInspirationSql(!showInspirationSql)} className="text-cyan-400 hover:underline mt-2">({showInspirationSql ? 'Hide' : 'Show'} Inspiration Library SQL)</button>
+                 {showInspirationSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{inspirationSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={14} title="Create Headline Inbox (Optional)">
+                <p>Run this SQL to collect headlines from RSS and Atom feeds. The worker reads the enabled feeds every 30 minutes and keeps each story once, whichever outlet ran it.</p>
+                <button onClick={() => setShowHeadlineInboxSql(!showHeadlineInboxSql)} className="text-cyan-400 hover:underline mt-2">({showHeadlineInboxSql ? 'Hide' : 'Show'} Headline Inbox SQL)</button>
+                 {showHeadlineInboxSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{headlineInboxSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
+
+            <InstructionStep number={15} title="Create Moderation Policy (Optional)">
+                <p>Run this SQL to choose what the moderation step does with memes in each category. Every concept and image is screened either way; without the table, the default policy applies.</p>
+                <button onClick={() => setShowModerationSql(!showModerationSql)} className="text-cyan-400 hover:underline mt-2">({showModerationSql ? 'Hide' : 'Show'} Moderation Policy SQL)</button>
+                 {showModerationSql && (
+                    <pre className="bg-gray-800 p-3 mt-2 rounded-md text-xs text-yellow-300 overflow-x-auto">
+                      <code>{moderationSqlToCopy}</code>
+                    </pre>
+                  )}
+            </InstructionStep>
         </div>
         <div className="flex flex-col gap-4">
           <div>
@@ -253,7 +868,7 @@ WITH CHECK (true);
       <div className="p-4 border border-cyan-500/50 rounded-lg">
         <h3 className="text-lg font-bold text-cyan-300 mb-2">OpenAI API (Optional)</h3>
         <p className="text-sm text-gray-400 mb-4">
-          To enable DALL-E 3 image generation, enter your OpenAI API key. If left blank, Gemini will be used for all images.
+          To enable DALL-E 3 and GPT Image generation, enter your OpenAI API key. If left blank, Gemini will be used instead.
         </p>
         <div className="flex flex-col gap-2">
           <label htmlFor="openai-key" className="text-sm font-bold text-gray-300">OpenAI API Key</label>
@@ -268,6 +883,26 @@ WITH CHECK (true);
           />
         </div>
       </div>
+
+      {/* Stable Diffusion Configuration */}
+      <div className="mt-6 p-4 border border-pink-500/50 rounded-lg">
+        <h3 className="text-lg font-bold text-pink-300 mb-2">Stable Diffusion Endpoint (Optional)</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Point this at a self-hosted server exposing the <code className="bg-gray-800 text-pink-300 px-1 rounded">/sdapi/v1/txt2img</code> API (AUTOMATIC1111, or ComfyUI behind a compatible wrapper). If left blank, Gemini will be used instead.
+        </p>
+        <div className="flex flex-col gap-2">
+          <label htmlFor="stable-diffusion-url" className="text-sm font-bold text-gray-300">Endpoint URL</label>
+          <input
+            id="stable-diffusion-url"
+            type="text"
+            value={stableDiffusionUrl}
+            onChange={(e) => setStableDiffusionUrl(e.target.value)}
+            placeholder="http://localhost:7860"
+            className="w-full bg-gray-800 border-2 border-gray-700 focus:border-pink-500 focus:ring-pink-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors"
+            autoComplete="off"
+          />
+        </div>
+      </div>
     </div>
   );
 };
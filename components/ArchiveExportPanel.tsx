@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import type { ApprovedMeme } from '../types';
+import { MAX_ARCHIVE_MEMES, getApprovedMemesBetween } from '../services/feedbackService';
+import { createMemeArchive } from '../services/archiveExport';
+import { downloadFile } from '../services/shareService';
+
+interface ArchiveExportPanelProps {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+
+/** 'YYYY-MM-DD' in local time, as date inputs use. */
+const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** The start of the local day after the given date input value. */
+const getDayAfter = (value: string) => {
+  const date = new Date(`${value}T00:00`);
+  date.setDate(date.getDate() + 1);
+  return date;
+};
+
+const ArchiveExportPanel: React.FC<ArchiveExportPanelProps> = ({ supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [since, setSince] = useState(() => toDateInputValue(new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000)));
+  const [until, setUntil] = useState(() => toDateInputValue(new Date()));
+  const [memes, setMemes] = useState<ApprovedMeme[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const handleFindMemes = async () => {
+    setIsLoading(true);
+    setErrorMessage('');
+    setNotice('');
+    try {
+      const found = await getApprovedMemesBetween(supabaseUrl, supabaseAnonKey, since ? new Date(`${since}T00:00`) : null, until ? getDayAfter(until) : null);
+      setMemes(found);
+      setSelectedIds(new Set(found.map(meme => meme.id)));
+      if (found.length === MAX_ARCHIVE_MEMES) {
+        setNotice(`Showing the first ${MAX_ARCHIVE_MEMES} memes. Export them, then narrow the range for the rest.`);
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load the memes to export.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+
+  const handleExport = async () => {
+    const selectedMemes = (memes ?? []).filter(meme => selectedIds.has(meme.id));
+    if (selectedMemes.length === 0) return;
+    setProgress(0);
+    setErrorMessage('');
+    setNotice('');
+    try {
+      const { zip, missingImageCount } = await createMemeArchive(selectedMemes, setProgress);
+      downloadFile(new File([zip], `kiss-my-face-ny-memes-${since || 'start'}-to-${until || 'now'}.zip`, { type: 'application/zip' }));
+      if (missingImageCount > 0) {
+        setNotice(`${missingImageCount} image(s) couldn't be downloaded. They are listed in the manifest without a file.`);
+      }
+    } catch (error) {
+      console.error('Failed to export memes:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to build the ZIP.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isBusy = isLoading || progress !== null;
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-emerald-500/30 shadow-lg shadow-emerald-500/10 mb-8">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Archive Export</h2>
+      <p className="text-center text-gray-400 mb-6">
+        Download approved memes as a ZIP of images with a manifest (JSON and CSV) of their captions, alt text, prompts, providers, approval dates and public URLs.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2 mb-4">
+        <label className="flex-grow text-xs font-bold uppercase tracking-wider text-gray-500">
+          Approved from
+          <input
+            type="date"
+            value={since}
+            onChange={(e) => setSince(e.target.value)}
+            className="block w-full mt-1 bg-gray-800 border-2 border-gray-700 focus:border-emerald-500 rounded-lg px-3 py-2 text-white text-sm font-normal normal-case tracking-normal"
+          />
+        </label>
+        <label className="flex-grow text-xs font-bold uppercase tracking-wider text-gray-500">
+          Through
+          <input
+            type="date"
+            value={until}
+            onChange={(e) => setUntil(e.target.value)}
+            className="block w-full mt-1 bg-gray-800 border-2 border-gray-700 focus:border-emerald-500 rounded-lg px-3 py-2 text-white text-sm font-normal normal-case tracking-normal"
+          />
+        </label>
+        <button
+          onClick={handleFindMemes}
+          disabled={!isSupabaseConnected || isBusy}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Loading...' : 'Find memes'}
+        </button>
+      </div>
+
+      {errorMessage && <p className="mb-4 text-sm text-red-400">{errorMessage}</p>}
+      {notice && <p className="mb-4 text-sm text-yellow-300">{notice}</p>}
+
+      {memes && (
+        memes.length === 0 ? (
+          <p className="text-center text-gray-500">No memes were approved in this range.</p>
+        ) : (
+          <>
+            <div className="flex justify-between items-center mb-2 text-sm">
+              <span className="text-gray-400">{selectedIds.size} of {memes.length} selected</span>
+              <div className="flex gap-3">
+                <button onClick={() => setSelectedIds(new Set(memes.map(meme => meme.id)))} disabled={isBusy} className="text-emerald-300 hover:underline disabled:opacity-50">All</button>
+                <button onClick={() => setSelectedIds(new Set())} disabled={isBusy} className="text-emerald-300 hover:underline disabled:opacity-50">None</button>
+              </div>
+            </div>
+            <ul className="grid grid-cols-4 sm:grid-cols-6 gap-2 mb-4 max-h-96 overflow-y-auto">
+              {memes.map(meme => (
+                <li key={meme.id}>
+                  <button
+                    onClick={() => toggleSelected(meme.id)}
+                    disabled={isBusy}
+                    aria-pressed={selectedIds.has(meme.id)}
+                    title={new Date(meme.createdAt).toLocaleDateString()}
+                    className={`block w-full rounded-md overflow-hidden border-2 transition-opacity ${selectedIds.has(meme.id) ? 'border-emerald-400' : 'border-transparent opacity-40'}`}
+                  >
+                    <img src={meme.imageUrl} alt={meme.altText} loading="lazy" className="w-full aspect-square object-cover" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleExport}
+              disabled={isBusy || selectedIds.size === 0}
+              className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {progress !== null ? `Packing ${progress} of ${selectedIds.size}...` : `⬇ Download ZIP (${selectedIds.size})`}
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ArchiveExportPanel;
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import type { AutopilotJob, GenerationSettings } from '../types';
+import { DEFAULT_AUTOPILOT_CRON, DEFAULT_AUTOPILOT_TIME_ZONE, getNextCronTime } from '../services/autopilotSchedule';
+import { DEFAULT_APPROVAL_RECIPIENT } from '../services/approvalEmail';
+import GenerationSettingsFields, { getGenerationSettingsError } from './GenerationSettingsFields';
+
+export type AutopilotCampaignDraft = Omit<AutopilotJob, 'id' | 'nextRunAt'> & { id?: string };
+
+interface AutopilotCampaignFormProps {
+  campaign: AutopilotJob | null;
+  /** New campaigns start from the admin's generation settings. */
+  defaultSettings: GenerationSettings;
+  inspirationSetNames: string[];
+  isSaving: boolean;
+  onSave: (draft: AutopilotCampaignDraft) => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_HEADLINE_COUNT = 5;
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const CRON_EXAMPLES = [
+  { expression: '0 8 * * *', label: 'Every day at 8 AM' },
+  { expression: '0 18 * * THU', label: 'Thursdays at 6 PM' },
+  { expression: '0 10 * * MON', label: 'Mondays at 10 AM' },
+];
+
+export const formatInTimeZone = (date: Date, timeZone: string) =>
+  date.toLocaleString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short' });
+
+const parseRecipients = (text: string) => text.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean);
+
+const AutopilotCampaignForm: React.FC<AutopilotCampaignFormProps> = ({ campaign, defaultSettings, inspirationSetNames, isSaving, onSave, onCancel }) => {
+  const [name, setName] = useState(campaign?.name ?? '');
+  const [prompt, setPrompt] = useState(campaign?.prompt ?? '');
+  const [inspirationSetName, setInspirationSetName] = useState(campaign?.inspirationSetName ?? '');
+  const [headlineCount, setHeadlineCount] = useState(campaign?.headlineCount ?? 0);
+  const [cronExpression, setCronExpression] = useState(campaign?.cronExpression ?? DEFAULT_AUTOPILOT_CRON);
+  const [timeZone, setTimeZone] = useState(campaign?.timeZone ?? DEFAULT_AUTOPILOT_TIME_ZONE);
+  const [settings, setSettings] = useState<GenerationSettings>(campaign ? {
+    conceptCount: campaign.memeCount,
+    imagesPerConcept: campaign.imagesPerConcept,
+    modelPreference: campaign.modelPreference,
+    textModel: campaign.textModel,
+  } : defaultSettings);
+  const [recipientsText, setRecipientsText] = useState((campaign?.recipients ?? [DEFAULT_APPROVAL_RECIPIENT]).join(', '));
+
+  const schedulePreview = useMemo(() => {
+    try {
+      return { nextRun: formatInTimeZone(getNextCronTime(cronExpression, timeZone, new Date()), timeZone), error: '' };
+    } catch (error) {
+      return { nextRun: '', error: error instanceof Error ? error.message : 'Invalid cron expression.' };
+    }
+  }, [cronExpression, timeZone]);
+
+  const recipients = parseRecipients(recipientsText);
+  const invalidRecipients = recipients.filter(email => !EMAIL_PATTERN.test(email));
+
+  const validationError =
+    !name.trim() ? 'Give the campaign a name.'
+    : !prompt.trim() && headlineCount === 0 ? 'Set a prompt or take headlines from the inbox.'
+    : !inspirationSetName ? 'Choose an inspiration set.'
+    : !inspirationSetNames.includes(inspirationSetName) ? `The inspiration set "${inspirationSetName}" no longer exists. Choose another one.`
+    : schedulePreview.error ? schedulePreview.error
+    : recipients.length === 0 ? 'Add at least one recipient.'
+    : invalidRecipients.length > 0 ? `Invalid email address: ${invalidRecipients.join(', ')}`
+    : getGenerationSettingsError(settings);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+    onSave({
+      id: campaign?.id,
+      name: name.trim(),
+      prompt: prompt.trim(),
+      inspirationSetName,
+      headlineCount,
+      cronExpression: cronExpression.trim(),
+      timeZone,
+      memeCount: settings.conceptCount,
+      imagesPerConcept: settings.imagesPerConcept,
+      modelPreference: settings.modelPreference,
+      textModel: settings.textModel,
+      recipients,
+      isEnabled: campaign?.isEnabled ?? false,
+      maxAttempts: campaign?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    });
+  };
+
+  const inputClassName = "w-full bg-gray-800 border-2 border-gray-700 focus:border-purple-500 focus:ring-purple-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors";
+  const labelClassName = "text-sm font-bold text-gray-300 block mb-1";
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4 bg-gray-800/50 p-4 rounded-lg">
+      <h3 className="text-lg font-bold text-purple-300">{campaign ? `Edit "${campaign.name}"` : 'New Campaign'}</h3>
+      <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Campaign name (e.g., 'Friday show hype')" className={inputClassName} aria-label="Campaign name" />
+      <input type="text" value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="Enter a recurring prompt (e.g., 'That Friday feeling')" className={inputClassName} aria-label="Prompt" />
+      <select value={inspirationSetName} onChange={(e) => setInspirationSetName(e.target.value)} className={inputClassName} aria-label="Inspiration set">
+        <option value="">Choose an inspiration set...</option>
+        {inspirationSetNames.map(name => <option key={name} value={name}>{name}</option>)}
+      </select>
+      <div>
+        <label htmlFor="campaign-headline-count" className={labelClassName}>
+          Inbox headlines per run <span className="font-normal text-gray-500">(the newest unused ones lead the prompt; 0 uses the prompt alone)</span>
+        </label>
+        <input id="campaign-headline-count" type="number" min={0} max={MAX_HEADLINE_COUNT} value={headlineCount} onChange={(e) => setHeadlineCount(Math.min(MAX_HEADLINE_COUNT, Math.max(0, Math.floor(Number(e.target.value)) || 0)))} className={`${inputClassName} sm:w-40`} />
+      </div>
+
+      <div>
+        <label className={labelClassName}>Schedule</label>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <input type="text" value={cronExpression} onChange={(e) => setCronExpression(e.target.value)} placeholder="minute hour day month weekday" className={`${inputClassName} font-mono`} aria-label="Cron expression" />
+          <select value={timeZone} onChange={(e) => setTimeZone(e.target.value)} className={inputClassName} aria-label="Time zone">
+            {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {CRON_EXAMPLES.map(example => (
+            <button key={example.expression} type="button" onClick={() => setCronExpression(example.expression)} className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-2 rounded-md">
+              {example.label}
+            </button>
+          ))}
+        </div>
+        <p className={`text-sm mt-2 ${schedulePreview.error ? 'text-red-400' : 'text-gray-400'}`}>
+          {schedulePreview.error || `Next run: ${schedulePreview.nextRun}`}
+        </p>
+      </div>
+
+      <GenerationSettingsFields settings={settings} onChange={setSettings} idPrefix="campaign" accent="purple" />
+
+      <div>
+        <label htmlFor="campaign-recipients" className={labelClassName}>Recipients</label>
+        <input id="campaign-recipients" type="text" value={recipientsText} onChange={(e) => setRecipientsText(e.target.value)} placeholder="admin@kissmyfacenewyork.com, promoter@example.com" className={inputClassName} />
+      </div>
+
+      {validationError && <p className="text-sm text-yellow-300">{validationError}</p>}
+
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancel} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all">Cancel</button>
+        <button
+          type="submit"
+          disabled={isSaving || Boolean(validationError)}
+          className="bg-gradient-to-r from-purple-500 to-indigo-500 hover:from-purple-600 hover:to-indigo-600 text-white font-bold py-2 px-6 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {isSaving ? 'Saving...' : 'Save Campaign'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AutopilotCampaignForm;
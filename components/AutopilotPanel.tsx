@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AutopilotJob, AutopilotRun, AutopilotRunStatus, GenerationSettings } from '../types';
+import { deleteAutopilotJob, getAutopilotJobs, getAutopilotRuns, runAutopilotJobNow, saveAutopilotJob } from '../services/autopilotService';
+import AutopilotCampaignForm, { formatInTimeZone } from './AutopilotCampaignForm';
+import type { AutopilotCampaignDraft } from './AutopilotCampaignForm';
+
+interface AutopilotPanelProps {
+  generationSettings: GenerationSettings;
+  inspirationSetNames: string[];
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const RUN_STATUS_STYLES: Record<AutopilotRunStatus, string> = {
+  pending: 'text-gray-300',
+  running: 'text-cyan-300',
+  retrying: 'text-yellow-300',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const AutopilotPanel: React.FC<AutopilotPanelProps> = ({ generationSettings, inspirationSetNames, supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [campaigns, setCampaigns] = useState<AutopilotJob[]>([]);
+  const [runs, setRuns] = useState<AutopilotRun[]>([]);
+  // null: form closed, 'new': creating, otherwise the campaign being edited.
+  const [editing, setEditing] = useState<AutopilotJob | 'new' | null>(null);
+  const [busyCampaignId, setBusyCampaignId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadCampaigns = useCallback(async () => {
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      const savedCampaigns = await getAutopilotJobs(supabaseUrl, supabaseAnonKey);
+      setCampaigns(savedCampaigns);
+      setRuns(savedCampaigns.length > 0 ? await getAutopilotRuns(savedCampaigns.map(c => c.id), supabaseUrl, supabaseAnonKey) : []);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load autopilot campaigns.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabaseUrl, supabaseAnonKey]);
+
+  useEffect(() => {
+    if (isSupabaseConnected) loadCampaigns();
+  }, [isSupabaseConnected, loadCampaigns]);
+
+  const replaceCampaign = (saved: AutopilotJob) =>
+    setCampaigns(current => (current.some(c => c.id === saved.id) ? current.map(c => (c.id === saved.id ? saved : c)) : [...current, saved]));
+
+  const handleSave = async (draft: AutopilotCampaignDraft) => {
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      replaceCampaign(await saveAutopilotJob(draft, supabaseUrl, supabaseAnonKey));
+      setEditing(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save the campaign.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runCampaignAction = async (campaign: AutopilotJob, action: () => Promise<void>) => {
+    setBusyCampaignId(campaign.id);
+    setErrorMessage('');
+    setNotice('');
+    try {
+      await action();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyCampaignId(null);
+    }
+  };
+
+  const handleToggle = (campaign: AutopilotJob) => runCampaignAction(campaign, async () => {
+    replaceCampaign(await saveAutopilotJob({ ...campaign, isEnabled: !campaign.isEnabled }, supabaseUrl, supabaseAnonKey));
+  });
+
+  const handleRunNow = (campaign: AutopilotJob) => runCampaignAction(campaign, async () => {
+    await runAutopilotJobNow(campaign.id, supabaseUrl, supabaseAnonKey);
+    setNotice(`"${campaign.name}" is queued. The worker will start it within a minute.`);
+    setRuns(await getAutopilotRuns(campaigns.map(c => c.id), supabaseUrl, supabaseAnonKey));
+  });
+
+  const handleDelete = (campaign: AutopilotJob) => {
+    if (!window.confirm(`Delete the "${campaign.name}" campaign and its run history?`)) return;
+    runCampaignAction(campaign, async () => {
+      await deleteAutopilotJob(campaign.id, supabaseUrl, supabaseAnonKey);
+      setCampaigns(current => current.filter(c => c.id !== campaign.id));
+    });
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-purple-500/30 shadow-lg shadow-purple-500/10 mb-12">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Autopilot Campaigns</h2>
+      <p className="text-center text-gray-400 mb-6">
+        Each campaign has its own theme, schedule and recipients. The autopilot worker generates and emails the memes on schedule, even when this page is closed.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={() => setEditing('new')}
+          disabled={!isSupabaseConnected || editing !== null}
+          className="flex-grow bg-gradient-to-r from-purple-500 to-indigo-500 hover:from-purple-600 hover:to-indigo-600 text-white font-bold py-2 px-4 rounded-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ＋ New Campaign
+        </button>
+        <button
+          onClick={loadCampaigns}
+          disabled={!isSupabaseConnected || isLoading}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Loading...' : '↻ Refresh'}
+        </button>
+      </div>
+
+      {errorMessage && (
+        <div className="mb-4 text-center p-2 rounded-md text-sm font-semibold bg-red-900/70 text-red-300">{errorMessage}</div>
+      )}
+      {notice && (
+        <div className="mb-4 text-center p-2 rounded-md text-sm font-semibold bg-green-900/70 text-green-300">{notice}</div>
+      )}
+
+      {editing && (
+        <div className="mb-4">
+          <AutopilotCampaignForm
+            key={editing === 'new' ? 'new' : editing.id}
+            campaign={editing === 'new' ? null : editing}
+            defaultSettings={generationSettings}
+            inspirationSetNames={inspirationSetNames}
+            isSaving={isSaving}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {isSupabaseConnected && !isLoading && campaigns.length === 0 && !errorMessage && (
+        <p className="text-center text-gray-400">No campaigns yet.</p>
+      )}
+
+      <ul className="space-y-3">
+        {campaigns.map(campaign => {
+          const campaignRuns = runs.filter(run => run.jobId === campaign.id);
+          const lastRun = campaignRuns[0];
+          const isBusy = busyCampaignId === campaign.id;
+
+          return (
+            <li key={campaign.id} className="bg-gray-800/70 rounded-lg p-4 text-sm text-gray-300">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-bold text-gray-200 text-base">
+                    {campaign.name}{' '}
+                    <span className={`text-xs font-bold uppercase tracking-wider px-2 py-0.5 rounded-md ${campaign.isEnabled ? 'bg-green-500/20 text-green-300' : 'bg-gray-700 text-gray-400'}`}>
+                      {campaign.isEnabled ? 'Active' : 'Paused'}
+                    </span>
+                  </p>
+                  <p className="break-words">
+                    {campaign.prompt}{' '}
+                    <span className="text-gray-500">
+                      · {campaign.inspirationSetName ? `"${campaign.inspirationSetName}" set` : 'no inspiration set'}
+                      {campaign.headlineCount > 0 && ` · ${campaign.headlineCount} inbox headlines`}
+                    </span>
+                  </p>
+                  <p className="text-gray-400">
+                    <code className="text-purple-300">{campaign.cronExpression}</code> ({campaign.timeZone}) · {campaign.memeCount * campaign.imagesPerConcept} memes · {campaign.recipients.join(', ')}
+                  </p>
+                </div>
+                <div className="flex flex-col gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggle(campaign)}
+                    disabled={isBusy}
+                    className={`font-bold py-1 px-3 rounded-lg transition-all disabled:opacity-50 ${campaign.isEnabled ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'} text-white`}
+                  >
+                    {campaign.isEnabled ? '⏸ Pause' : '▶️ Enable'}
+                  </button>
+                  <button onClick={() => handleRunNow(campaign)} disabled={isBusy} className="bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-1 px-3 rounded-lg transition-all disabled:opacity-50">
+                    ⚡ Run now
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-3 space-y-1">
+                <p>
+                  <span className="text-gray-500">Next run: </span>
+                  {campaign.nextRunAt ? formatInTimeZone(new Date(campaign.nextRunAt), campaign.timeZone) : 'Paused'}
+                </p>
+                <p>
+                  <span className="text-gray-500">Last run: </span>
+                  {lastRun ? (
+                    <>
+                      {formatInTimeZone(new Date(lastRun.scheduledFor), campaign.timeZone)}
+                      {lastRun.triggeredBy === 'manual' && ' (manual)'} · <span className={RUN_STATUS_STYLES[lastRun.status]}>{lastRun.status}</span>
+                      {' '}· attempt {lastRun.attempt}/{campaign.maxAttempts}
+                      {lastRun.status === 'retrying' && <> · next attempt {formatInTimeZone(new Date(lastRun.nextAttemptAt), campaign.timeZone)}</>}
+                    </>
+                  ) : 'Never'}
+                </p>
+                {lastRun?.errorMessage && <p className="text-red-400 break-words">{lastRun.errorMessage}</p>}
+              </div>
+
+              <div className="mt-3 flex gap-4">
+                <button onClick={() => setEditing(campaign)} disabled={editing !== null} className="text-purple-300 hover:underline disabled:opacity-50">Edit</button>
+                <button onClick={() => handleDelete(campaign)} disabled={isBusy} className="text-red-400 hover:underline disabled:opacity-50">Delete</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AutopilotPanel;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import type { GenerationBatch } from '../types';
+import { getGenerationBatches } from '../services/historyService';
+import { getImageProviderLabel } from '../services/imageProviders';
+import { getChangedSlotIds, getSlotValue } from '../services/memeTemplates';
+import { formatRejectionReason } from '../services/rejectionReasons';
+
+interface BatchHistoryProps {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+  onReopenBatch: (batch: GenerationBatch) => void;
+}
+
+const SOURCE_LABELS: Record<GenerationBatch['sourceType'], string> = {
+  headline: '📰 Headline',
+  inspiration: '✨ Inspiration',
+  autopilot: '🤖 Autopilot',
+  photo: '📷 Photos',
+};
+
+const formatDuration = (ms?: number) => (ms === undefined ? '—' : `${(ms / 1000).toFixed(1)}s`);
+
+const BatchHistory: React.FC<BatchHistoryProps> = ({ supabaseUrl, supabaseAnonKey, isSupabaseConnected, onReopenBatch }) => {
+  const [batches, setBatches] = useState<GenerationBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+
+  const handleLoadHistory = async () => {
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      setBatches(await getGenerationBatches(supabaseUrl, supabaseAnonKey));
+      setHasLoaded(true);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load batch history.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-indigo-500/30 shadow-lg shadow-indigo-500/10 mb-12">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Batch History</h2>
+      <p className="text-center text-gray-400 mb-6">Browse past generation batches, see what produced them and reopen them for review.</p>
+      <button
+        onClick={handleLoadHistory}
+        disabled={isLoading || !isSupabaseConnected}
+        className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Loading...' : hasLoaded ? '↻ Refresh History' : 'Load History'}
+      </button>
+
+      {errorMessage && (
+        <div className="mt-4 text-center p-2 rounded-md text-sm font-semibold bg-red-900/70 text-red-300">{errorMessage}</div>
+      )}
+
+      {hasLoaded && batches.length === 0 && !errorMessage && (
+        <p className="mt-4 text-center text-gray-400">No batches recorded yet.</p>
+      )}
+
+      <ul className="mt-4 space-y-3">
+        {batches.map(batch => {
+          const isExpanded = expandedBatchId === batch.id;
+          const approvedCount = batch.memes.filter(m => m.status === 'approved').length;
+          const rejectedCount = batch.memes.filter(m => m.status === 'rejected').length;
+          const editedMemes = batch.memes.filter(m => m.originalConcept && getChangedSlotIds(m.originalConcept, m).length > 0);
+
+          return (
+            <li key={batch.id} className="bg-gray-800/70 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <button onClick={() => setExpandedBatchId(isExpanded ? null : batch.id)} className="text-left flex-grow">
+                  <p className="text-sm text-gray-400">
+                    {SOURCE_LABELS[batch.sourceType]} · {new Date(batch.startedAt).toLocaleString()}
+                  </p>
+                  <p className="font-bold text-gray-200 break-words">{batch.inputText || '(no input)'}</p>
+                  <p className="text-sm mt-1">
+                    {batch.status === 'failed' ? (
+                      <span className="text-red-400">Failed: {batch.errorMessage}</span>
+                    ) : (
+                      <span className="text-gray-400">
+                        {batch.memes.length} memes · <span className="text-green-400">{approvedCount} approved</span> · <span className="text-red-400">{rejectedCount} rejected</span>
+                        {editedMemes.length > 0 && <> · <span className="text-cyan-300">{editedMemes.length} edited</span></>}
+                      </span>
+                    )}
+                  </p>
+                </button>
+                {batch.memes.length > 0 && (
+                  <button
+                    onClick={() => onReopenBatch(batch)}
+                    className="flex-shrink-0 bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg transition-all duration-200 transform hover:scale-105"
+                  >
+                    Reopen
+                  </button>
+                )}
+              </div>
+
+              {isExpanded && (
+                <dl className="mt-3 text-sm text-gray-300 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                  {batch.inspirationSetName && (
+                    <>
+                      <dt className="text-gray-500">Inspiration</dt>
+                      <dd>{batch.inspirationSetName}</dd>
+                    </>
+                  )}
+                  {batch.inspirationLinks && (
+                    <>
+                      <dt className="text-gray-500">Links</dt>
+                      <dd className="break-all">{batch.inspirationLinks}</dd>
+                    </>
+                  )}
+                  <dt className="text-gray-500">Instruction</dt>
+                  <dd>{batch.systemInstructionVersion}</dd>
+                  <dt className="text-gray-500">Text model</dt>
+                  <dd>{batch.textModel}</dd>
+                  <dt className="text-gray-500">Images</dt>
+                  <dd>{batch.imagesPerConcept} per concept</dd>
+                  <dt className="text-gray-500">Providers</dt>
+                  <dd>
+                    {Object.entries(batch.modelPreference)
+                      .map(([providerId, count]) => `${getImageProviderLabel(providerId)} × ${count}`)
+                      .join(', ')}
+                  </dd>
+                  {batch.blockedCount > 0 && (
+                    <>
+                      <dt className="text-gray-500">Moderation</dt>
+                      <dd>{batch.blockedCount} blocked</dd>
+                    </>
+                  )}
+                  <dt className="text-gray-500">Timings</dt>
+                  <dd>concepts {formatDuration(batch.conceptDurationMs)} · total {formatDuration(batch.totalDurationMs)}</dd>
+                  <dt className="text-gray-500">Examples</dt>
+                  <dd>
+                    {batch.examples.length === 0 ? 'None' : (
+                      <ul className="list-disc list-inside space-y-1">
+                        {batch.examples.map((example, index) => (
+                          <li key={index}>
+                            {example.topText} / {example.bottomText}
+                            {example.similarity !== undefined && (
+                              <span className="text-gray-500"> · {Math.round(example.similarity * 100)}% match</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </dd>
+                  {editedMemes.length > 0 && (
+                    <>
+                      <dt className="text-gray-500">Edits</dt>
+                      <dd>
+                        <ul className="list-disc list-inside space-y-1">
+                          {editedMemes.map(meme => (
+                            <li key={meme.id}>
+                              {getChangedSlotIds(meme.originalConcept!, meme)
+                                .map(slotId => `${slotId}: "${getSlotValue(meme.originalConcept!.slots, slotId)}" → "${getSlotValue(meme.slots, slotId)}"`)
+                                .join('; ')}
+                            </li>
+                          ))}
+                        </ul>
+                      </dd>
+                    </>
+                  )}
+                  <dt className="text-gray-500">Avoided</dt>
+                  <dd>
+                    {batch.rejectedExamples.length === 0 ? 'None' : (
+                      <ul className="list-disc list-inside space-y-1">
+                        {batch.rejectedExamples.map((example, index) => (
+                          <li key={index}>
+                            {example.topText} / {example.bottomText}
+                            <span className="text-gray-500"> · {formatRejectionReason(example.rejectionReason)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </dd>
+                </dl>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchHistory;
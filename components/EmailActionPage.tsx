@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import type { EmailAction, EmailActionPreview, EmailActionResult, GeneratedMeme } from '../types';
+import { getEmailAction, performEmailAction } from '../services/emailService';
+import { composeMemeImage } from '../services/memeCompositor';
+import LoadingSpinner from './LoadingSpinner';
+
+interface EmailActionPageProps {
+  token: string;
+}
+
+const ACTION_LABELS: Record<EmailAction, { confirm: string; done: string; className: string }> = {
+  approve: { confirm: '✓ Approve', done: 'Approved! The meme is now in the public gallery.', className: 'bg-green-500/80 hover:bg-green-500' },
+  reject: { confirm: '× Reject', done: 'Rejected. The meme won\'t be published.', className: 'bg-red-600/80 hover:bg-red-600' },
+  regenerate: { confirm: '↻ Regenerate image', done: 'Here is the new image. It needs a review of its own:', className: 'bg-blue-500/80 hover:bg-blue-500' },
+};
+
+// Regenerated images are uploaded over the old ones, so skip the browser cache to show the latest.
+const bustCache = (url: string, version: number): string =>
+  url.startsWith('data:') ? url : `${url}${url.includes('?') ? '&' : '?'}v=${version}`;
+
+const withFreshImages = (meme: GeneratedMeme): GeneratedMeme => {
+  const version = Date.now();
+  return {
+    ...meme,
+    imageUrl: bustCache(meme.imageUrl, version),
+    slotImageUrls: Object.fromEntries(Object.entries(meme.slotImageUrls).map(([slotId, url]) => [slotId, bustCache(url, version)])),
+  };
+};
+
+/**
+ * Where the Approve/Reject/Regenerate links in the approval email lead. Nothing happens until the
+ * reviewer confirms, because mail scanners open links too and every link only works once.
+ */
+const EmailActionPage: React.FC<EmailActionPageProps> = ({ token }) => {
+  const [preview, setPreview] = useState<EmailActionPreview | null>(null);
+  const [result, setResult] = useState<EmailActionResult | null>(null);
+  const [compositedImageUrl, setCompositedImageUrl] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    getEmailAction(token)
+      .then(async loaded => {
+        if (isCancelled) return;
+        const meme = withFreshImages(loaded.meme);
+        setPreview({ ...loaded, meme });
+        const url = await composeMemeImage(meme);
+        if (!isCancelled) setCompositedImageUrl(url);
+      })
+      .catch(err => { if (!isCancelled) setError(err instanceof Error ? err.message : 'This link could not be opened.'); });
+    return () => { isCancelled = true; };
+  }, [token]);
+
+  // Show the regenerated meme with its captions too.
+  useEffect(() => {
+    if (!result || result.action !== 'regenerate') return;
+    let isCancelled = false;
+    composeMemeImage(result.meme)
+      .then(url => { if (!isCancelled) setCompositedImageUrl(url); })
+      .catch(err => console.error('Failed to composite meme captions:', err));
+    return () => { isCancelled = true; };
+  }, [result]);
+
+  const handleConfirm = async () => {
+    if (!preview || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const done = await performEmailAction(token, preview.action === 'approve' ? compositedImageUrl ?? undefined : undefined);
+      if (done.action === 'regenerate') setCompositedImageUrl(null);
+      setResult({ ...done, meme: withFreshImages(done.meme) });
+    } catch (err) {
+      console.error('Failed to use email link:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const meme = result?.meme ?? preview?.meme;
+  const labels = preview ? ACTION_LABELS[preview.action] : null;
+
+  return (
+    <div className="max-w-xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-pink-500/30 shadow-lg shadow-pink-500/10 mb-12">
+      <h2 className="text-2xl font-bold text-pink-400 mb-4">Review from email</h2>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 text-red-300 px-4 py-3 rounded-lg mb-4" role="alert">
+          {error}
+        </div>
+      )}
+
+      {!preview && !error && <LoadingSpinner />}
+
+      {result && labels && <p className="text-gray-200 mb-4">{labels.done}</p>}
+
+      {meme && (
+        <div className="rounded-lg overflow-hidden border-2 border-cyan-500/50 mb-4">
+          {compositedImageUrl ? (
+            <img src={compositedImageUrl} alt={meme.altText} className="w-full h-auto" />
+          ) : (
+            <div className="aspect-square bg-gray-800 animate-pulse" />
+          )}
+        </div>
+      )}
+
+      {preview && labels && !result && (
+        <>
+          <p className="text-gray-400 text-sm mb-4">
+            This link works once and expires {new Date(preview.expiresAt).toLocaleString()}.
+          </p>
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting || (preview.action === 'approve' && !compositedImageUrl)}
+            className={`w-full ${labels.className} text-white font-bold py-3 px-4 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {isSubmitting ? 'Working...' : labels.confirm}
+          </button>
+        </>
+      )}
+
+      {result?.links && (
+        <div className="flex justify-between items-center space-x-2">
+          <a href={result.links.approve} className="flex-grow text-center bg-green-500/80 hover:bg-green-500 text-white font-bold py-2 px-3 rounded-lg">✓ Approve</a>
+          {result.links.regenerate && <a href={result.links.regenerate} className="flex-grow text-center bg-blue-500/80 hover:bg-blue-500 text-white font-bold py-2 px-3 rounded-lg">↻ Regenerate</a>}
+          <a href={result.links.reject} className="flex-grow text-center bg-red-600/80 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-lg">× Reject</a>
+        </div>
+      )}
+
+      <a href="/" className="block text-center text-cyan-400 hover:text-cyan-300 text-sm mt-6">Go to the app</a>
+    </div>
+  );
+};
+
+export default EmailActionPage;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { ExportPreset, ExportPresetId, WatermarkOptions, WatermarkPosition } from '../services/exportPresets';
+import { DEFAULT_WATERMARK, EXPORT_PRESETS, WATERMARK_POSITIONS, renderExportImage } from '../services/exportPresets';
+import { downloadFile, fetchImageFile, getMemeFileName } from '../services/shareService';
+
+interface ExportMenuProps {
+  memeId: string;
+  /** The finished meme with its captions, or null while it is still being composited. */
+  imageUrl: string | null;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ memeId, imageUrl }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [watermark, setWatermark] = useState<WatermarkOptions>(DEFAULT_WATERMARK);
+  const [exportingPresetId, setExportingPresetId] = useState<ExportPresetId | null>(null);
+
+  const handleExport = async (preset: ExportPreset) => {
+    if (!imageUrl) return;
+    setExportingPresetId(preset.id);
+    try {
+      const exportedImageUrl = await renderExportImage(imageUrl, preset, watermark);
+      downloadFile(await fetchImageFile(exportedImageUrl, getMemeFileName(memeId, `-${preset.id}`, 'jpg')));
+    } catch (error) {
+      console.error(`Failed to export meme for ${preset.label}:`, error);
+      alert('Failed to export meme image.');
+    } finally {
+      setExportingPresetId(null);
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!imageUrl}
+        className="w-full text-sm text-cyan-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+        aria-expanded={isOpen}
+      >
+        ⬇ Download for… {isOpen ? '▴' : '▾'}
+      </button>
+      {isOpen && (
+        <div className="mt-2 space-y-3 bg-gray-800/50 rounded-lg p-3">
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => handleExport(preset)}
+                disabled={exportingPresetId !== null}
+                className="bg-gray-700 hover:bg-gray-600 text-white text-xs font-bold py-2 px-2 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exportingPresetId === preset.id ? 'Exporting...' : preset.label}
+                <span className="block font-normal text-gray-400">{preset.width}×{preset.height}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-300">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={watermark.isEnabled}
+                onChange={(e) => setWatermark({ ...watermark, isEnabled: e.target.checked })}
+              />
+              KMFNY watermark
+            </label>
+            <select
+              value={watermark.position}
+              onChange={(e) => setWatermark({ ...watermark, position: e.target.value as WatermarkPosition })}
+              disabled={!watermark.isEnabled}
+              className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-white disabled:opacity-50"
+              aria-label="Watermark position"
+            >
+              {WATERMARK_POSITIONS.map(position => <option key={position.id} value={position.id}>{position.label}</option>)}
+            </select>
+            <label className="flex items-center gap-1">
+              Opacity
+              <input
+                type="range"
+                min={10}
+                max={100}
+                step={5}
+                value={Math.round(watermark.opacity * 100)}
+                onChange={(e) => setWatermark({ ...watermark, opacity: Number(e.target.value) / 100 })}
+                disabled={!watermark.isEnabled}
+                className="w-20 disabled:opacity-50"
+              />
+              {Math.round(watermark.opacity * 100)}%
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
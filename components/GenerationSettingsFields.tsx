@@ -0,0 +1,75 @@
+import React from 'react';
+import type { GenerationSettings } from '../types';
+import { MAX_CONCEPT_COUNT, MAX_IMAGES_PER_CONCEPT, TEXT_MODELS } from '../services/geminiService';
+import { listImageProviders } from '../services/imageProviders';
+
+interface GenerationSettingsFieldsProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  /** Keeps the ids unique when the fields appear twice on the page. */
+  idPrefix: string;
+  /** Tailwind focus color of the inputs, to match the surrounding panel. */
+  accent: keyof typeof ACCENT_CLASSES;
+}
+
+const ACCENT_CLASSES = {
+  purple: 'focus:border-purple-500 focus:ring-purple-500',
+  teal: 'focus:border-teal-500 focus:ring-teal-500',
+};
+
+const clamp = (value: string, max: number) => Math.min(max, Math.max(1, Math.floor(Number(value)) || 1));
+
+/** Returns why the settings can't be used, or '' when they can. */
+export const getGenerationSettingsError = (settings: GenerationSettings): string => {
+  const memeCount = settings.conceptCount * settings.imagesPerConcept;
+  const mixTotal = Object.values<number>(settings.modelPreference).reduce((sum, count) => sum + count, 0);
+  return mixTotal > memeCount ? `The provider mix adds up to ${mixTotal} memes, but a batch only makes ${memeCount}.` : '';
+};
+
+const GenerationSettingsFields: React.FC<GenerationSettingsFieldsProps> = ({ settings, onChange, idPrefix, accent }) => {
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...settings, ...changes });
+
+  const handleMixChange = (providerId: string, value: string) => {
+    const { [providerId]: _, ...rest } = settings.modelPreference;
+    const count = Math.max(0, Math.floor(Number(value)));
+    update({ modelPreference: count > 0 ? { ...rest, [providerId]: count } : rest });
+  };
+
+  const inputClassName = `w-full bg-gray-800 border-2 border-gray-700 ${ACCENT_CLASSES[accent]} rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors`;
+  const labelClassName = "text-sm font-bold text-gray-300 block mb-1";
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-concept-count`} className={labelClassName}>Concepts</label>
+          <input id={`${idPrefix}-concept-count`} type="number" min={1} max={MAX_CONCEPT_COUNT} value={settings.conceptCount} onChange={(e) => update({ conceptCount: clamp(e.target.value, MAX_CONCEPT_COUNT) })} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-images-per-concept`} className={labelClassName}>Images per concept</label>
+          <input id={`${idPrefix}-images-per-concept`} type="number" min={1} max={MAX_IMAGES_PER_CONCEPT} value={settings.imagesPerConcept} onChange={(e) => update({ imagesPerConcept: clamp(e.target.value, MAX_IMAGES_PER_CONCEPT) })} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-text-model`} className={labelClassName}>Text model</label>
+          <select id={`${idPrefix}-text-model`} value={settings.textModel} onChange={(e) => update({ textModel: e.target.value })} className={inputClassName}>
+            {TEXT_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Provider mix <span className="font-normal text-gray-500">(memes not covered here are allocated from approvals)</span></label>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {listImageProviders().map(provider => (
+            <label key={provider.id} className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="number" min={0} max={MAX_CONCEPT_COUNT * MAX_IMAGES_PER_CONCEPT} value={settings.modelPreference[provider.id] ?? ''} onChange={(e) => handleMixChange(provider.id, e.target.value)} placeholder="0" className="w-16 bg-gray-800 border-2 border-gray-700 rounded-md px-2 py-1 text-white" />
+              {provider.label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsFields;
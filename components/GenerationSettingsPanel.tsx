@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import type { GenerationSettings } from '../types';
+import { saveGenerationSettings } from '../services/generationSettingsService';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/geminiService';
+import GenerationSettingsFields, { getGenerationSettingsError } from './GenerationSettingsFields';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onSettingsChange: (settings: GenerationSettings) => void;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onSettingsChange, supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const validationError = getGenerationSettingsError(settings);
+
+  const handleChange = (next: GenerationSettings) => {
+    setNotice('');
+    onSettingsChange(next);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage('');
+    setNotice('');
+    try {
+      await saveGenerationSettings(settings, supabaseUrl, supabaseAnonKey);
+      setNotice('Saved. These settings load whenever you sign in.');
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save the generation settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-teal-500/30 shadow-lg shadow-teal-500/10 mb-8">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Generation Settings</h2>
+      <p className="text-center text-gray-400 mb-6">
+        Used by the headline and inspiration generators below, and as the starting point for new autopilot campaigns.
+        Each batch makes {settings.conceptCount * settings.imagesPerConcept} memes.
+      </p>
+
+      <GenerationSettingsFields settings={settings} onChange={handleChange} idPrefix="generation" accent="teal" />
+
+      {validationError && <p className="mt-4 text-sm text-yellow-300">{validationError}</p>}
+      {errorMessage && <p className="mt-4 text-sm text-red-400">{errorMessage}</p>}
+      {notice && <p className="mt-4 text-sm text-green-400">{notice}</p>}
+
+      <div className="flex gap-2 justify-end mt-4">
+        <button
+          onClick={() => handleChange(DEFAULT_GENERATION_SETTINGS)}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isSupabaseConnected || isSaving || Boolean(validationError)}
+          className="bg-teal-600 hover:bg-teal-700 text-white font-bold py-2 px-6 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
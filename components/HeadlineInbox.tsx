@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Headline, HeadlineFeed } from '../types';
+import {
+  addHeadlineFeed,
+  deleteHeadlineFeed,
+  getHeadlineFeeds,
+  getUnusedHeadlines,
+  markHeadlinesUsed,
+  refreshHeadlineFeedsNow,
+  setHeadlineFeedEnabled,
+} from '../services/headlineService';
+
+interface HeadlineInboxProps {
+  onPickHeadline: (headline: Headline) => void;
+  /** Changes whenever a headline was used elsewhere, so the inbox reloads. */
+  refreshKey: number;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : 'undated';
+
+const HeadlineInbox: React.FC<HeadlineInboxProps> = ({ onPickHeadline, refreshKey, supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [headlines, setHeadlines] = useState<Headline[]>([]);
+  const [feeds, setFeeds] = useState<HeadlineFeed[]>([]);
+  const [showFeeds, setShowFeeds] = useState(false);
+  const [feedName, setFeedName] = useState('');
+  const [feedUrl, setFeedUrl] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadInbox = useCallback(async () => {
+    const [unusedHeadlines, savedFeeds] = await Promise.all([
+      getUnusedHeadlines(supabaseUrl, supabaseAnonKey),
+      getHeadlineFeeds(supabaseUrl, supabaseAnonKey),
+    ]);
+    setHeadlines(unusedHeadlines);
+    setFeeds(savedFeeds);
+  }, [supabaseUrl, supabaseAnonKey]);
+
+  useEffect(() => {
+    if (!isSupabaseConnected) return;
+    loadInbox().catch(error => setErrorMessage(error instanceof Error ? error.message : 'Failed to load the headline inbox.'));
+  }, [isSupabaseConnected, loadInbox, refreshKey]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setErrorMessage('');
+    setNotice('');
+    try {
+      await action();
+      await loadInbox();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRefresh = () => runAction(async () => {
+    const added = await refreshHeadlineFeedsNow(supabaseUrl, supabaseAnonKey);
+    setNotice(added === 1 ? '1 new headline.' : `${added} new headlines.`);
+  });
+
+  const handleAddFeed = () => runAction(async () => {
+    await addHeadlineFeed(feedName, feedUrl, supabaseUrl, supabaseAnonKey);
+    setFeedName('');
+    setFeedUrl('');
+  });
+
+  const handleDeleteFeed = (feed: HeadlineFeed) => {
+    if (!window.confirm(`Remove the feed "${feed.name}"? Its headlines stay in the inbox.`)) return;
+    runAction(() => deleteHeadlineFeed(feed.id, supabaseUrl, supabaseAnonKey));
+  };
+
+  const inputClassName = "bg-gray-800 border-2 border-gray-700 focus:border-orange-500 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-500";
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-orange-500/30 shadow-lg shadow-orange-500/10 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-200">Headline Inbox</h2>
+        <button
+          onClick={handleRefresh}
+          disabled={!isSupabaseConnected || isBusy}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isBusy ? 'Working...' : '↻ Refresh feeds'}
+        </button>
+      </div>
+      <p className="text-gray-400 mb-4">Fresh, unused headlines from our feeds. Click one to put it in the generator above.</p>
+
+      {errorMessage && <p className="mb-4 text-sm text-red-400">{errorMessage}</p>}
+      {notice && <p className="mb-4 text-sm text-green-400">{notice}</p>}
+
+      {isSupabaseConnected && headlines.length === 0 && !errorMessage && (
+        <p className="text-center text-gray-500 mb-4">No unused headlines. Add feeds below or refresh them.</p>
+      )}
+
+      <ul className="space-y-2 mb-4 max-h-96 overflow-y-auto">
+        {headlines.map(headline => (
+          <li key={headline.id} className="flex items-start gap-2 bg-gray-800/70 rounded-lg p-3 text-sm">
+            <button onClick={() => onPickHeadline(headline)} className="flex-grow text-left min-w-0 group" title="Use this headline">
+              <p className="font-bold text-gray-200 group-hover:text-orange-300">{headline.title}</p>
+              <p className="text-xs text-gray-500">{headline.feedName} · {formatDate(headline.publishedAt)}</p>
+            </button>
+            {headline.link && (
+              <a href={headline.link} target="_blank" rel="noopener noreferrer" className="text-xs text-cyan-400 hover:underline flex-shrink-0">Read</a>
+            )}
+            <button
+              onClick={() => runAction(() => markHeadlinesUsed([headline.id], null, supabaseUrl, supabaseAnonKey))}
+              disabled={isBusy}
+              className="text-xs text-gray-400 hover:text-red-400 flex-shrink-0 disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button onClick={() => setShowFeeds(!showFeeds)} className="text-sm text-orange-300 hover:underline">
+        {showFeeds ? 'Hide' : 'Manage'} feeds ({feeds.length})
+      </button>
+
+      {showFeeds && (
+        <div className="mt-3 space-y-2">
+          {feeds.map(feed => (
+            <div key={feed.id} className="flex items-start justify-between gap-2 bg-gray-800/50 rounded-lg p-3 text-sm">
+              <div className="min-w-0">
+                <p className="font-bold text-gray-200">{feed.name}</p>
+                <p className="text-xs text-gray-500 break-all">{feed.url}</p>
+                <p className={`text-xs ${feed.lastError ? 'text-red-400' : 'text-gray-500'}`}>
+                  {feed.lastError ? `Last fetch failed: ${feed.lastError}` : feed.lastFetchedAt ? `Fetched ${formatDate(feed.lastFetchedAt)}` : 'Not fetched yet'}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => runAction(() => setHeadlineFeedEnabled(feed.id, !feed.isEnabled, supabaseUrl, supabaseAnonKey))}
+                  disabled={isBusy}
+                  className={`text-xs font-bold py-1 px-2 rounded-md disabled:opacity-50 ${feed.isEnabled ? 'bg-green-500/20 text-green-300' : 'bg-gray-700 text-gray-400'}`}
+                >
+                  {feed.isEnabled ? 'On' : 'Off'}
+                </button>
+                <button onClick={() => handleDeleteFeed(feed)} disabled={isBusy} className="text-xs text-red-400 hover:underline disabled:opacity-50">
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input type="text" value={feedName} onChange={(e) => setFeedName(e.target.value)} placeholder="Name (e.g., 'Them')" className={inputClassName} aria-label="Feed name" />
+            <input type="url" value={feedUrl} onChange={(e) => setFeedUrl(e.target.value)} placeholder="https://example.com/feed.xml" className={`${inputClassName} flex-grow`} aria-label="Feed URL" />
+            <button
+              onClick={handleAddFeed}
+              disabled={!isSupabaseConnected || isBusy || !feedName.trim() || !feedUrl.trim()}
+              className="bg-orange-600 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              + Add feed
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeadlineInbox;
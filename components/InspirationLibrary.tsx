@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import type { InspirationSet } from '../types';
+import { addInspirationItem, createInspirationSet, deleteInspirationItem, deleteInspirationSet } from '../services/inspirationService';
+
+interface InspirationLibraryProps {
+  sets: InspirationSet[];
+  /** Reloads the sets after a change. */
+  onSetsChange: () => Promise<void>;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const InspirationLibrary: React.FC<InspirationLibraryProps> = ({ sets, onSetsChange, supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [selectedSetId, setSelectedSetId] = useState('');
+  const [newSetName, setNewSetName] = useState('');
+  const [screenshot, setScreenshot] = useState<File | null>(null);
+  const [caption, setCaption] = useState('');
+  // Resets the file input after an upload.
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const selectedSet = sets.find(set => set.id === selectedSetId) ?? sets[0];
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setErrorMessage('');
+    try {
+      await action();
+      await onSetsChange();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreateSet = () => runAction(async () => {
+    const set = await createInspirationSet(newSetName, supabaseUrl, supabaseAnonKey);
+    setNewSetName('');
+    setSelectedSetId(set.id);
+  });
+
+  const handleDeleteSet = (set: InspirationSet) => {
+    if (!window.confirm(`Delete the inspiration set "${set.name}" and its ${set.items.length} screenshots? Campaigns using it will fail until they get another set.`)) return;
+    runAction(async () => {
+      await deleteInspirationSet(set.id, supabaseUrl, supabaseAnonKey);
+      setSelectedSetId('');
+    });
+  };
+
+  const handleAddItem = (set: InspirationSet, file: File) => runAction(async () => {
+    await addInspirationItem(set.id, file, caption, supabaseUrl, supabaseAnonKey);
+    setScreenshot(null);
+    setCaption('');
+    setFileInputKey(key => key + 1);
+  });
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-fuchsia-500/30 shadow-lg shadow-fuchsia-500/10 mb-8">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Inspiration Library</h2>
+      <p className="text-center text-gray-400 mb-6">
+        Upload screenshots of memes we love, with their captions. Generating from a set shows the model the actual images.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <select
+          value={selectedSet?.id ?? ''}
+          onChange={(e) => setSelectedSetId(e.target.value)}
+          disabled={sets.length === 0}
+          className="flex-grow bg-gray-800 border-2 border-gray-700 focus:border-fuchsia-500 rounded-lg px-3 py-2 text-white disabled:opacity-50"
+          aria-label="Inspiration set"
+        >
+          {sets.length === 0 && <option value="">No sets yet</option>}
+          {sets.map(set => <option key={set.id} value={set.id}>{set.name} ({set.items.length})</option>)}
+        </select>
+        <input
+          type="text"
+          value={newSetName}
+          onChange={(e) => setNewSetName(e.target.value)}
+          placeholder="New set name"
+          className="bg-gray-800 border-2 border-gray-700 focus:border-fuchsia-500 rounded-lg px-3 py-2 text-white placeholder-gray-500"
+          aria-label="New set name"
+        />
+        <button
+          onClick={handleCreateSet}
+          disabled={!isSupabaseConnected || isBusy || !newSetName.trim()}
+          className="bg-fuchsia-600 hover:bg-fuchsia-700 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + Create
+        </button>
+      </div>
+
+      {errorMessage && <p className="mb-4 text-sm text-red-400">{errorMessage}</p>}
+
+      {selectedSet && (
+        <>
+          {selectedSet.items.length === 0 ? (
+            <p className="text-center text-gray-500 mb-4">This set is empty.</p>
+          ) : (
+            <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+              {selectedSet.items.map(item => (
+                <li key={item.id} className="relative bg-gray-800/70 rounded-lg overflow-hidden">
+                  <img src={item.imageUrl} alt={item.caption || 'Inspiration screenshot'} className="w-full aspect-square object-cover" />
+                  {item.caption && <p className="p-2 text-xs text-gray-300 line-clamp-3">{item.caption}</p>}
+                  <button
+                    onClick={() => runAction(() => deleteInspirationItem(item.id, supabaseUrl, supabaseAnonKey))}
+                    disabled={isBusy}
+                    title="Remove from set"
+                    className="absolute top-1 right-1 bg-gray-900/80 hover:bg-red-600 text-white text-xs font-bold w-6 h-6 rounded-full disabled:opacity-50"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-col gap-2 bg-gray-800/50 p-4 rounded-lg">
+            <input
+              key={fileInputKey}
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              onChange={(e) => setScreenshot(e.target.files?.[0] ?? null)}
+              className="text-sm text-gray-300"
+              aria-label="Screenshot"
+            />
+            <textarea
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder="Paste the meme's caption (optional)"
+              rows={2}
+              className="w-full bg-gray-800 border-2 border-gray-700 focus:border-fuchsia-500 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-500 resize-y"
+            />
+            <div className="flex justify-between items-center">
+              <button onClick={() => handleDeleteSet(selectedSet)} disabled={isBusy} className="text-sm text-red-400 hover:underline disabled:opacity-50">
+                Delete set
+              </button>
+              <button
+                onClick={() => screenshot && handleAddItem(selectedSet, screenshot)}
+                disabled={!isSupabaseConnected || isBusy || !screenshot}
+                className="bg-fuchsia-600 hover:bg-fuchsia-700 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isBusy ? 'Saving...' : `Add to "${selectedSet.name}"`}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InspirationLibrary;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { sendMagicLink, signInWithPassword } from '../services/authService';
+
+interface LoginModalProps {
+  supabaseUrl: string;
+  setSupabaseUrl: (url: string) => void;
+  supabaseAnonKey: string;
+  setSupabaseAnonKey: (key: string) => void;
+  onClose: () => void;
+}
+
+const LoginModal: React.FC<LoginModalProps> = ({ supabaseUrl, setSupabaseUrl, supabaseAnonKey, setSupabaseAnonKey, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  // Deployments set these through .env.local; otherwise the admin has to enter them to sign in.
+  const [isBackendPreconfigured] = useState(Boolean(supabaseUrl && supabaseAnonKey));
+
+  const runAction = async (action: () => Promise<void>, successMessage?: string) => {
+    setIsSubmitting(true);
+    setStatus('idle');
+    setMessage('');
+    try {
+      await action();
+      if (successMessage) {
+        setStatus('success');
+        setMessage(successMessage);
+      } else {
+        onClose();
+      }
+    } catch (error) {
+      setStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePasswordSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(() => signInWithPassword(email, password, supabaseUrl, supabaseAnonKey));
+  };
+
+  const handleMagicLink = () => {
+    runAction(
+      () => sendMagicLink(email, supabaseUrl, supabaseAnonKey),
+      `Check ${email} for a sign-in link.`
+    );
+  };
+
+  const inputClassName = "w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 focus:ring-cyan-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 transition-colors";
+  const hasBackend = Boolean(supabaseUrl && supabaseAnonKey);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose} role="dialog" aria-modal="true" aria-label="Admin login">
+      <form
+        onSubmit={handlePasswordSignIn}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-gray-900 p-6 rounded-lg border border-cyan-500/30 shadow-lg shadow-cyan-500/10 flex flex-col gap-4"
+      >
+        <h2 className="text-2xl font-bold text-center text-gray-200">Admin Login</h2>
+
+        {!isBackendPreconfigured && (
+          <>
+            <input type="text" value={supabaseUrl} onChange={(e) => setSupabaseUrl(e.target.value)} placeholder="https://<your-project-ref>.supabase.co" className={inputClassName} aria-label="Supabase Project URL" />
+            <input type="password" value={supabaseAnonKey} onChange={(e) => setSupabaseAnonKey(e.target.value)} placeholder="Supabase anon key" className={inputClassName} autoComplete="off" aria-label="Supabase Anon Key" />
+          </>
+        )}
+
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="you@kissmyfacenewyork.com" className={inputClassName} autoComplete="email" required aria-label="Email" />
+        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" className={inputClassName} autoComplete="current-password" aria-label="Password" />
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !hasBackend || !email || !password}
+          className="bg-gradient-to-r from-pink-500 to-cyan-400 hover:from-pink-600 hover:to-cyan-500 text-white font-bold py-3 px-8 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign In'}
+        </button>
+        <button
+          type="button"
+          onClick={handleMagicLink}
+          disabled={isSubmitting || !hasBackend || !email}
+          className="text-cyan-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Email me a magic link instead
+        </button>
+
+        {message && (
+          <div className={`text-center p-2 rounded-md text-sm font-semibold ${status === 'success' ? 'bg-green-900/70 text-green-300' : 'bg-red-900/70 text-red-300'}`}>
+            {message}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default LoginModal;
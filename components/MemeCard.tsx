@@ -1,18 +1,72 @@
-import React, { useState } from 'react';
-import type { GeneratedMeme } from '../types';
+import React, { useState, useEffect } from 'react';
+import type { GeneratedMeme, MemeRiffKind, MemeSlotValue, RejectionReason, RejectionTag } from '../types';
+import { PHOTO_MODEL_ID, getImageProviderLabel } from '../services/imageProviders';
+import { composeMemeImage } from '../services/memeCompositor';
+import { getImageSlots, getMemeTemplate, getSlotValue } from '../services/memeTemplates';
+import { formatModerationResult } from '../services/moderation';
+import { REJECTION_TAGS, REJECTION_TAG_LABELS, formatRejectionReason, hasRejectionReason } from '../services/rejectionReasons';
+import { downloadFile, fetchImageFile, getMemeFileName, shareMeme } from '../services/shareService';
+import { VARIATION_COUNT } from '../services/geminiService';
+import ExportMenu from './ExportMenu';
 
 interface MemeCardProps {
   meme: GeneratedMeme;
   onApprove: (id: string) => void;
-  onReject: (id: string) => void;
+  onReject: (id: string, reason: RejectionReason) => void;
+  /** Edited captions get new alt text; edited image prompts get new images. */
+  onEdit: (id: string, slots: MemeSlotValue[]) => void;
+  /** Changes one image as the instruction says, keeping the previous version for undo. */
+  onEditImage: (id: string, slotId: string, instruction: string) => void;
+  onUndoImageEdit: (id: string) => void;
+  /** Adds new memes seeded by this one to the batch. Omitted when the batch's headline or prompt is unknown. */
+  onRiff?: (id: string, kind: MemeRiffKind) => void;
   onRegenerate: (id: string) => void;
   isRegenerating: boolean;
   isLoggedIn: boolean;
+  /** Reviewers can reject and regenerate, but only admins can publish. */
+  canApprove: boolean;
 }
 
-const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onRegenerate, isRegenerating, isLoggedIn }) => {
+const RIFF_ACTIONS: { kind: MemeRiffKind; label: string }[] = [
+  { kind: 'caption', label: '✍ New caption' },
+  { kind: 'concept', label: '💡 New concept' },
+  { kind: 'variations', label: `🔁 ${VARIATION_COUNT} variations` },
+];
+
+const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onEdit, onEditImage, onUndoImageEdit, onRiff, onRegenerate, isRegenerating, isLoggedIn, canApprove }) => {
   const [isCopied, setIsCopied] = useState(false);
   const isPlaceholder = meme.imageUrl.includes('svg+xml');
+  const isClassic = meme.templateId === 'classic';
+  // Our own photos can't be regenerated; a new caption is the way to retry them.
+  const isPhoto = meme.modelUsed === PHOTO_MODEL_ID;
+  const [compositedImageUrl, setCompositedImageUrl] = useState<string | null>(meme.compositedImageUrl ?? null);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [rejectionTags, setRejectionTags] = useState<RejectionTag[]>([]);
+  const [rejectionNote, setRejectionNote] = useState('');
+  const [draftSlots, setDraftSlots] = useState<MemeSlotValue[] | null>(null);
+  // The image slot being edited by instruction, or null when the form is closed.
+  const [imageEditSlotId, setImageEditSlotId] = useState<string | null>(null);
+  const [imageInstruction, setImageInstruction] = useState('');
+
+  // Bake the captions into the image so what the admin sees is exactly what gets uploaded and shared.
+  useEffect(() => {
+    if (meme.compositedImageUrl) {
+      setCompositedImageUrl(meme.compositedImageUrl);
+      return;
+    }
+    setCompositedImageUrl(null);
+    if (isPlaceholder) return;
+
+    let isCancelled = false;
+    composeMemeImage(meme)
+      .then(url => { if (!isCancelled) setCompositedImageUrl(url); })
+      .catch(error => console.error('Failed to composite meme captions:', error));
+    return () => { isCancelled = true; };
+    // Depends on the rendered fields only, so approving or rejecting does not re-render the image.
+  }, [meme.imageUrl, meme.slotImageUrls, meme.templateId, meme.slots, meme.topText, meme.bottomText, meme.compositedImageUrl, isPlaceholder]);
+
+  const getMemeFile = async (): Promise<File | null> =>
+    compositedImageUrl ? fetchImageFile(compositedImageUrl, getMemeFileName(meme.id)) : null;
 
   const getBorderColor = () => {
     if (!isLoggedIn) {
@@ -30,43 +84,79 @@ const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onRegene
 
   const handleShare = async () => {
     const shareText = `${meme.topText}\n${meme.bottomText}\n\nGenerated by Kiss My Face New York AI`;
-    const shareData = {
-      title: 'Kiss My Face New York Meme',
-      text: shareText,
-      url: window.location.href, // Shares a link back to the generator
-    };
-
-    if (navigator.share) {
-      try {
-        await navigator.share(shareData);
-      } catch (error) {
-        console.error('Error sharing:', error);
-      }
-    } else {
-      // Fallback for browsers that do not support the Web Share API
-      try {
-        await navigator.clipboard.writeText(shareText);
+    try {
+      // Shares a link back to the site when the image itself can't be shared.
+      const result = await shareMeme(shareText, await getMemeFile(), window.location.href);
+      if (result === 'copied') {
         setIsCopied(true);
         setTimeout(() => setIsCopied(false), 2000); // Reset after 2 seconds
-      } catch (err) {
-        console.error('Failed to copy text: ', err);
-        alert('Failed to copy meme text.'); // Fallback for the fallback
       }
+    } catch (error) {
+      console.error('Error sharing:', error);
     }
   };
 
+  const handleDownload = async () => {
+    try {
+      const file = await getMemeFile();
+      if (file) downloadFile(file);
+    } catch (error) {
+      console.error('Failed to download meme:', error);
+      alert('Failed to download meme image.');
+    }
+  };
+
+  const toggleRejectionTag = (tag: RejectionTag) =>
+    setRejectionTags(current => (current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]));
+
+  const handleConfirmReject = () => {
+    onReject(meme.id, { tags: rejectionTags, note: rejectionNote.trim() });
+    setIsRejecting(false);
+    setRejectionTags([]);
+    setRejectionNote('');
+  };
+
+  const templateSlots = getMemeTemplate(meme.templateId).slots;
+  const isDraftComplete = draftSlots !== null && templateSlots.every(slot => getSlotValue(draftSlots, slot.id).trim());
+
+  const handleDraftChange = (slotId: string, value: string) =>
+    setDraftSlots(current => (current ?? []).map(slot => (slot.slotId === slotId ? { ...slot, value } : slot)));
+
+  const handleSaveEdit = () => {
+    if (!draftSlots) return;
+    onEdit(meme.id, draftSlots.map(slot => ({ ...slot, value: slot.value.trim() })));
+    setDraftSlots(null);
+  };
+
+  const imageSlots = getImageSlots(meme.templateId);
+  const imageEditCount = meme.imageHistory?.length ?? 0;
+
+  const handleSaveImageEdit = () => {
+    if (!imageEditSlotId || !imageInstruction.trim()) return;
+    onEditImage(meme.id, imageEditSlotId, imageInstruction.trim());
+    setImageEditSlotId(null);
+    setImageInstruction('');
+  };
+
   const memeTextStyle = "absolute left-4 right-4 font-black uppercase text-center text-2xl md:text-3xl text-white [text-shadow:_2px_2px_4px_rgb(0_0_0_/_80%)] break-words";
 
   return (
     <div className={`bg-gray-900 rounded-lg overflow-hidden border-2 ${getBorderColor()} shadow-lg transition-all duration-300 hover:shadow-cyan-400/50 hover:-translate-y-1`}>
       <div className="relative">
-        <img src={meme.imageUrl} alt={meme.altText} className={`w-full h-auto aspect-square object-cover transition-opacity ${isRegenerating ? 'opacity-30' : ''}`} />
+        <img src={compositedImageUrl ?? meme.imageUrl} alt={meme.altText} className={`w-full h-auto ${isClassic || !compositedImageUrl ? 'aspect-square object-cover' : ''} transition-opacity ${isRegenerating ? 'opacity-30' : ''}`} />
         {isRegenerating && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/60">
             <div className="w-10 h-10 border-4 border-t-cyan-400 border-gray-600 rounded-full animate-spin"></div>
           </div>
         )}
-        {!isPlaceholder && (
+        {isLoggedIn && (
+          <span className="absolute top-2 right-2 z-10 bg-black/70 text-cyan-300 text-xs font-bold uppercase tracking-wider px-2 py-1 rounded-md">
+            {getImageProviderLabel(meme.modelUsed)}
+            {!isClassic && ` · ${getMemeTemplate(meme.templateId).label}`}
+            {(meme.originalConcept || imageEditCount > 0) && ' · Edited'}
+          </span>
+        )}
+        {!isPlaceholder && !compositedImageUrl && isClassic && (
           <>
             <p className={`${memeTextStyle} top-4`}>{meme.topText}</p>
             <p className={`${memeTextStyle} bottom-4`}>{meme.bottomText}</p>
@@ -74,18 +164,130 @@ const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onRegene
         )}
       </div>
       <div className="p-4 bg-gray-900/50">
+        {isLoggedIn && meme.moderation?.outcome === 'flag' && (
+          <p className="mb-3 bg-yellow-500/20 text-yellow-300 text-xs rounded-md px-2 py-1" role="note">
+            <span className="font-bold uppercase tracking-wider">⚠ Flagged</span> {formatModerationResult(meme.moderation)}
+          </p>
+        )}
         {isLoggedIn ? (
           // Admin View
-          meme.status === 'pending' ? (
+          meme.status === 'pending' && draftSlots ? (
+            <div className="space-y-3">
+              {templateSlots.map(slot => (
+                <div key={slot.id}>
+                  <label htmlFor={`${meme.id}-${slot.id}`} className="text-xs font-bold uppercase tracking-wider text-gray-500 block mb-1">
+                    {slot.id.replace(/-/g, ' ')}{slot.kind === 'image' && ' (image prompt)'}
+                  </label>
+                  <textarea
+                    id={`${meme.id}-${slot.id}`}
+                    value={getSlotValue(draftSlots, slot.id)}
+                    onChange={(e) => handleDraftChange(slot.id, e.target.value)}
+                    placeholder={slot.description}
+                    rows={slot.kind === 'image' ? 3 : 2}
+                    className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-500"
+                  />
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={!isDraftComplete}
+                  className="flex-grow bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setDraftSlots(null)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : meme.status === 'pending' && imageEditSlotId ? (
+            <div className="space-y-3">
+              {imageSlots.length > 1 && (
+                <select
+                  value={imageEditSlotId}
+                  onChange={(e) => setImageEditSlotId(e.target.value)}
+                  className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 rounded-lg px-3 py-2 text-white text-sm"
+                  aria-label="Image to edit"
+                >
+                  {imageSlots.map(slot => <option key={slot.id} value={slot.id}>{slot.id.replace(/-/g, ' ')}</option>)}
+                </select>
+              )}
+              <textarea
+                value={imageInstruction}
+                onChange={(e) => setImageInstruction(e.target.value)}
+                placeholder="e.g., 'Give the cat a blonde wig' or 'Make it nighttime in Bushwick'"
+                rows={2}
+                className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-500"
+                aria-label="What to change in the image"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSaveImageEdit}
+                  disabled={!imageInstruction.trim()}
+                  className="flex-grow bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Edit image
+                </button>
+                <button
+                  onClick={() => setImageEditSlotId(null)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : meme.status === 'pending' && isRejecting ? (
+            <div className="space-y-3">
+              <p className="text-sm font-bold text-gray-300">Why reject it?</p>
+              <div className="flex flex-wrap gap-2">
+                {REJECTION_TAGS.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleRejectionTag(tag)}
+                    aria-pressed={rejectionTags.includes(tag)}
+                    className={`text-xs font-bold py-1 px-3 rounded-full border transition-colors ${rejectionTags.includes(tag) ? 'bg-red-600 border-red-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-red-500'}`}
+                  >
+                    {REJECTION_TAG_LABELS[tag]}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={rejectionNote}
+                onChange={(e) => setRejectionNote(e.target.value)}
+                placeholder="Anything else? (optional)"
+                className="w-full bg-gray-800 border-2 border-gray-700 focus:border-red-500 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-500"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={handleConfirmReject}
+                  className="flex-grow bg-red-600/80 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200"
+                >
+                  × Reject
+                </button>
+                <button
+                  onClick={() => setIsRejecting(false)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : meme.status === 'pending' ? (
             <div className="flex justify-between items-center space-x-2">
               <button
                 onClick={() => onApprove(meme.id)}
-                disabled={isRegenerating}
+                disabled={isRegenerating || !canApprove}
+                title={canApprove ? undefined : 'Only admins can approve memes'}
                 className="flex-grow bg-green-500/80 hover:bg-green-500 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 ✓ Approve
               </button>
-              <button
+              {!isPhoto && <button
                 onClick={() => onRegenerate(meme.id)}
                 disabled={isRegenerating}
                 className="flex-shrink-0 bg-blue-500/80 hover:bg-blue-500 text-white font-bold p-3 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
@@ -94,9 +296,28 @@ const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onRegene
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                   <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 110 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm12 8a1 1 0 011 1v3.101a7.002 7.002 0 01-11.601-2.566 1 1 0 111.885-.666A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1z" clipRule="evenodd" />
                 </svg>
+              </button>}
+              <button
+                onClick={() => setDraftSlots(meme.slots)}
+                disabled={isRegenerating}
+                className="flex-shrink-0 bg-gray-600/80 hover:bg-gray-600 text-white font-bold p-3 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Edit captions and image prompt"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setImageEditSlotId(imageSlots[0]?.id ?? null)}
+                disabled={isRegenerating || isPlaceholder}
+                title="Change the image with an instruction"
+                className="flex-shrink-0 bg-purple-600/80 hover:bg-purple-600 text-white font-bold p-3 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Edit image with an instruction"
+              >
+                🪄
               </button>
               <button
-                onClick={() => onReject(meme.id)}
+                onClick={() => setIsRejecting(true)}
                 disabled={isRegenerating}
                 className="flex-grow bg-red-600/80 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -109,6 +330,9 @@ const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onRegene
                 <p className={`font-bold text-xl uppercase tracking-widest ${meme.status === 'approved' ? 'text-green-400' : 'text-red-500'}`}>
                   {meme.status}
                 </p>
+                {meme.rejectionReason && hasRejectionReason(meme.rejectionReason) && (
+                  <p className="text-sm text-gray-400 break-words">{formatRejectionReason(meme.rejectionReason)}</p>
+                )}
               </div>
               {meme.status === 'approved' && (
                  <button
@@ -119,7 +343,17 @@ const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onRegene
                   {isCopied ? 'Copied!' : '🔗 Share'}
                 </button>
               )}
-               {meme.status === 'rejected' && (
+              {meme.status === 'approved' && (
+                <button
+                  onClick={handleDownload}
+                  disabled={!compositedImageUrl}
+                  className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Download this meme"
+                >
+                  ⬇
+                </button>
+              )}
+               {meme.status === 'rejected' && !isPhoto && (
                 <button
                   onClick={() => onRegenerate(meme.id)}
                   disabled={isRegenerating}
@@ -132,14 +366,48 @@ const MemeCard: React.FC<MemeCardProps> = ({ meme, onApprove, onReject, onRegene
           )
         ) : (
           // Public/Viewer View
-          <div className="text-center">
+          <div className="flex items-center gap-2">
             <button
               onClick={handleShare}
-              className="w-full bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg transition-all duration-200 transform hover:scale-105"
+              className="flex-grow bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg transition-all duration-200 transform hover:scale-105"
               aria-label="Share this meme"
             >
                {isCopied ? 'Copied!' : '🔗 Share'}
             </button>
+            <button
+              onClick={handleDownload}
+              disabled={!compositedImageUrl}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Download this meme"
+            >
+              ⬇
+            </button>
+          </div>
+        )}
+        {(!isLoggedIn || meme.status === 'approved') && <ExportMenu memeId={meme.id} imageUrl={compositedImageUrl} />}
+        {isLoggedIn && meme.status === 'pending' && imageEditCount > 0 && !draftSlots && !imageEditSlotId && (
+          <div className="mt-3 text-center text-sm">
+            <button
+              onClick={() => onUndoImageEdit(meme.id)}
+              disabled={isRegenerating}
+              className="text-purple-300 hover:underline disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+            >
+              ↶ Undo image edit{imageEditCount > 1 && ` (${imageEditCount})`}
+            </button>
+          </div>
+        )}
+        {isLoggedIn && onRiff && !draftSlots && !isRejecting && !imageEditSlotId && (
+          <div className="mt-3 flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm">
+            {RIFF_ACTIONS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => onRiff(meme.id, kind)}
+                disabled={isRegenerating}
+                className="text-cyan-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+              >
+                {label}
+              </button>
+            ))}
           </div>
         )}
       </div>
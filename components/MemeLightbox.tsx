@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import type { ApprovedMeme } from '../types';
+import { downloadFile, fetchImageFile, getMemeFileName, shareMeme } from '../services/shareService';
+import ExportMenu from './ExportMenu';
+import SocialPostScheduler from './SocialPostScheduler';
+
+interface MemeLightboxProps {
+  meme: ApprovedMeme;
+  onClose: () => void;
+  /** Admins can queue the meme for our social accounts. */
+  canPublish: boolean;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+}
+
+const MemeLightbox: React.FC<MemeLightboxProps> = ({ meme, onClose, canPublish, supabaseUrl, supabaseAnonKey }) => {
+  const [isCopied, setIsCopied] = useState(false);
+
+  // Close on Escape, like every other lightbox on the internet.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleShare = async () => {
+    const shareText = `${meme.topText}\n${meme.bottomText}\n\nKiss My Face New York`;
+    try {
+      const file = await fetchImageFile(meme.imageUrl, getMemeFileName(meme.id));
+      const result = await shareMeme(shareText, file, meme.imageUrl);
+      if (result === 'copied') {
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2000); // Reset after 2 seconds
+      }
+    } catch (error) {
+      console.error('Error sharing:', error);
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      downloadFile(await fetchImageFile(meme.imageUrl, getMemeFileName(meme.id)));
+    } catch (error) {
+      console.error('Failed to download meme:', error);
+      alert('Failed to download meme image.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Meme details"
+    >
+      <div
+        className="bg-gray-900 rounded-lg border-2 border-cyan-500/50 max-w-3xl w-full max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="relative">
+          <img src={meme.imageUrl} alt={meme.altText} className="w-full h-auto" />
+          <button
+            onClick={onClose}
+            className="absolute top-2 right-2 bg-black/70 hover:bg-black text-white font-bold h-10 w-10 rounded-full"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+        <div className="p-4 space-y-3">
+          {meme.isFeatured && (
+            <span className="inline-block bg-yellow-500/20 text-yellow-300 text-xs font-bold uppercase tracking-wider px-2 py-1 rounded-md">★ Featured</span>
+          )}
+          <div>
+            <p className="text-xs font-bold uppercase tracking-wider text-gray-500">Image description</p>
+            <p className="text-gray-200">{meme.altText || 'No description available.'}</p>
+          </div>
+          <p className="text-sm text-gray-500">{new Date(meme.createdAt).toLocaleDateString()}</p>
+          {Object.keys(meme.socialPostUrls).length > 0 && (
+            <p className="text-sm text-gray-400">
+              Posted on{' '}
+              {Object.entries(meme.socialPostUrls).map(([platform, url], index) => (
+                <React.Fragment key={platform}>
+                  {index > 0 && ', '}
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">
+                    {platform.charAt(0).toUpperCase() + platform.slice(1)}
+                  </a>
+                </React.Fragment>
+              ))}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleShare}
+              className="flex-grow bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg transition-all duration-200 transform hover:scale-105"
+            >
+              {isCopied ? 'Copied!' : '🔗 Share'}
+            </button>
+            <button
+              onClick={handleDownload}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all duration-200 transform hover:scale-105"
+            >
+              ⬇ Download
+            </button>
+          </div>
+          <ExportMenu memeId={meme.id} imageUrl={meme.imageUrl} />
+          {canPublish && <SocialPostScheduler meme={meme} supabaseUrl={supabaseUrl} supabaseAnonKey={supabaseAnonKey} />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemeLightbox;
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { MemeTemplateId, ProviderApprovalStats } from '../types';
+import { getProviderApprovalStats } from '../services/historyService';
+import { getImageProviderLabel, listImageProviders } from '../services/imageProviders';
+import type { ImageProviderCredentials } from '../services/imageProviders';
+import { MEME_TEMPLATE_IDS, getMemeTemplate } from '../services/memeTemplates';
+import { summarizeAllocation } from '../services/modelAllocator';
+
+interface ModelAllocationPanelProps {
+  imageCredentials: ImageProviderCredentials;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const ModelAllocationPanel: React.FC<ModelAllocationPanelProps> = ({ imageCredentials, supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [stats, setStats] = useState<ProviderApprovalStats[]>([]);
+  const [templateId, setTemplateId] = useState<MemeTemplateId | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    setIsLoading(true);
+    setStats(await getProviderApprovalStats(supabaseUrl, supabaseAnonKey));
+    setIsLoading(false);
+  }, [supabaseUrl, supabaseAnonKey]);
+
+  useEffect(() => {
+    if (isSupabaseConnected) loadStats();
+  }, [isSupabaseConnected, loadStats]);
+
+  const configuredProviderIds = useMemo(
+    () => listImageProviders().filter(provider => provider.isConfigured(imageCredentials)).map(provider => provider.id),
+    [imageCredentials]
+  );
+  const summaries = useMemo(
+    () => summarizeAllocation(configuredProviderIds, stats, templateId || undefined),
+    [configuredProviderIds, stats, templateId]
+  );
+  const decisionCount = stats.reduce((total, s) => total + s.approvals + s.rejections, 0);
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-emerald-500/30 shadow-lg shadow-emerald-500/10 mb-12">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Model Allocation</h2>
+      <p className="text-center text-gray-400 mb-6">
+        Each meme's image provider is picked by Thompson sampling: providers with better approval rates get more memes, and unproven ones still get tried.
+        Based on the last {decisionCount} review decisions.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <select
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value as MemeTemplateId | '')}
+          className="flex-grow bg-gray-800 border-2 border-gray-700 focus:border-emerald-500 rounded-lg px-3 py-2 text-white"
+        >
+          <option value="">All styles</option>
+          {MEME_TEMPLATE_IDS.map(id => (
+            <option key={id} value={id}>{getMemeTemplate(id).label}</option>
+          ))}
+        </select>
+        <button
+          onClick={loadStats}
+          disabled={!isSupabaseConnected || isLoading}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Loading...' : '↻ Refresh'}
+        </button>
+      </div>
+
+      <table className="w-full text-sm text-gray-300">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wider text-gray-500">
+            <th className="py-2">Provider</th>
+            <th className="py-2">Approved / rejected</th>
+            <th className="py-2">Approval rate (90% range)</th>
+            <th className="py-2 text-right">Share of memes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summaries.map(summary => (
+            <tr key={summary.providerId} className="border-t border-gray-800">
+              <td className="py-2 font-bold text-gray-200">{getImageProviderLabel(summary.providerId)}</td>
+              <td className="py-2">{summary.approvals} / {summary.rejections}</td>
+              <td className="py-2">
+                {formatPercent(summary.meanRate)}{' '}
+                <span className="text-gray-500">({formatPercent(summary.lowerRate)}–{formatPercent(summary.upperRate)})</span>
+              </td>
+              <td className="py-2">
+                <div className="flex items-center justify-end gap-2">
+                  <div className="w-24 h-2 bg-gray-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500" style={{ width: formatPercent(summary.probabilityBest) }} />
+                  </div>
+                  <span className="w-10 text-right">{formatPercent(summary.probabilityBest)}</span>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Only providers configured in this session are shown. A wide range means there isn't enough evidence yet. Memes covered by a fixed provider mix skip the allocator.
+      </p>
+    </div>
+  );
+};
+
+export default ModelAllocationPanel;
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import type { ModerationAction, ModerationPolicy } from '../types';
+import { getModerationPolicy, saveModerationPolicy } from '../services/moderationPolicyService';
+import { DEFAULT_MODERATION_POLICY, MODERATION_ACTION_LABELS, MODERATION_CATEGORIES } from '../services/moderation';
+
+interface ModerationPolicyPanelProps {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const MODERATION_ACTIONS: ModerationAction[] = ['block', 'flag', 'allow'];
+
+const ACTION_BUTTON_STYLES: Record<ModerationAction, string> = {
+  block: 'bg-red-600 text-white',
+  flag: 'bg-yellow-500 text-gray-900',
+  allow: 'bg-green-600 text-white',
+};
+
+const ModerationPolicyPanel: React.FC<ModerationPolicyPanelProps> = ({ supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [policy, setPolicy] = useState<ModerationPolicy>(DEFAULT_MODERATION_POLICY);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // Until the saved policy loads (or when there is none), the defaults are shown.
+  useEffect(() => {
+    if (!isSupabaseConnected) return;
+    getModerationPolicy(supabaseUrl, supabaseAnonKey).then(setPolicy);
+  }, [isSupabaseConnected, supabaseUrl, supabaseAnonKey]);
+
+  const handleChange = (next: ModerationPolicy) => {
+    setNotice('');
+    setPolicy(next);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage('');
+    setNotice('');
+    try {
+      await saveModerationPolicy(policy, supabaseUrl, supabaseAnonKey);
+      setNotice('Saved. The policy applies to every batch from now on, including autopilot.');
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save the moderation policy.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-red-500/30 shadow-lg shadow-red-500/10 mb-8">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Moderation Policy</h2>
+      <p className="text-center text-gray-400 mb-6">
+        Every concept is screened before its images are made, and every image once it exists.
+        Blocked memes are dropped and never offered for approval; flagged ones show a warning with the reason.
+      </p>
+
+      <ul className="space-y-3">
+        {MODERATION_CATEGORIES.map(category => (
+          <li key={category.id} className="flex flex-col sm:flex-row sm:items-center gap-2 bg-gray-800/50 rounded-lg p-3">
+            <div className="flex-grow">
+              <p className="font-bold text-gray-200">{category.label}</p>
+              <p className="text-xs text-gray-400">{category.description}</p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0" role="group" aria-label={`Action for ${category.label}`}>
+              {MODERATION_ACTIONS.map(action => (
+                <button
+                  key={action}
+                  onClick={() => handleChange({ ...policy, [category.id]: action })}
+                  aria-pressed={policy[category.id] === action}
+                  className={`text-xs font-bold py-1 px-3 rounded-md transition-all ${policy[category.id] === action ? ACTION_BUTTON_STYLES[action] : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  {MODERATION_ACTION_LABELS[action]}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {errorMessage && <p className="mt-4 text-sm text-red-400">{errorMessage}</p>}
+      {notice && <p className="mt-4 text-sm text-green-400">{notice}</p>}
+
+      <div className="flex gap-2 justify-end mt-4">
+        <button
+          onClick={() => handleChange(DEFAULT_MODERATION_POLICY)}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isSupabaseConnected || isSaving}
+          className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-6 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {isSaving ? 'Saving...' : 'Save Policy'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ModerationPolicyPanel;
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { ApprovedMeme, GalleryOrdering } from '../types';
+import { GALLERY_PAGE_SIZE, getGalleryMemes, setMemeFeatured } from '../services/feedbackService';
+import LoadingSpinner from './LoadingSpinner';
+import MemeLightbox from './MemeLightbox';
+
+interface PublicGalleryProps {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isLoggedIn: boolean;
+}
+
+const ORDERINGS: { id: GalleryOrdering; label: string }[] = [
+  { id: 'newest', label: 'Newest' },
+  { id: 'featured', label: '★ Featured' },
+];
+
+const PublicGallery: React.FC<PublicGalleryProps> = ({ supabaseUrl, supabaseAnonKey, isLoggedIn }) => {
+  const [ordering, setOrdering] = useState<GalleryOrdering>('newest');
+  const [memes, setMemes] = useState<ApprovedMeme[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [selectedMeme, setSelectedMeme] = useState<ApprovedMeme | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Ignores pages that arrive after the ordering changed.
+  const requestIdRef = useRef(0);
+
+  const isConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+  const loadPage = useCallback(async (offset: number, requestId: number) => {
+    setIsLoading(true);
+    try {
+      const page = await getGalleryMemes(supabaseUrl, supabaseAnonKey, ordering, offset);
+      if (requestId !== requestIdRef.current) return;
+      setMemes(current => (offset === 0 ? page : [...current, ...page]));
+      setHasMore(page.length === GALLERY_PAGE_SIZE);
+      setErrorMessage('');
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Failed to load gallery page:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load the gallery.');
+      setHasMore(false);
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [supabaseUrl, supabaseAnonKey, ordering]);
+
+  // Start over whenever the ordering or backend changes.
+  useEffect(() => {
+    if (!isConfigured) return;
+    requestIdRef.current += 1;
+    setMemes([]);
+    setHasMore(true);
+    loadPage(0, requestIdRef.current);
+  }, [isConfigured, loadPage]);
+
+  // Infinite scroll: load the next page when the sentinel below the grid scrolls into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || memes.length === 0) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadPage(memes.length, requestIdRef.current);
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, memes.length, loadPage]);
+
+  const handleToggleFeatured = async (meme: ApprovedMeme) => {
+    try {
+      await setMemeFeatured(meme.id, !meme.isFeatured, supabaseUrl, supabaseAnonKey);
+      setMemes(current => current.map(m => (m.id === meme.id ? { ...m, isFeatured: !m.isFeatured } : m)));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update the meme.');
+    }
+  };
+
+  if (!isConfigured) {
+    return (
+      <div className="text-center text-gray-300 py-16">
+        <h2 className="text-2xl font-bold mb-2">Nothing to see here... yet!</h2>
+        <p>The gallery isn't connected yet. Check back later!</p>
+      </div>
+    );
+  }
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-200">The Gallery</h2>
+        <div className="flex gap-2" role="tablist">
+          {ORDERINGS.map(option => (
+            <button
+              key={option.id}
+              role="tab"
+              aria-selected={ordering === option.id}
+              onClick={() => setOrdering(option.id)}
+              className={`font-bold py-2 px-4 rounded-lg transition-all ${
+                ordering === option.id ? 'bg-gradient-to-r from-pink-500 to-cyan-400 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="max-w-3xl mx-auto bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg mb-6" role="alert">
+          {errorMessage}
+        </div>
+      )}
+
+      {!isLoading && !errorMessage && memes.length === 0 && (
+        <div className="text-center text-gray-300 py-16">
+          <h2 className="text-2xl font-bold mb-2">Nothing to see here... yet!</h2>
+          <p>The admins haven't approved any memes yet. Check back later!</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+        {memes.map(meme => (
+          <div key={meme.id} className="relative">
+            <button
+              onClick={() => setSelectedMeme(meme)}
+              className="block w-full bg-gray-900 rounded-lg overflow-hidden border-2 border-green-400/60 shadow-lg transition-all duration-300 hover:shadow-cyan-400/50 hover:-translate-y-1"
+              aria-label={`Open meme: ${meme.altText}`}
+            >
+              <img src={meme.imageUrl} alt={meme.altText} loading="lazy" className="w-full h-auto" />
+            </button>
+            {isLoggedIn ? (
+              <button
+                onClick={() => handleToggleFeatured(meme)}
+                className={`absolute top-2 left-2 text-xs font-bold uppercase tracking-wider px-2 py-1 rounded-md ${
+                  meme.isFeatured ? 'bg-yellow-500 text-black' : 'bg-black/70 text-gray-300 hover:text-yellow-300'
+                }`}
+              >
+                {meme.isFeatured ? '★ Featured' : '☆ Feature'}
+              </button>
+            ) : meme.isFeatured && (
+              <span className="absolute top-2 left-2 bg-yellow-500 text-black text-xs font-bold uppercase tracking-wider px-2 py-1 rounded-md">★ Featured</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isLoading && <div className="text-center my-12"><LoadingSpinner /></div>}
+      <div ref={sentinelRef} aria-hidden="true" />
+
+      {selectedMeme && (
+        <MemeLightbox
+          meme={selectedMeme}
+          onClose={() => setSelectedMeme(null)}
+          canPublish={isLoggedIn}
+          supabaseUrl={supabaseUrl}
+          supabaseAnonKey={supabaseAnonKey}
+        />
+      )}
+    </section>
+  );
+};
+
+export default PublicGallery;
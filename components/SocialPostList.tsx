@@ -0,0 +1,61 @@
+import React from 'react';
+import type { SocialPlatform, SocialPost, SocialPostStatus } from '../types';
+
+interface SocialPostListProps {
+  posts: SocialPost[];
+  /** Used for platform labels. Posts for unknown platforms show their id. */
+  platforms: SocialPlatform[];
+  busyPostId: string | null;
+  onCancel: (post: SocialPost) => void;
+  onRetry: (post: SocialPost) => void;
+  /** Shows each post's image, for lists that mix several memes. */
+  showImages?: boolean;
+}
+
+const POST_STATUS_STYLES: Record<SocialPostStatus, string> = {
+  scheduled: 'text-gray-300',
+  publishing: 'text-cyan-300',
+  retrying: 'text-yellow-300',
+  published: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const SocialPostList: React.FC<SocialPostListProps> = ({ posts, platforms, busyPostId, onCancel, onRetry, showImages = false }) => (
+  <ul className="space-y-2">
+    {posts.map(post => {
+      const isBusy = busyPostId === post.id;
+      const platformLabel = platforms.find(p => p.id === post.platform)?.label ?? post.platform;
+
+      return (
+        <li key={post.id} className="bg-gray-800/70 rounded-lg p-3 text-sm text-gray-300 flex gap-3">
+          {showImages && <img src={post.imageUrl} alt={post.altText} className="w-16 h-16 object-cover rounded-md flex-shrink-0" />}
+          <div className="min-w-0 flex-grow space-y-1">
+            <p>
+              <span className="font-bold text-gray-200">{platformLabel}</span>
+              {' '}· <span className={POST_STATUS_STYLES[post.status]}>{post.status}</span>
+              {' '}· {new Date(post.publishedAt ?? post.scheduledFor).toLocaleString()}
+              {post.attempt > 0 && <> · attempt {post.attempt}/{post.maxAttempts}</>}
+              {post.status === 'retrying' && <> · next attempt {new Date(post.nextAttemptAt).toLocaleString()}</>}
+            </p>
+            <p className="break-words text-gray-400">{post.caption}</p>
+            {post.errorMessage && <p className="text-red-400 break-words">{post.errorMessage}</p>}
+            <div className="flex gap-4">
+              {post.postUrl && (
+                <a href={post.postUrl} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">View post ↗</a>
+              )}
+              {(post.status === 'scheduled' || post.status === 'retrying') && (
+                <button onClick={() => onCancel(post)} disabled={isBusy} className="text-red-400 hover:underline disabled:opacity-50">Cancel</button>
+              )}
+              {(post.status === 'failed' || post.status === 'cancelled') && (
+                <button onClick={() => onRetry(post)} disabled={isBusy} className="text-purple-300 hover:underline disabled:opacity-50">Retry</button>
+              )}
+            </div>
+          </div>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default SocialPostList;
@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ApprovedMeme, SocialPlatform, SocialPlatformId, SocialPost } from '../types';
+import {
+  cancelSocialPost,
+  getCaptionLength,
+  getSocialPlatforms,
+  getSocialPosts,
+  queueSocialPosts,
+  retrySocialPost,
+} from '../services/socialQueueService';
+import { formatSocialCaption, listSocialCopy } from '../services/socialCopy';
+import SocialPostList from './SocialPostList';
+
+interface SocialPostSchedulerProps {
+  meme: ApprovedMeme;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+}
+
+/** A Date as the value of a datetime-local input, in the browser's time zone. */
+const toDateTimeLocal = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+const SocialPostScheduler: React.FC<SocialPostSchedulerProps> = ({ meme, supabaseUrl, supabaseAnonKey }) => {
+  const [platforms, setPlatforms] = useState<SocialPlatform[]>([]);
+  const [posts, setPosts] = useState<SocialPost[]>([]);
+  const [selectedPlatforms, setSelectedPlatforms] = useState<SocialPlatformId[]>([]);
+  const suggestedCopy = listSocialCopy(meme.socialCopy);
+  const [copyPlatformId, setCopyPlatformId] = useState<SocialPlatformId | null>(suggestedCopy[0]?.platform.id ?? null);
+  const [caption, setCaption] = useState(suggestedCopy[0] ? formatSocialCaption(suggestedCopy[0].copy) : [meme.topText, meme.bottomText].filter(Boolean).join('\n'));
+  const [isCommentCopied, setIsCommentCopied] = useState(false);
+  const [altText, setAltText] = useState(meme.altText);
+  const [scheduledFor, setScheduledFor] = useState(toDateTimeLocal(new Date()));
+  const [busyPostId, setBusyPostId] = useState<string | null>(null);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const loadPosts = useCallback(async () => {
+    setPosts(await getSocialPosts(supabaseUrl, supabaseAnonKey, meme.id));
+  }, [meme.id, supabaseUrl, supabaseAnonKey]);
+
+  useEffect(() => {
+    loadPosts().catch(error => setErrorMessage(error instanceof Error ? error.message : 'Failed to load this meme\'s posts.'));
+    getSocialPlatforms(supabaseUrl, supabaseAnonKey)
+      .then(setPlatforms)
+      .catch(error => setErrorMessage(error instanceof Error ? error.message : 'Failed to load the social platforms.'));
+  }, [loadPosts, supabaseUrl, supabaseAnonKey]);
+
+  const togglePlatform = (id: SocialPlatformId) =>
+    setSelectedPlatforms(current => (current.includes(id) ? current.filter(p => p !== id) : [...current, id]));
+
+  const applySuggestedCopy = (platformId: SocialPlatformId) => {
+    const suggestion = suggestedCopy.find(({ platform }) => platform.id === platformId);
+    if (!suggestion) return;
+    setCopyPlatformId(platformId);
+    setCaption(formatSocialCaption(suggestion.copy));
+  };
+
+  const firstComment = suggestedCopy.find(({ platform }) => platform.id === copyPlatformId)?.copy.firstComment ?? '';
+
+  const handleCopyFirstComment = async () => {
+    try {
+      await navigator.clipboard.writeText(firstComment);
+      setIsCommentCopied(true);
+      setTimeout(() => setIsCommentCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy the first comment:', error);
+    }
+  };
+
+  const captionLength = getCaptionLength(caption.trim());
+  const tooLongFor = platforms.filter(p => selectedPlatforms.includes(p.id) && captionLength > p.maxCaptionLength);
+
+  const handleQueue = async () => {
+    setIsQueueing(true);
+    setErrorMessage('');
+    try {
+      await queueSocialPosts(meme, selectedPlatforms, { caption, altText, scheduledFor: new Date(scheduledFor) }, supabaseUrl, supabaseAnonKey);
+      setSelectedPlatforms([]);
+      await loadPosts();
+    } catch (error) {
+      console.error('Failed to queue social posts:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to queue the posts.');
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const runPostAction = async (post: SocialPost, action: () => Promise<void>) => {
+    setBusyPostId(post.id);
+    setErrorMessage('');
+    try {
+      await action();
+      await loadPosts();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyPostId(null);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-700 pt-3 space-y-3">
+      <p className="text-xs font-bold uppercase tracking-wider text-gray-500">Publish</p>
+
+      <div className="flex flex-wrap gap-2">
+        {platforms.map(platform => (
+          <label
+            key={platform.id}
+            title={platform.isConfigured ? undefined : 'Not configured on the worker'}
+            className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm ${platform.isConfigured ? 'bg-gray-800 text-gray-200 cursor-pointer' : 'bg-gray-800/50 text-gray-500 cursor-not-allowed'}`}
+          >
+            <input
+              type="checkbox"
+              checked={selectedPlatforms.includes(platform.id)}
+              onChange={() => togglePlatform(platform.id)}
+              disabled={!platform.isConfigured}
+            />
+            {platform.label}
+          </label>
+        ))}
+      </div>
+
+      {suggestedCopy.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">Suggested copy for</span>
+          {suggestedCopy.map(({ platform }) => (
+            <button
+              key={platform.id}
+              onClick={() => applySuggestedCopy(platform.id)}
+              className={`px-3 py-1 rounded-lg transition-all ${copyPlatformId === platform.id ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {platform.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="social-caption" className="text-sm font-bold text-gray-300 block mb-1">Caption</label>
+        <textarea
+          id="social-caption"
+          value={caption}
+          onChange={e => setCaption(e.target.value)}
+          rows={3}
+          className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 rounded-lg px-3 py-2 text-white text-sm"
+        />
+        <p className={`text-xs ${tooLongFor.length > 0 ? 'text-red-400' : 'text-gray-500'}`}>
+          {captionLength} characters
+          {tooLongFor.length > 0 && ` · too long for ${tooLongFor.map(p => `${p.label} (${p.maxCaptionLength})`).join(', ')}`}
+        </p>
+      </div>
+
+      {firstComment && (
+        <div className="bg-gray-800/50 rounded-lg p-3">
+          <div className="flex justify-between items-center mb-1">
+            <p className="text-sm font-bold text-gray-300">First comment</p>
+            <button onClick={handleCopyFirstComment} className="text-xs text-cyan-400 hover:underline">
+              {isCommentCopied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          <p className="text-sm text-gray-300 whitespace-pre-line">{firstComment}</p>
+          <p className="text-xs text-gray-500 mt-1">Post it as the first comment or reply once the post is live.</p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="social-alt-text" className="text-sm font-bold text-gray-300 block mb-1">Alt text</label>
+        <textarea
+          id="social-alt-text"
+          value={altText}
+          onChange={e => setAltText(e.target.value)}
+          rows={2}
+          className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 rounded-lg px-3 py-2 text-white text-sm"
+        />
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-grow">
+          <label htmlFor="social-scheduled-for" className="text-sm font-bold text-gray-300 block mb-1">Post at</label>
+          <input
+            id="social-scheduled-for"
+            type="datetime-local"
+            value={scheduledFor}
+            onChange={e => setScheduledFor(e.target.value)}
+            className="w-full bg-gray-800 border-2 border-gray-700 focus:border-cyan-500 rounded-lg px-3 py-2 text-white text-sm"
+          />
+        </div>
+        <button
+          onClick={handleQueue}
+          disabled={isQueueing || selectedPlatforms.length === 0 || tooLongFor.length > 0 || !scheduledFor}
+          className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isQueueing ? 'Queueing...' : '📣 Queue'}
+        </button>
+      </div>
+
+      {errorMessage && <p className="text-sm text-red-400">{errorMessage}</p>}
+
+      <SocialPostList
+        posts={posts}
+        platforms={platforms}
+        busyPostId={busyPostId}
+        onCancel={post => runPostAction(post, () => cancelSocialPost(post.id, supabaseUrl, supabaseAnonKey))}
+        onRetry={post => runPostAction(post, () => retrySocialPost(post.id, supabaseUrl, supabaseAnonKey))}
+      />
+    </div>
+  );
+};
+
+export default SocialPostScheduler;
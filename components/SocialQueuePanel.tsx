@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { SocialPlatform, SocialPost } from '../types';
+import { cancelSocialPost, getSocialPlatforms, getSocialPosts, retrySocialPost } from '../services/socialQueueService';
+import SocialPostList from './SocialPostList';
+
+interface SocialQueuePanelProps {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  isSupabaseConnected: boolean;
+}
+
+const SocialQueuePanel: React.FC<SocialQueuePanelProps> = ({ supabaseUrl, supabaseAnonKey, isSupabaseConnected }) => {
+  const [posts, setPosts] = useState<SocialPost[]>([]);
+  const [platforms, setPlatforms] = useState<SocialPlatform[]>([]);
+  const [busyPostId, setBusyPostId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const loadPosts = useCallback(async () => {
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      setPosts(await getSocialPosts(supabaseUrl, supabaseAnonKey));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load the publishing queue.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabaseUrl, supabaseAnonKey]);
+
+  useEffect(() => {
+    if (!isSupabaseConnected) return;
+    loadPosts();
+    // Only needed for labels and the "not configured" warning, so a stopped worker is not an error here.
+    getSocialPlatforms(supabaseUrl, supabaseAnonKey)
+      .then(setPlatforms)
+      .catch(error => console.warn('[Social] Could not load platforms:', error));
+  }, [isSupabaseConnected, loadPosts, supabaseUrl, supabaseAnonKey]);
+
+  const runPostAction = async (post: SocialPost, action: () => Promise<void>) => {
+    setBusyPostId(post.id);
+    setErrorMessage('');
+    try {
+      await action();
+      setPosts(await getSocialPosts(supabaseUrl, supabaseAnonKey));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyPostId(null);
+    }
+  };
+
+  const unconfigured = platforms.filter(p => !p.isConfigured);
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-900/50 p-6 rounded-lg border border-cyan-500/30 shadow-lg shadow-cyan-500/10 mb-12">
+      <h2 className="text-2xl font-bold text-center mb-4 text-gray-200">Publishing Queue</h2>
+      <p className="text-center text-gray-400 mb-6">
+        Approved memes queued for our social accounts. Open a meme in the gallery to schedule it. The worker publishes each post at its scheduled time and retries failures.
+      </p>
+
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={loadPosts}
+          disabled={!isSupabaseConnected || isLoading}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Loading...' : '↻ Refresh'}
+        </button>
+      </div>
+
+      {unconfigured.length > 0 && (
+        <p className="mb-4 text-sm text-yellow-300">
+          Not configured on the worker: {unconfigured.map(p => p.label).join(', ')}. Posts to these platforms will fail until their credentials are set (see the README).
+        </p>
+      )}
+      {errorMessage && (
+        <div className="mb-4 text-center p-2 rounded-md text-sm font-semibold bg-red-900/70 text-red-300">{errorMessage}</div>
+      )}
+
+      {isSupabaseConnected && !isLoading && posts.length === 0 && !errorMessage && (
+        <p className="text-center text-gray-400">Nothing queued yet.</p>
+      )}
+
+      <SocialPostList
+        posts={posts}
+        platforms={platforms}
+        busyPostId={busyPostId}
+        onCancel={post => runPostAction(post, () => cancelSocialPost(post.id, supabaseUrl, supabaseAnonKey))}
+        onRetry={post => runPostAction(post, () => retrySocialPost(post.id, supabaseUrl, supabaseAnonKey))}
+        showImages
+      />
+    </div>
+  );
+};
+
+export default SocialQueuePanel;
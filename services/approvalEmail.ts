@@ -0,0 +1,126 @@
+import type { EmailAction, EmailActionLinks, GeneratedMeme } from '../types';
+import { getSupabaseClient, uploadMemeImage } from './feedbackService';
+import { getImageProviderLabel } from './imageProviders';
+import { getMemeTemplate, getSlotValue } from './memeTemplates';
+import { formatModerationResult } from './moderation';
+
+// The approval email: its HTML/text template, and uploading the images it links to.
+// Used by the worker (autopilot runs and the approval email API) and, for uploads, by the browser.
+
+export const DEFAULT_APPROVAL_RECIPIENT = 'admin@kissmyfacenewyork.com';
+
+export type ApprovalEmailMeme = Pick<GeneratedMeme, 'id' | 'templateId' | 'slots' | 'topText' | 'bottomText' | 'imageUrl' | 'altText' | 'modelUsed' | 'batchId' | 'moderation'>;
+
+/** Signed Approve, Reject and Regenerate links for each meme, keyed by meme id (see worker/emailActions.ts). */
+export type ApprovalEmailLinks = Record<string, EmailActionLinks>;
+
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const formatSlotLabel = (slotId: string): string => {
+  const label = slotId.replace(/-/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+/** Every caption of a meme as label/text pairs, in template order. */
+const getCaptions = (meme: ApprovalEmailMeme): [string, string][] => {
+  if (meme.templateId === 'classic') {
+    return [['Top', meme.topText], ['Bottom', meme.bottomText]];
+  }
+  return getMemeTemplate(meme.templateId).slots
+    .filter(slot => slot.kind === 'text')
+    .map(slot => [formatSlotLabel(slot.id), getSlotValue(meme.slots, slot.id)]);
+};
+
+/**
+ * Copies any data URL images to storage, so the email links to them instead of inlining megabytes of base64.
+ * Images are stored under history/, next to the batch history copies, so nothing is uploaded twice.
+ */
+export const uploadApprovalEmailImages = async <T extends ApprovalEmailMeme>(memes: T[], supabaseUrl: string, supabaseAnonKey: string): Promise<T[]> => {
+  const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+  return Promise.all(memes.map(async meme => (
+    meme.imageUrl.startsWith('data:')
+      ? { ...meme, imageUrl: await uploadMemeImage(client, meme.imageUrl, `history/${meme.id}`) }
+      : meme
+  )));
+};
+
+const ACTION_BUTTONS: [EmailAction, string, string][] = [
+  ['approve', 'Approve', '#16a34a'],
+  ['reject', 'Reject', '#dc2626'],
+  ['regenerate', 'Regenerate', '#4b5563'],
+];
+
+/** The buttons for the actions a meme has links for, in ACTION_BUTTONS order. */
+const getActionButtons = (links: EmailActionLinks): [string, string, string][] =>
+  ACTION_BUTTONS.flatMap(([action, label, color]) => (links[action] ? [[links[action]!, label, color]] : []));
+
+const renderActionButtons = (links: EmailActionLinks | undefined): string => {
+  if (!links) return '';
+  const buttons = getActionButtons(links).map(([href, label, color]) =>
+    `<a href="${escapeHtml(href)}" style="display:inline-block;margin:0 8px 0 0;padding:10px 18px;border-radius:6px;background:${color};color:#ffffff;font-size:14px;font-weight:bold;text-decoration:none;">${label}</a>`
+  ).join('');
+  return `<p style="margin:16px 0 0;">${buttons}</p>`;
+};
+
+/**
+ * Renders the approval email. Images must already be hosted (see uploadApprovalEmailImages).
+ * Memes with an entry in `links` get a button for each of their links (photo memes have no Regenerate).
+ */
+export const renderApprovalEmail = (memes: ApprovalEmailMeme[], heading: string, links: ApprovalEmailLinks = {}): RenderedEmail => {
+  const hasLinks = memes.some(meme => links[meme.id]);
+  const memeBlocks = memes.map((meme, index) => {
+    const captions = getCaptions(meme)
+      .filter(([, text]) => text)
+      .map(([label, text]) => `<p style="margin:4px 0;font-size:16px;color:#111827;"><strong>${escapeHtml(label)}:</strong> ${escapeHtml(text)}</p>`)
+      .join('');
+    return `
+      <tr><td style="padding:24px 0;border-bottom:1px solid #e5e7eb;">
+        <p style="margin:0 0 8px;font-size:12px;text-transform:uppercase;letter-spacing:1px;color:#6b7280;">Meme ${index + 1} of ${memes.length} · ${escapeHtml(getMemeTemplate(meme.templateId).label)} · ${escapeHtml(getImageProviderLabel(meme.modelUsed))}</p>
+        <img src="${escapeHtml(meme.imageUrl)}" alt="${escapeHtml(meme.altText)}" width="520" style="display:block;width:100%;max-width:520px;height:auto;border-radius:8px;" />
+        ${captions}
+        <p style="margin:8px 0 0;font-size:13px;color:#6b7280;"><em>Alt text:</em> ${escapeHtml(meme.altText || 'None')}</p>
+        ${meme.moderation?.outcome === 'flag' ? `<p style="margin:8px 0 0;padding:6px 10px;font-size:13px;color:#92400e;background:#fef3c7;border-radius:6px;"><strong>⚠ Flagged:</strong> ${escapeHtml(formatModerationResult(meme.moderation))}</p>` : ''}
+        ${renderActionButtons(links[meme.id])}
+      </td></tr>`;
+  }).join('');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;">
+      <tr><td align="center" style="padding:24px;">
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px;padding:0 20px;">
+          <tr><td style="padding:24px 0 0;">
+            <h1 style="margin:0;font-size:22px;color:#db2777;">${escapeHtml(heading)}</h1>
+            <p style="margin:8px 0 0;font-size:15px;color:#374151;">Please review the following memes generated by Kiss My Face New York AI.</p>
+            ${hasLinks ? '<p style="margin:8px 0 0;font-size:13px;color:#6b7280;">Each button works once and asks you to confirm before anything happens.</p>' : ''}
+          </td></tr>
+          ${memeBlocks}
+          <tr><td style="padding:16px 0 24px;font-size:12px;color:#9ca3af;">Kiss My Face New York · AI Meme Generator</td></tr>
+        </table>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+
+  const text = [
+    heading,
+    'Please review the following memes generated by Kiss My Face New York AI.',
+    ...memes.map((meme, index) => [
+      `--- Meme ${index + 1} of ${memes.length} (${getMemeTemplate(meme.templateId).label}, ${getImageProviderLabel(meme.modelUsed)}) ---`,
+      ...getCaptions(meme).filter(([, text]) => text).map(([label, text]) => `${label}: ${text}`),
+      `Alt text: ${meme.altText || 'None'}`,
+      ...(meme.moderation?.outcome === 'flag' ? [`Flagged: ${formatModerationResult(meme.moderation)}`] : []),
+      `Image: ${meme.imageUrl}`,
+      ...(links[meme.id] ? getActionButtons(links[meme.id]).map(([href, label]) => `${label}: ${href}`) : []),
+    ].join('\n')),
+  ].join('\n\n');
+
+  return { html, text };
+};
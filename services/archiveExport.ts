@@ -0,0 +1,139 @@
+import type { ApprovedMeme, SocialCopySet } from '../types';
+import { getImageProviderLabel } from './imageProviders';
+import { getMemeTemplate, getSlotValue } from './memeTemplates';
+import { createZip } from './zipArchive';
+import type { ZipEntry } from './zipArchive';
+
+// Builds the archive export: every meme's image plus a manifest (JSON and CSV) of what it says,
+// how it was made and where it lives, for our social media manager and for backups.
+
+/** Images are downloaded a few at a time, so a big export doesn't open hundreds of requests at once. */
+const DOWNLOAD_CONCURRENCY = 4;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export interface ArchiveManifestEntry {
+  id: string;
+  /** The image's path inside the ZIP, or null when it couldn't be downloaded. */
+  file: string | null;
+  approvedAt: string;
+  template: string;
+  topText: string;
+  bottomText: string;
+  /** Every text slot of the template, for layouts with more than a top and bottom caption. */
+  captions: Record<string, string>;
+  altText: string;
+  /** Suggested post copy, keyed by platform. */
+  socialCopy: SocialCopySet;
+  imagePrompt: string;
+  provider: string;
+  publicUrl: string;
+  isFeatured: boolean;
+  socialPostUrls: Record<string, string>;
+}
+
+const CSV_COLUMNS: { header: string; getValue: (entry: ArchiveManifestEntry) => string }[] = [
+  { header: 'id', getValue: entry => entry.id },
+  { header: 'file', getValue: entry => entry.file ?? '' },
+  { header: 'approved_at', getValue: entry => entry.approvedAt },
+  { header: 'template', getValue: entry => entry.template },
+  { header: 'top_text', getValue: entry => entry.topText },
+  { header: 'bottom_text', getValue: entry => entry.bottomText },
+  { header: 'captions', getValue: entry => Object.values(entry.captions).join(' | ') },
+  { header: 'alt_text', getValue: entry => entry.altText },
+  { header: 'image_prompt', getValue: entry => entry.imagePrompt },
+  { header: 'provider', getValue: entry => entry.provider },
+  { header: 'public_url', getValue: entry => entry.publicUrl },
+  { header: 'featured', getValue: entry => (entry.isFeatured ? 'yes' : 'no') },
+  { header: 'social_posts', getValue: entry => Object.values(entry.socialPostUrls).join(' ') },
+];
+
+/** Spreadsheets run a cell that starts with one of these as a formula, so such values get a leading apostrophe. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvField = (value: string): string => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV, with a byte order mark so Excel opens the emoji and accents correctly. */
+export const toManifestCsv = (entries: ArchiveManifestEntry[]): string =>
+  '\uFEFF' + [
+    CSV_COLUMNS.map(column => column.header).join(','),
+    ...entries.map(entry => CSV_COLUMNS.map(column => toCsvField(column.getValue(entry))).join(',')),
+  ].join('\r\n') + '\r\n';
+
+const toManifestEntry = (meme: ApprovedMeme, file: string | null): ArchiveManifestEntry => {
+  const template = getMemeTemplate(meme.templateId);
+  return {
+    id: meme.id,
+    file,
+    approvedAt: meme.createdAt,
+    template: template.label,
+    topText: meme.topText,
+    bottomText: meme.bottomText,
+    captions: Object.fromEntries(template.slots.filter(slot => slot.kind === 'text').map(slot => [slot.id, getSlotValue(meme.slots, slot.id)])),
+    altText: meme.altText,
+    socialCopy: meme.socialCopy,
+    imagePrompt: meme.imagePrompt,
+    provider: getImageProviderLabel(meme.modelUsed),
+    publicUrl: meme.imageUrl,
+    isFeatured: meme.isFeatured,
+    socialPostUrls: meme.socialPostUrls,
+  };
+};
+
+const downloadImageEntry = async (meme: ApprovedMeme): Promise<ZipEntry> => {
+  const response = await fetch(meme.imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch the image (status ${response.status}).`);
+  }
+  const blob = await response.blob();
+  const extension = FILE_EXTENSIONS[blob.type] ?? meme.imageUrl.split('?')[0].split('.').pop() ?? 'png';
+  return {
+    name: `memes/${meme.createdAt.slice(0, 10)}-${meme.id}.${extension}`,
+    data: new Uint8Array(await blob.arrayBuffer()),
+    modifiedAt: new Date(meme.createdAt),
+  };
+};
+
+/**
+ * Downloads the memes' images and packs them with manifest.json and manifest.csv into a ZIP.
+ * An image that can't be downloaded doesn't stop the export: its manifest entry has no file.
+ * @param onProgress Called with the number of images done so far.
+ */
+export const createMemeArchive = async (
+  memes: ApprovedMeme[],
+  onProgress?: (done: number) => void
+): Promise<{ zip: Blob; missingImageCount: number }> => {
+  const imageEntries: (ZipEntry | null)[] = new Array(memes.length).fill(null);
+  let nextIndex = 0;
+  let done = 0;
+
+  const downloadNext = async (): Promise<void> => {
+    while (nextIndex < memes.length) {
+      const index = nextIndex++;
+      try {
+        imageEntries[index] = await downloadImageEntry(memes[index]);
+      } catch (error) {
+        console.warn(`Leaving the image of meme ${memes[index].id} out of the export:`, error);
+      }
+      onProgress?.(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, memes.length) }, downloadNext));
+
+  const manifest = memes.map((meme, index) => toManifestEntry(meme, imageEntries[index]?.name ?? null));
+  const encoder = new TextEncoder();
+  const zip = createZip([
+    { name: 'manifest.json', data: encoder.encode(JSON.stringify({ exportedAt: new Date().toISOString(), memes: manifest }, null, 2)) },
+    { name: 'manifest.csv', data: encoder.encode(toManifestCsv(manifest)) },
+    ...imageEntries.filter((entry): entry is ZipEntry => entry !== null),
+  ]);
+  return { zip, missingImageCount: manifest.filter(entry => !entry.file).length };
+};
@@ -0,0 +1,100 @@
+import type { AuthUser, UserRole } from '../types';
+import { getSupabaseClient } from './feedbackService';
+
+// --- Supabase Auth Setup Instructions for the user ---
+// 1. Go to 'Authentication' > 'Providers' and make sure 'Email' is enabled.
+// 2. Run the 'Auth & Roles SQL' from the Admin panel to create the profiles table and helper functions.
+// 3. Invite your team under 'Authentication' > 'Users', then give each person a role:
+/*
+   INSERT INTO public.profiles (id, email, role)
+   SELECT id, email, 'admin' FROM auth.users WHERE email = 'you@example.com';
+*/
+
+const isUserRole = (role: unknown): role is UserRole => role === 'admin' || role === 'reviewer';
+
+/**
+ * Looks up the signed-in user's role in the profiles table.
+ * Users without a profile row are signed in but have no access to the admin tools.
+ * The worker's API calls this with the service role key to authorize requests.
+ */
+export const getUserRole = async (userId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<UserRole | null> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error("[Auth] Failed to load user role:", JSON.stringify(error, null, 2));
+        return null;
+    }
+    return isUserRole(data?.role) ? data.role : null;
+};
+
+export const signInWithPassword = async (email: string, password: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.auth.signInWithPassword({ email, password });
+    if (error) {
+        console.error("[Auth] Password sign-in failed:", error);
+        throw new Error(error.message.toLowerCase().includes('invalid login credentials')
+            ? 'Incorrect email or password.'
+            : `Sign-in failed: ${error.message}`);
+    }
+};
+
+/**
+ * Emails a one-time sign-in link that brings the user back to this page.
+ * Only existing users can sign in this way; new sign-ups are not created.
+ */
+export const sendMagicLink = async (email: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.auth.signInWithOtp({
+        email,
+        options: {
+            shouldCreateUser: false,
+            emailRedirectTo: `${window.location.origin}${window.location.pathname}`,
+        },
+    });
+    if (error) {
+        console.error("[Auth] Magic link request failed:", error);
+        throw new Error(`Could not send the sign-in link: ${error.message}`);
+    }
+};
+
+export const signOut = async (supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.auth.signOut();
+    if (error) {
+        console.error("[Auth] Sign-out failed:", error);
+        throw new Error(`Sign-out failed: ${error.message}`);
+    }
+};
+
+/**
+ * Calls onChange with the current user (or null) now and whenever the session changes,
+ * including when the user returns from a magic link.
+ * @returns A function that stops watching.
+ */
+export const watchAuthUser = (supabaseUrl: string, supabaseAnonKey: string, onChange: (user: AuthUser | null) => void): (() => void) => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    let isActive = true;
+
+    const { data } = client.auth.onAuthStateChange((_event, session) => {
+        const user = session?.user;
+        if (!user) {
+            onChange(null);
+            return;
+        }
+        // Supabase warns against awaiting other Supabase calls inside this callback, so defer the lookup.
+        setTimeout(async () => {
+            const role = await getUserRole(user.id, supabaseUrl, supabaseAnonKey);
+            if (isActive) onChange({ id: user.id, email: user.email ?? '', role });
+        }, 0);
+    });
+
+    return () => {
+        isActive = false;
+        data.subscription.unsubscribe();
+    };
+};
@@ -0,0 +1,196 @@
+// Pure scheduling helpers shared by the autopilot worker and the admin panel.
+// Cron expressions are evaluated in the campaign's own IANA time zone, never the machine's local time.
+
+export const DEFAULT_AUTOPILOT_TIME_ZONE = 'America/New_York';
+export const DEFAULT_AUTOPILOT_CRON = '0 8 * * *';
+
+/** A run that was missed (e.g. the worker was down) is still started this many hours after its scheduled time. */
+const MISSED_RUN_GRACE_HOURS = 6;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+/** How far ahead to look for the next match, so that e.g. '0 0 29 2 *' is still found. */
+const MAX_LOOKAHEAD_DAYS = 4 * 366;
+
+interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const getZonedDateParts = (date: Date, timeZone: string): ZonedDateParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+};
+
+/** How far the wall clock in `timeZone` is ahead of UTC at the given instant. */
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute } = getZonedDateParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const instantToTheMinute = Math.floor(date.getTime() / 60000) * 60000;
+  return wallClockAsUtc - instantToTheMinute;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The local calendar date (YYYY-MM-DD) in `timeZone` at the given instant. */
+export const getLocalDate = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const addDays = (localDate: string, days: number): string =>
+  new Date(Date.parse(`${localDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * The instant at which `hour:minute` happens on `localDate` in `timeZone`.
+ * The offset is re-checked at the result so runs near a DST change land on the right time.
+ */
+const getScheduledTime = (localDate: string, hour: number, minute: number, timeZone: string): Date => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = new Date(wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone));
+  const corrected = new Date(wallClockAsUtc - getTimeZoneOffsetMs(firstGuess, timeZone));
+  // A time skipped by a spring-forward change doesn't exist; fall back to the hour right after it.
+  const parts = getZonedDateParts(corrected, timeZone);
+  return parts.hour === hour && parts.minute === minute ? corrected : firstGuess;
+};
+
+// --- Cron expressions ---
+// Standard five fields: minute hour day-of-month month day-of-week.
+// Each field accepts *, numbers, names (JAN-DEC, SUN-SAT), ranges (1-5), lists (1,3) and steps (*/15, 9-17/2).
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  // 7 is accepted as Sunday, like most cron implementations.
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** When both day fields are restricted, a day matches if either one does. */
+  isDayOfMonthWildcard: boolean;
+  isDayOfWeekWildcard: boolean;
+}
+
+const parseCronValue = (text: string, field: CronField, expression: string): number => {
+  const nameIndex = field.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (field.name === 'month' ? 1 : 0) : Number(text);
+  if (!/^\w+$/.test(text) || !Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid cron expression "${expression}": "${text}" is not a valid ${field.name} (${field.min}-${field.max}).`);
+  }
+  return value;
+};
+
+const parseCronField = (text: string, field: CronField, expression: string): Set<number> => {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [rangeText, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": "${part}" has an invalid step.`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (rangeText !== '*') {
+      const [startText, endText] = rangeText.split('-');
+      start = parseCronValue(startText, field, expression);
+      end = endText !== undefined ? parseCronValue(endText, field, expression) : stepText !== undefined ? field.max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid cron expression "${expression}": the range "${rangeText}" is backwards.`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(field.name === 'day of week' ? value % 7 : value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Parses a five-field cron expression.
+ * @throws An Error with a readable explanation when the expression is invalid.
+ */
+const parseCronExpression = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week).`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, index) => parseCronField(text, CRON_FIELDS[index], expression));
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    isDayOfMonthWildcard: fields[2] === '*',
+    isDayOfWeekWildcard: fields[4] === '*',
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, localDate: string): boolean => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  if (!schedule.months.has(month)) return false;
+
+  const matchesDayOfMonth = schedule.daysOfMonth.has(day);
+  const matchesDayOfWeek = schedule.daysOfWeek.has(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+  if (schedule.isDayOfMonthWildcard) return matchesDayOfWeek;
+  if (schedule.isDayOfWeekWildcard) return matchesDayOfMonth;
+  return matchesDayOfMonth || matchesDayOfWeek;
+};
+
+/**
+ * The first time strictly after `after` that the cron expression fires, in `timeZone`.
+ * @throws An Error when the expression is invalid or never fires (e.g. February 31st).
+ */
+export const getNextCronTime = (expression: string, timeZone: string, after: Date): Date => {
+  const schedule = parseCronExpression(expression);
+  let localDate = getLocalDate(after, timeZone);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++, localDate = addDays(localDate, 1)) {
+    if (!matchesDay(schedule, localDate)) continue;
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const candidate = getScheduledTime(localDate, hour, minute, timeZone);
+        if (candidate.getTime() > after.getTime()) return candidate;
+      }
+    }
+  }
+  throw new Error(`Invalid cron expression "${expression}": it never fires.`);
+};
+
+/** Whether a scheduled time is too far in the past to still be worth running. */
+export const isMissedRun = (scheduledFor: Date, now: Date): boolean =>
+  now.getTime() - scheduledFor.getTime() > MISSED_RUN_GRACE_HOURS * HOUR_MS;
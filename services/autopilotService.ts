@@ -0,0 +1,353 @@
+import type { AutopilotJob, AutopilotRun, AutopilotRunStatus, ModelPreference } from '../types';
+import { getSupabaseClient } from './feedbackService';
+import { getNextCronTime } from './autopilotSchedule';
+
+const MAX_RUNS_SHOWN = 100;
+/** Failed attempts are retried after 5, 10, 20... minutes. */
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+/** A run still marked 'running' after this long belonged to a worker that died mid-run. */
+const STALE_RUN_TIMEOUT_MS = 30 * 60 * 1000;
+
+// --- Supabase Setup Instructions for the autopilot tables ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script, with policies).
+// Each row of autopilot_jobs is one named campaign.
+// The worker connects with the service role key, so it is not affected by row level security.
+/*
+   CREATE TABLE autopilot_jobs (
+     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     updated_at TIMESTAMPTZ DEFAULT NOW(),
+     name TEXT NOT NULL,
+     prompt TEXT NOT NULL,
+     inspiration_set_name TEXT NOT NULL DEFAULT '',
+     headline_count SMALLINT NOT NULL DEFAULT 0 CHECK (headline_count BETWEEN 0 AND 5),
+     cron_expression TEXT NOT NULL DEFAULT '0 8 * * *',
+     time_zone TEXT NOT NULL DEFAULT 'America/New_York',
+     meme_count SMALLINT NOT NULL DEFAULT 5 CHECK (meme_count BETWEEN 1 AND 10),
+     images_per_concept SMALLINT NOT NULL DEFAULT 1 CHECK (images_per_concept BETWEEN 1 AND 4),
+     text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro',
+     model_preference JSONB NOT NULL DEFAULT '{}',
+     recipients TEXT[] NOT NULL DEFAULT '{admin@kissmyfacenewyork.com}',
+     is_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+     max_attempts SMALLINT NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+     next_run_at TIMESTAMPTZ
+   );
+
+   CREATE TABLE autopilot_runs (
+     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+     job_id UUID NOT NULL REFERENCES autopilot_jobs(id) ON DELETE CASCADE,
+     scheduled_for TIMESTAMPTZ NOT NULL,
+     triggered_by TEXT NOT NULL DEFAULT 'schedule',
+     status TEXT NOT NULL DEFAULT 'pending',
+     attempt SMALLINT NOT NULL DEFAULT 0,
+     next_attempt_at TIMESTAMPTZ NOT NULL,
+     started_at TIMESTAMPTZ,
+     finished_at TIMESTAMPTZ,
+     error_message TEXT,
+     batch_id UUID,
+     email_sent_at TIMESTAMPTZ,
+     UNIQUE (job_id, scheduled_for)
+   );
+   -- Tables created before email_sent_at:
+   -- ALTER TABLE autopilot_runs ADD COLUMN IF NOT EXISTS email_sent_at TIMESTAMPTZ;
+*/
+
+/** A row of the autopilot_jobs table. Columns added by later upgrades may be null on old rows. */
+interface AutopilotJobRow {
+    id: string;
+    name: string;
+    prompt: string;
+    inspiration_set_name: string | null;
+    headline_count: number | null;
+    cron_expression: string;
+    time_zone: string;
+    meme_count: number;
+    images_per_concept: number | null;
+    text_model: string | null;
+    model_preference: ModelPreference | null;
+    recipients: string[] | null;
+    is_enabled: boolean;
+    max_attempts: number;
+    next_run_at: string | null;
+}
+
+/** A row of the autopilot_runs table. */
+interface AutopilotRunRow {
+    id: string;
+    job_id: string;
+    scheduled_for: string;
+    triggered_by: AutopilotRun['triggeredBy'];
+    status: AutopilotRunStatus;
+    attempt: number;
+    next_attempt_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+    error_message: string | null;
+    batch_id: string | null;
+    email_sent_at: string | null;
+}
+
+const toAutopilotJob = (row: AutopilotJobRow): AutopilotJob => ({
+    id: row.id,
+    name: row.name,
+    prompt: row.prompt,
+    inspirationSetName: row.inspiration_set_name ?? '',
+    headlineCount: row.headline_count ?? 0,
+    cronExpression: row.cron_expression,
+    timeZone: row.time_zone,
+    memeCount: row.meme_count,
+    imagesPerConcept: row.images_per_concept ?? 1,
+    textModel: row.text_model ?? 'gemini-2.5-pro',
+    modelPreference: row.model_preference ?? {},
+    recipients: row.recipients ?? [],
+    isEnabled: row.is_enabled,
+    maxAttempts: row.max_attempts,
+    nextRunAt: row.next_run_at ?? null,
+});
+
+const toAutopilotRun = (row: AutopilotRunRow): AutopilotRun => ({
+    id: row.id,
+    jobId: row.job_id,
+    scheduledFor: row.scheduled_for,
+    triggeredBy: row.triggered_by,
+    status: row.status,
+    attempt: row.attempt,
+    nextAttemptAt: row.next_attempt_at,
+    startedAt: row.started_at ?? undefined,
+    finishedAt: row.finished_at ?? undefined,
+    errorMessage: row.error_message ?? undefined,
+    batchId: row.batch_id ?? undefined,
+    emailSentAt: row.email_sent_at ?? undefined,
+});
+
+const throwAutopilotError = (action: string, error: { message: string }): never => {
+    console.error(`[Supabase] ${action} failed:`, JSON.stringify(error, null, 2));
+    if (error.message.includes('autopilot_') && (error.message.includes('does not exist') || error.message.includes('schema cache'))) {
+        throw new Error(`Failed to ${action.toLowerCase()}: The autopilot tables are missing or out of date. Please run the 'Autopilot Tables SQL' from the Admin panel.`);
+    }
+    throw new Error(`Failed to ${action.toLowerCase()}: ${error.message}`);
+};
+
+export const getAutopilotJobs = async (supabaseUrl: string, supabaseAnonKey: string): Promise<AutopilotJob[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('autopilot_jobs')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+    if (error) throwAutopilotError('Load autopilot campaigns', error);
+    return (data ?? []).map(toAutopilotJob);
+};
+
+/**
+ * Creates or updates a campaign. Its next run is recomputed from the cron expression,
+ * so an invalid expression is rejected here with a readable error.
+ */
+export const saveAutopilotJob = async (job: Omit<AutopilotJob, 'id' | 'nextRunAt'> & { id?: string }, supabaseUrl: string, supabaseAnonKey: string): Promise<AutopilotJob> => {
+    const nextRunAt = getNextCronTime(job.cronExpression, job.timeZone, new Date());
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('autopilot_jobs')
+        .upsert({
+            ...(job.id ? { id: job.id } : {}),
+            updated_at: new Date().toISOString(),
+            name: job.name,
+            prompt: job.prompt,
+            inspiration_set_name: job.inspirationSetName,
+            headline_count: job.headlineCount,
+            cron_expression: job.cronExpression,
+            time_zone: job.timeZone,
+            meme_count: job.memeCount,
+            images_per_concept: job.imagesPerConcept,
+            text_model: job.textModel,
+            model_preference: job.modelPreference,
+            recipients: job.recipients,
+            is_enabled: job.isEnabled,
+            max_attempts: job.maxAttempts,
+            next_run_at: job.isEnabled ? nextRunAt.toISOString() : null,
+        })
+        .select()
+        .single();
+
+    if (error) throwAutopilotError('Save autopilot campaign', error);
+    return toAutopilotJob(data);
+};
+
+export const deleteAutopilotJob = async (jobId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.from('autopilot_jobs').delete().eq('id', jobId);
+
+    if (error) throwAutopilotError('Delete autopilot campaign', error);
+};
+
+/**
+ * Queues an immediate run. The worker picks it up on its next poll, even if the campaign is paused.
+ */
+export const runAutopilotJobNow = async (jobId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const now = new Date().toISOString();
+    const { error } = await client
+        .from('autopilot_runs')
+        .insert({ job_id: jobId, scheduled_for: now, next_attempt_at: now, triggered_by: 'manual' });
+
+    if (error) throwAutopilotError('Queue autopilot run', error);
+};
+
+/**
+ * Most recent runs of the given campaigns, newest first.
+ */
+export const getAutopilotRuns = async (jobIds: string[], supabaseUrl: string, supabaseAnonKey: string, limit = MAX_RUNS_SHOWN): Promise<AutopilotRun[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('autopilot_runs')
+        .select('*')
+        .in('job_id', jobIds)
+        .order('scheduled_for', { ascending: false })
+        .limit(limit);
+
+    if (error) throwAutopilotError('Load autopilot runs', error);
+    return (data ?? []).map(toAutopilotRun);
+};
+
+// --- Worker operations ---
+
+/**
+ * Creates the scheduled run for a campaign's due time. The (job_id, scheduled_for) unique key
+ * makes this idempotent, so several workers (or a restarted one) never schedule the same run twice.
+ */
+export const enqueueAutopilotRun = async (job: AutopilotJob, scheduledFor: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('autopilot_runs')
+        .upsert(
+            { job_id: job.id, scheduled_for: scheduledFor, next_attempt_at: scheduledFor, triggered_by: 'schedule' },
+            { onConflict: 'job_id,scheduled_for', ignoreDuplicates: true }
+        );
+
+    if (error) throwAutopilotError('Schedule autopilot run', error);
+};
+
+/**
+ * Moves a campaign's next run past `now`. Only succeeds if no other worker advanced it first.
+ */
+export const advanceAutopilotJob = async (job: AutopilotJob, now: Date, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('autopilot_jobs')
+        .update({ next_run_at: getNextCronTime(job.cronExpression, job.timeZone, now).toISOString() })
+        .eq('id', job.id)
+        .eq('next_run_at', job.nextRunAt);
+
+    if (error) throwAutopilotError('Advance autopilot campaign', error);
+};
+
+/**
+ * Claims every run whose next attempt is due by moving it to 'running'.
+ * Each claim only succeeds if the row is unchanged since it was read, so a run is never executed twice at once.
+ */
+export const claimDueAutopilotRuns = async (supabaseUrl: string, supabaseAnonKey: string): Promise<AutopilotRun[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('autopilot_runs')
+        .select('*')
+        .in('status', ['pending', 'retrying'] satisfies AutopilotRunStatus[])
+        .lte('next_attempt_at', new Date().toISOString());
+
+    if (error) throwAutopilotError('Load due autopilot runs', error);
+
+    const claimed: AutopilotRun[] = [];
+    for (const run of (data ?? []).map(toAutopilotRun)) {
+        const { data: claimedRow, error: claimError } = await client
+            .from('autopilot_runs')
+            .update({ status: 'running', attempt: run.attempt + 1, started_at: new Date().toISOString(), error_message: null })
+            .eq('id', run.id)
+            .eq('status', run.status)
+            .eq('attempt', run.attempt)
+            .select()
+            .maybeSingle();
+
+        if (claimError) throwAutopilotError('Claim autopilot run', claimError);
+        if (claimedRow) claimed.push(toAutopilotRun(claimedRow));
+    }
+    return claimed;
+};
+
+/**
+ * Records that the run's approval email went out, before anything else can fail.
+ * Stale run recovery completes runs with this marker instead of retrying them, so reviewers never get the batch twice.
+ */
+export const markAutopilotRunEmailSent = async (run: AutopilotRun, batchId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('autopilot_runs')
+        .update({ batch_id: batchId, email_sent_at: new Date().toISOString() })
+        .eq('id', run.id);
+
+    if (error) throwAutopilotError('Record autopilot email', error);
+};
+
+export const completeAutopilotRun = async (run: AutopilotRun, batchId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('autopilot_runs')
+        .update({ status: 'succeeded', batch_id: batchId, finished_at: new Date().toISOString(), error_message: null })
+        .eq('id', run.id);
+
+    if (error) throwAutopilotError('Complete autopilot run', error);
+};
+
+/**
+ * Records a failed attempt and schedules a retry with exponential backoff,
+ * or marks the run as failed for good once the job's attempts are used up.
+ */
+export const failAutopilotRun = async (run: AutopilotRun, maxAttempts: number, errorMessage: string, supabaseUrl: string, supabaseAnonKey: string): Promise<AutopilotRunStatus> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const now = Date.now();
+    const canRetry = run.attempt < maxAttempts;
+    const status: AutopilotRunStatus = canRetry ? 'retrying' : 'failed';
+
+    const { error } = await client
+        .from('autopilot_runs')
+        .update({
+            status,
+            error_message: errorMessage,
+            finished_at: canRetry ? null : new Date(now).toISOString(),
+            next_attempt_at: new Date(now + RETRY_BASE_DELAY_MS * 2 ** (run.attempt - 1)).toISOString(),
+        })
+        .eq('id', run.id);
+
+    if (error) throwAutopilotError('Record autopilot failure', error);
+    return status;
+};
+
+/**
+ * Runs that have been 'running' for too long were abandoned by a crashed or restarted worker.
+ * They count as a failed attempt, so they are retried like any other failure, unless their email
+ * already went out: those are completed instead.
+ * `finishedRunIds` are runs the worker knows have finished but couldn't record yet; they are left alone.
+ */
+export const recoverStaleAutopilotRuns = async (
+    jobs: AutopilotJob[],
+    supabaseUrl: string,
+    supabaseAnonKey: string,
+    finishedRunIds: string[] = []
+): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('autopilot_runs')
+        .select('*')
+        .eq('status', 'running')
+        .lt('started_at', new Date(Date.now() - STALE_RUN_TIMEOUT_MS).toISOString());
+
+    if (error) throwAutopilotError('Load stale autopilot runs', error);
+
+    for (const run of (data ?? []).map(toAutopilotRun).filter(run => !finishedRunIds.includes(run.id))) {
+        if (run.emailSentAt && run.batchId) {
+            await completeAutopilotRun(run, run.batchId, supabaseUrl, supabaseAnonKey);
+            continue;
+        }
+        // Runs of a deleted campaign are not retried.
+        const maxAttempts = jobs.find(job => job.id === run.jobId)?.maxAttempts ?? run.attempt;
+        await failAutopilotRun(run, maxAttempts, 'The worker stopped before the run finished.', supabaseUrl, supabaseAnonKey);
+    }
+};
@@ -0,0 +1,84 @@
+import type { EmailActionPreview, EmailActionResult, GeneratedMeme } from '../types';
+import type { ApprovalEmailMeme } from './approvalEmail';
+import { uploadApprovalEmailImages } from './approvalEmail';
+import { getSupabaseClient } from './feedbackService';
+
+// Where the worker's API lives. Empty means the same origin (the dev server proxies /api to the worker).
+export const API_URL = process.env.API_URL ?? '';
+
+/**
+ * Sends an approval email through the worker's API, which holds the SMTP/SendGrid credentials.
+ * Images are uploaded first so the email links to them.
+ * @throws An Error with the reason when the email could not be delivered.
+ */
+export const sendApprovalEmail = async (
+    memes: GeneratedMeme[],
+    recipients: string[],
+    subject: string,
+    supabaseUrl: string,
+    supabaseAnonKey: string
+): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data: { session } } = await client.auth.getSession();
+    if (!session) {
+        throw new Error("Please sign in as an admin to send approval emails.");
+    }
+
+    const hostedMemes = await uploadApprovalEmailImages(memes, supabaseUrl, supabaseAnonKey);
+    const payload: ApprovalEmailMeme[] = hostedMemes.map(({ id, templateId, slots, topText, bottomText, imageUrl, altText, modelUsed, batchId, moderation }) =>
+        ({ id, templateId, slots, topText, bottomText, imageUrl, altText, modelUsed, batchId, moderation }));
+
+    let response: Response;
+    try {
+        response = await fetch(`${API_URL}/api/approval-email`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${session.access_token}`,
+            },
+            body: JSON.stringify({ memes: payload, recipients, subject }),
+        });
+    } catch (error) {
+        console.error("[Email] Could not reach the email API:", error);
+        throw new Error("Could not reach the email server. Make sure the worker is running (see the README).");
+    }
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(`Could not send the approval email: ${body?.error ?? `the email server responded with ${response.status}.`}`);
+    }
+};
+
+/** Calls the worker's email link API and unwraps its JSON answer. */
+const fetchEmailAction = async <T>(init?: RequestInit, query: string = ''): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${API_URL}/api/email-action${query}`, init);
+    } catch (error) {
+        console.error("[Email] Could not reach the email API:", error);
+        throw new Error("Could not reach the server. Please try again in a moment.");
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(body?.error ?? `The server responded with ${response.status}.`);
+    }
+    return body as T;
+};
+
+/**
+ * Checks an approval email link without using it, and returns the meme it acts on.
+ * @throws An Error explaining why the link can't be used (expired, already used, ...).
+ */
+export const getEmailAction = (token: string): Promise<EmailActionPreview> =>
+    fetchEmailAction<EmailActionPreview>(undefined, `?token=${encodeURIComponent(token)}`);
+
+/**
+ * Uses an approval email link. Approving needs the finished meme image, since captions are rendered in the browser.
+ */
+export const performEmailAction = (token: string, compositedImageUrl?: string): Promise<EmailActionResult> =>
+    fetchEmailAction<EmailActionResult>({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, compositedImageUrl }),
+    });
@@ -0,0 +1,117 @@
+import { GoogleGenAI } from "@google/genai";
+import type { FewShotExample, MemeConcept } from '../types';
+
+// Picks the few-shot examples for a batch: the approved memes closest in meaning to the headline or
+// prompt, found by comparing Gemini embeddings. The ranking uses maximal marginal relevance, so a
+// near-duplicate of an example that was already picked loses out to something a bit different.
+//
+// Embeddings are stored with each approved meme in a pgvector column and searched in Postgres (see
+// services/feedbackService.ts). Without pgvector, recent approved memes are embedded here and kept
+// in an in-memory index instead.
+
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+/** Must match the size of the `embedding` column. */
+export const EMBEDDING_DIMENSIONS = 768;
+/** The embeddings API takes at most this many texts per request. */
+const MAX_TEXTS_PER_REQUEST = 100;
+/** 1 ranks by relevance only, 0 by diversity only. */
+const RELEVANCE_WEIGHT = 0.7;
+
+type EmbeddingTaskType = 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT';
+
+/** An approved meme that may be used as an example, with its embedding. */
+export interface ExampleCandidate {
+  id: string;
+  example: FewShotExample;
+  embedding: number[];
+}
+
+/** Everything the model would "read" in a meme: its captions and image prompts. */
+export const getMemeEmbeddingText = (concept: MemeConcept): string =>
+  Array.from(new Set([concept.topText, concept.bottomText, ...concept.slots.map(slot => slot.value), concept.imagePrompt]))
+    .filter(text => text.trim())
+    .join('\n');
+
+/** Embeds each text, in order. */
+export const embedTexts = async (texts: string[], taskType: EmbeddingTaskType): Promise<number[][]> => {
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += MAX_TEXTS_PER_REQUEST) {
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts.slice(start, start + MAX_TEXTS_PER_REQUEST),
+      config: { taskType, outputDimensionality: EMBEDDING_DIMENSIONS },
+    });
+    for (const embedding of response.embeddings ?? []) {
+      if (!embedding.values) throw new Error('The embeddings API returned an empty embedding.');
+      embeddings.push(embedding.values);
+    }
+  }
+  if (embeddings.length !== texts.length) {
+    throw new Error(`Expected ${texts.length} embeddings but got ${embeddings.length}.`);
+  }
+  return embeddings;
+};
+
+/** pgvector columns come back from PostgREST as text, e.g. '[0.1,0.2]'. */
+export const parseEmbedding = (value: unknown): number[] | null => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.startsWith('[')) return JSON.parse(value);
+  return null;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Picks `count` candidates by maximal marginal relevance: each pick maximizes its similarity to
+ * the query minus its similarity to the closest example already picked.
+ * The returned examples carry their similarity to the query.
+ */
+export const selectRelevantExamples = (queryEmbedding: number[], candidates: ExampleCandidate[], count: number): FewShotExample[] => {
+  const remaining = candidates.map(candidate => ({ ...candidate, similarity: cosineSimilarity(queryEmbedding, candidate.embedding) }));
+  const selected: typeof remaining = [];
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const redundancy = Math.max(0, ...selected.map(s => cosineSimilarity(candidate.embedding, s.embedding)));
+      const score = RELEVANCE_WEIGHT * candidate.similarity - (1 - RELEVANCE_WEIGHT) * redundancy;
+      if (score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+    selected.push(...remaining.splice(bestIndex, 1));
+  }
+
+  return selected.map(({ example, similarity }) => ({ ...example, similarity }));
+};
+
+// The fallback index: embeddings of approved memes by id. Approved memes never change their text,
+// so entries stay valid for the life of the page (or worker process).
+const localIndex = new Map<string, number[]>();
+
+/**
+ * Embeds whichever of the memes aren't in the local index yet, then returns them all as candidates.
+ */
+export const getLocalExampleCandidates = async (memes: { id: string; example: FewShotExample }[]): Promise<ExampleCandidate[]> => {
+  const missing = memes.filter(meme => !localIndex.has(meme.id));
+  if (missing.length > 0) {
+    const embeddings = await embedTexts(missing.map(meme => getMemeEmbeddingText(meme.example)), 'RETRIEVAL_DOCUMENT');
+    missing.forEach((meme, index) => localIndex.set(meme.id, embeddings[index]));
+    console.log(`[Examples] Added ${missing.length} approved memes to the local example index.`);
+  }
+  return memes.map(meme => ({ ...meme, embedding: localIndex.get(meme.id)! }));
+};
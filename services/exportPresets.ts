@@ -0,0 +1,118 @@
+import { MIN_CAPTION_PADDING_RATIO, createCanvas, loadImage } from './memeCompositor';
+
+// Exports finished memes at each platform's size, optionally with the KMFNY watermark.
+// Memes are cropped when that loses only a sliver of the picture, and padded otherwise, so captions are never cut off.
+
+export type ExportPresetId = 'instagram-square' | 'instagram-portrait' | 'story' | 'x' | 'open-graph';
+
+export interface ExportPreset {
+  id: ExportPresetId;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'instagram-square', label: 'Instagram feed (square)', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', label: 'Instagram feed (portrait)', width: 1080, height: 1350 },
+  { id: 'story', label: 'Story / Reel', width: 1080, height: 1920 },
+  { id: 'x', label: 'X', width: 1600, height: 900 },
+  { id: 'open-graph', label: 'Open Graph', width: 1200, height: 630 },
+];
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export const WATERMARK_POSITIONS: { id: WatermarkPosition; label: string }[] = [
+  { id: 'top-left', label: 'Top left' },
+  { id: 'top-right', label: 'Top right' },
+  { id: 'bottom-left', label: 'Bottom left' },
+  { id: 'bottom-right', label: 'Bottom right' },
+];
+
+export interface WatermarkOptions {
+  isEnabled: boolean;
+  position: WatermarkPosition;
+  /** From 0 (invisible) to 1 (opaque). */
+  opacity: number;
+}
+
+export const DEFAULT_WATERMARK: WatermarkOptions = { isEnabled: true, position: 'bottom-right', opacity: 0.7 };
+
+/**
+ * The most of the meme's width or height a preset may crop away. Beyond that, the meme is padded instead.
+ * Half of it goes from each side, which stays within the captions' padding.
+ */
+const MAX_CROP_RATIO = MIN_CAPTION_PADDING_RATIO;
+const PADDING_BLUR_PX = 40;
+const WATERMARK_TEXT = 'KMFNY';
+const WATERMARK_FONT_FAMILY = 'Impact, Anton, "Arial Black", "Helvetica Neue", sans-serif';
+const WATERMARK_SIZE_RATIO = 0.05; // of the shorter side
+const WATERMARK_MARGIN_RATIO = 0.03;
+const JPEG_QUALITY = 0.92;
+
+/** Draws the image scaled by `scale` around the center of the canvas. */
+const drawCentered = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number, scale: number) => {
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/** The whole meme, centered on a blurred, darkened copy of itself. */
+const drawPadded = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, width, height);
+  ctx.save();
+  ctx.filter = `blur(${PADDING_BLUR_PX}px) brightness(0.5)`;
+  drawCentered(ctx, image, width, height, Math.max(width / image.naturalWidth, height / image.naturalHeight) * 1.1);
+  ctx.restore();
+  drawCentered(ctx, image, width, height, Math.min(width / image.naturalWidth, height / image.naturalHeight));
+};
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number, { position, opacity }: WatermarkOptions) => {
+  const fontSize = Math.round(Math.min(width, height) * WATERMARK_SIZE_RATIO);
+  const margin = Math.round(Math.min(width, height) * WATERMARK_MARGIN_RATIO);
+  ctx.save();
+  ctx.globalAlpha = Math.min(Math.max(opacity, 0), 1);
+  ctx.font = `900 ${fontSize}px ${WATERMARK_FONT_FAMILY}`;
+  ctx.textBaseline = position.startsWith('top') ? 'top' : 'bottom';
+  ctx.textAlign = position.endsWith('left') ? 'left' : 'right';
+  const x = position.endsWith('left') ? margin : width - margin;
+  const y = position.startsWith('top') ? margin : height - margin;
+
+  // The site's pink-to-cyan gradient, outlined so it reads on light and dark images alike.
+  const textWidth = ctx.measureText(WATERMARK_TEXT).width;
+  const left = ctx.textAlign === 'left' ? x : x - textWidth;
+  const gradient = ctx.createLinearGradient(left, 0, left + textWidth, 0);
+  gradient.addColorStop(0, '#ec4899');
+  gradient.addColorStop(1, '#22d3ee');
+  ctx.lineWidth = Math.max(2, fontSize * 0.12);
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.strokeText(WATERMARK_TEXT, x, y);
+  ctx.fillStyle = gradient;
+  ctx.fillText(WATERMARK_TEXT, x, y);
+  ctx.restore();
+};
+
+/**
+ * Renders a finished meme (captions already baked in) at the preset's size.
+ * @returns A JPEG data URL.
+ */
+export const renderExportImage = async (src: string, preset: ExportPreset, watermark: WatermarkOptions): Promise<string> => {
+  const image = await loadImage(src);
+  const { canvas, ctx } = createCanvas(preset.width, preset.height);
+
+  const imageRatio = image.naturalWidth / image.naturalHeight;
+  const presetRatio = preset.width / preset.height;
+  const cropRatio = 1 - Math.min(imageRatio, presetRatio) / Math.max(imageRatio, presetRatio);
+  if (cropRatio <= MAX_CROP_RATIO) {
+    drawCentered(ctx, image, preset.width, preset.height, Math.max(preset.width / image.naturalWidth, preset.height / image.naturalHeight));
+  } else {
+    drawPadded(ctx, image, preset.width, preset.height);
+  }
+
+  if (watermark.isEnabled) {
+    drawWatermark(ctx, preset.width, preset.height, watermark);
+  }
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
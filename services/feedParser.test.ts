@@ -0,0 +1,78 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { getHeadlineDedupeKey, parseFeed } from './feedParser';
+
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./__fixtures__/feeds/${name}`, import.meta.url), 'utf8');
+
+describe('parseFeed', () => {
+  it('reads RSS 2.0 items, unwrapping CDATA and decoding entities', () => {
+    expect(parseFeed(readFixture('rss2.xml'))).toEqual([
+      {
+        title: 'Subway delays & a rat named "Pizza"',
+        link: 'https://gothamist.com/news/pizza-rat-returns',
+        publishedAt: '2026-10-12T14:30:00.000Z',
+      },
+      {
+        title: 'Mayor’s bike lane plan & the “war on cars”',
+        link: 'https://gothamist.com/news/bike-lanes',
+        publishedAt: '2026-10-11T13:00:00.000Z',
+      },
+      {
+        title: 'Drag brunch ban fails again',
+        link: 'https://gothamist.com/news/drag-brunch',
+        publishedAt: null,
+      },
+    ]);
+  });
+
+  it('reads RSS 1.0 (RDF) items with Dublin Core dates', () => {
+    expect(parseFeed(readFixture('rss1.xml'))).toEqual([
+      {
+        title: 'Coney Island\'s Cyclone turns 100',
+        link: 'https://example.org/coney-island',
+        publishedAt: '2026-10-10T18:00:00.000Z',
+      },
+      {
+        title: 'Gowanus canal glows green',
+        link: 'https://example.org/gowanus',
+        publishedAt: null,
+      },
+    ]);
+  });
+
+  it('reads Atom entries, preferring the rel="alternate" link and the published date', () => {
+    expect(parseFeed(readFixture('atom.xml'))).toEqual([
+      {
+        title: 'Pride parade route & times',
+        link: 'https://example.com/pride-route?utm=feed&ref=atom',
+        publishedAt: '2026-06-28T12:00:00.000Z',
+      },
+      {
+        title: 'Ballroom legends honored',
+        link: 'https://example.com/ballroom',
+        publishedAt: '2026-06-27T18:15:00.000Z',
+      },
+      {
+        title: 'Undated entry',
+        link: 'https://example.com/related',
+        publishedAt: null,
+      },
+    ]);
+  });
+
+  it('rejects documents that are not feeds', () => {
+    expect(() => parseFeed('<!DOCTYPE html><html><body>Not a feed</body></html>')).toThrow('This is not an RSS or Atom feed.');
+  });
+});
+
+describe('getHeadlineDedupeKey', () => {
+  it('ignores case, punctuation, accents and spacing', () => {
+    expect(getHeadlineDedupeKey('  Café  Owner SUES the City!!! ')).toBe('cafe owner sues the city');
+    expect(getHeadlineDedupeKey('Cafe owner sues the city')).toBe(getHeadlineDedupeKey('Café owner — sues the city.'));
+  });
+
+  it('keeps headlines that differ in their words apart', () => {
+    expect(getHeadlineDedupeKey('Mayor wins')).not.toBe(getHeadlineDedupeKey('Mayor loses'));
+  });
+});
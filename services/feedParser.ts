@@ -0,0 +1,92 @@
+// Pure RSS 2.0 / RSS 1.0 (RDF) / Atom parsing for the headline inbox, used by the worker.
+// Feeds are parsed with regular expressions instead of a full XML parser: only titles, links and dates are
+// needed, and the worker has no DOMParser.
+
+export interface ParsedFeedItem {
+  title: string;
+  link: string;
+  /** ISO timestamp, or null when the feed gives no (readable) date. */
+  publishedAt: string | null;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/** Plain text of the first <tag> in the XML: CDATA unwrapped, entities decoded, markup removed. */
+const getElementText = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  if (!match) return null;
+  const content = match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  // Titles may be escaped HTML (Atom's type="html"), so markup is stripped and entities decoded once more.
+  const withoutMarkup = decodeEntities(content.replace(/<[^>]*>/g, '')).replace(/<[^>]*>/g, '');
+  return decodeEntities(withoutMarkup).replace(/\s+/g, ' ').trim();
+};
+
+const getAttribute = (tag: string, name: string): string | null =>
+  tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'))?.slice(2).find(value => value !== undefined) ?? null;
+
+/** Atom entries link to the article with rel="alternate", or with no rel at all. */
+const getAtomLink = (entry: string): string => {
+  const links = entry.match(/<link\b[^>]*>/gi) ?? [];
+  const alternate = links.find(link => (getAttribute(link, 'rel') ?? 'alternate') === 'alternate');
+  return decodeEntities(getAttribute(alternate ?? links[0] ?? '', 'href') ?? '');
+};
+
+const toIsoDate = (text: string | null): string | null => {
+  if (!text) return null;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const parseRssItem = (item: string): ParsedFeedItem => {
+  const guid = getElementText(item, 'guid') ?? '';
+  return {
+    title: getElementText(item, 'title') ?? '',
+    link: getElementText(item, 'link') || (/^https?:\/\//.test(guid) ? guid : ''),
+    publishedAt: toIsoDate(getElementText(item, 'pubDate') ?? getElementText(item, 'dc:date')),
+  };
+};
+
+const parseAtomEntry = (entry: string): ParsedFeedItem => ({
+  title: getElementText(entry, 'title') ?? '',
+  link: getAtomLink(entry),
+  publishedAt: toIsoDate(getElementText(entry, 'published') ?? getElementText(entry, 'updated')),
+});
+
+/**
+ * Reads the items of an RSS or Atom document, in feed order. Items without a title are skipped.
+ * @throws An Error when the document isn't a feed (e.g. an HTML page).
+ */
+export const parseFeed = (xml: string): ParsedFeedItem[] => {
+  if (!/<(rss|feed|rdf:RDF)[\s>]/i.test(xml)) {
+    throw new Error('This is not an RSS or Atom feed.');
+  }
+  const rssItems = xml.match(/<item[\s>][\s\S]*?<\/item>/gi) ?? [];
+  const atomEntries = xml.match(/<entry[\s>][\s\S]*?<\/entry>/gi) ?? [];
+  return [...rssItems.map(parseRssItem), ...atomEntries.map(parseAtomEntry)].filter(item => item.title);
+};
+
+/**
+ * Headlines are deduplicated by this key, so the same story from two outlets, or with different
+ * punctuation or accents, lands in the inbox once.
+ */
+export const getHeadlineDedupeKey = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
@@ -1,7 +1,22 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import type { ApprovedMemeConcept, GeneratedMeme } from '../types';
+import { composeMemeImage } from './memeCompositor';
+import { getImageSlots, normalizeMemeConcept } from './memeTemplates';
+import { embedTexts, getLocalExampleCandidates, getMemeEmbeddingText, parseEmbedding, selectRelevantExamples } from './exampleRetrieval';
+import type { ExampleCandidate } from './exampleRetrieval';
+import type { ApprovedMeme, FewShotExample, GalleryOrdering, GeneratedMeme, ImageProviderId, MemeSlotValue, SocialCopySet, SocialPlatformId } from '../types';
 
 const MAX_EXAMPLES = 10; // Increased for better fine-tuning with a real DB
+/** How many of the closest memes the diversity ranking chooses the examples from. */
+const MAX_EXAMPLE_CANDIDATES = 40;
+/** Without pgvector, this many recent memes are embedded locally and searched. */
+const LOCAL_INDEX_SIZE = 200;
+/** Memes approved before embeddings existed get embedded this many at a time, on each generation. */
+const EMBEDDING_BACKFILL_SIZE = 20;
+const EXAMPLE_COLUMNS = 'id, top_text, bottom_text, image_prompt, model_used, template_id, slots';
+export const GALLERY_PAGE_SIZE = 12;
+/** Archive exports are built in the browser, so one export holds at most this many memes. */
+export const MAX_ARCHIVE_MEMES = 500;
+const APPROVED_MEME_COLUMNS = 'id, created_at, top_text, bottom_text, image_prompt, model_used, template_id, slots, image_url, original_image_url, alt_text, social_copy, is_featured, social_post_urls';
 
 // --- Supabase Setup Instructions for the user ---
 // 1. Create a Supabase project.
@@ -15,9 +30,34 @@ const MAX_EXAMPLES = 10; // Increased for better fine-tuning with a real DB
      bottom_text TEXT NOT NULL,
      image_prompt TEXT NOT NULL,
      model_used TEXT NOT NULL,
-     image_url TEXT NOT NULL
+     image_url TEXT NOT NULL,
+     original_image_url TEXT,
+     template_id TEXT NOT NULL DEFAULT 'classic',
+     slots JSONB NOT NULL DEFAULT '[]',
+     slot_image_urls JSONB NOT NULL DEFAULT '{}',
+     alt_text TEXT NOT NULL DEFAULT '',
+     social_copy JSONB NOT NULL DEFAULT '{}',
+     is_featured BOOLEAN NOT NULL DEFAULT FALSE,
+     social_post_urls JSONB NOT NULL DEFAULT '{}'
    );
 */
+// 4. To pick examples by relevance, enable pgvector and add the embedding column and search function
+//    (the 'Example Search SQL' in the admin panel). Without it, examples are searched in a local index.
+/*
+   CREATE EXTENSION IF NOT EXISTS vector;
+   ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS embedding vector(768);
+   CREATE INDEX IF NOT EXISTS approved_memes_embedding_idx ON approved_memes USING hnsw (embedding vector_cosine_ops);
+
+   CREATE OR REPLACE FUNCTION match_approved_memes(query_embedding vector(768), match_count INT)
+   RETURNS TABLE (id UUID, top_text TEXT, bottom_text TEXT, image_prompt TEXT, model_used TEXT, template_id TEXT, slots JSONB, embedding vector(768))
+   LANGUAGE sql STABLE AS $$
+     SELECT id, top_text, bottom_text, image_prompt, model_used, template_id, slots, embedding
+     FROM approved_memes
+     WHERE embedding IS NOT NULL
+     ORDER BY embedding <=> query_embedding
+     LIMIT match_count;
+   $$;
+*/
 
 // Use a singleton pattern for the client to avoid creating multiple connections.
 let supabase: SupabaseClient | null = null;
@@ -25,7 +65,7 @@ let supabase: SupabaseClient | null = null;
 let currentSupabaseUrl: string | null = null;
 let currentSupabaseKey: string | null = null;
 
-const getSupabaseClient = (url: string, key: string): SupabaseClient => {
+export const getSupabaseClient = (url: string, key: string): SupabaseClient => {
     if (!url || !key) {
         throw new Error("Supabase URL and Anon Key are required.");
     }
@@ -113,10 +153,101 @@ export const verifySupabaseConnection = async (supabaseUrl: string, supabaseAnon
 };
 
 
+/** The EXAMPLE_COLUMNS of an approved_memes row. */
+interface ExampleRow {
+    id: string;
+    top_text: string;
+    bottom_text: string;
+    image_prompt: string;
+    model_used: string;
+    template_id: string;
+    slots: MemeSlotValue[];
+}
+
+/** A row returned by match_approved_memes. pgvector sends the embedding as a string. */
+interface MatchedExampleRow extends ExampleRow {
+    embedding: string;
+}
+
+const toFewShotExample = (item: ExampleRow): FewShotExample => ({
+    ...normalizeMemeConcept({
+        templateId: item.template_id,
+        slots: item.slots,
+        topText: item.top_text,
+        bottomText: item.bottom_text,
+        imagePrompt: item.image_prompt,
+    }),
+    modelUsed: item.model_used as ImageProviderId,
+});
+
 /**
- * Retrieves the list of approved meme concepts from the Supabase backend.
+ * Embeds a few approved memes that have no embedding yet and stores them.
+ * Returns them as candidates so they can be used straight away.
  */
-export const getApprovedMemes = async (supabaseUrl: string, supabaseAnonKey: string): Promise<ApprovedMemeConcept[]> => {
+const backfillMemeEmbeddings = async (client: SupabaseClient): Promise<ExampleCandidate[]> => {
+    const { data, error } = await client
+        .from('approved_memes')
+        .select(EXAMPLE_COLUMNS)
+        .is('embedding', null)
+        .limit(EMBEDDING_BACKFILL_SIZE);
+
+    if (error) throw error;
+    if (data.length === 0) return [];
+
+    const examples = data.map(toFewShotExample);
+    const embeddings = await embedTexts(examples.map(getMemeEmbeddingText), 'RETRIEVAL_DOCUMENT');
+    for (const [index, item] of data.entries()) {
+        const { error: updateError } = await client
+            .from('approved_memes')
+            .update({ embedding: embeddings[index] })
+            .eq('id', item.id);
+        if (updateError) throw updateError;
+    }
+    console.log(`[Supabase] Stored embeddings for ${data.length} older approved memes.`);
+    return data.map((item, index) => ({ id: item.id, example: examples[index], embedding: embeddings[index] }));
+};
+
+/**
+ * Finds the approved memes closest in meaning to the query with pgvector, or with the local index
+ * when the 'Example Search SQL' hasn't been run, then picks a varied set among them.
+ */
+const getRelevantExamples = async (client: SupabaseClient, query: string): Promise<FewShotExample[]> => {
+    const [queryEmbedding] = await embedTexts([query], 'RETRIEVAL_QUERY');
+
+    const { data, error } = await client.rpc('match_approved_memes', {
+        query_embedding: queryEmbedding,
+        match_count: MAX_EXAMPLE_CANDIDATES,
+    });
+
+    let candidates: ExampleCandidate[];
+    if (!error) {
+        candidates = (data as MatchedExampleRow[]).map(item => ({ id: item.id, example: toFewShotExample(item), embedding: parseEmbedding(item.embedding)! }));
+        try {
+            candidates.push(...await backfillMemeEmbeddings(client));
+        } catch (backfillError) {
+            console.warn("[Supabase] Could not store embeddings for older approved memes:", backfillError);
+        }
+    } else {
+        console.warn("[Supabase] Vector search is unavailable, using the local example index:", error.message);
+        const { data: recent, error: recentError } = await client
+            .from('approved_memes')
+            .select(EXAMPLE_COLUMNS)
+            .order('created_at', { ascending: false })
+            .limit(LOCAL_INDEX_SIZE);
+
+        if (recentError) throw recentError;
+        candidates = await getLocalExampleCandidates(recent.map(item => ({ id: item.id, example: toFewShotExample(item) })));
+    }
+
+    return selectRelevantExamples(queryEmbedding, candidates, MAX_EXAMPLES);
+};
+
+/**
+ * Retrieves approved meme concepts from the Supabase backend to use as few-shot examples.
+ * With a query (the headline or prompt), returns the memes most related to it, with some variety mixed in.
+ * Without one, or when embeddings are unavailable, returns the most recent memes.
+ */
+export const getApprovedMemes = async (supabaseUrl: string, supabaseAnonKey: string, query: string = ''): Promise<FewShotExample[]> => {
     if (!supabaseUrl || !supabaseAnonKey) {
         console.warn("Supabase not configured. Cannot fetch fine-tuning examples.");
         return [];
@@ -124,21 +255,29 @@ export const getApprovedMemes = async (supabaseUrl: string, supabaseAnonKey: str
     
     try {
         const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+
+        if (query.trim()) {
+            try {
+                const examples = await getRelevantExamples(client, query.trim());
+                if (examples.length > 0) {
+                    console.log(`[Supabase] Found ${examples.length} approved memes related to the prompt for fine-tuning.`);
+                    return examples;
+                }
+            } catch (error) {
+                console.warn("[Supabase] Could not pick related examples, using the most recent ones:", error);
+            }
+        }
+
         const { data, error } = await client
             .from('approved_memes')
-            .select('top_text, bottom_text, image_prompt, model_used')
+            .select(EXAMPLE_COLUMNS)
             .order('created_at', { ascending: false })
             .limit(MAX_EXAMPLES);
 
         if (error) throw error;
 
         // Map Supabase snake_case to our camelCase type
-        const concepts = data.map(item => ({
-            topText: item.top_text,
-            bottomText: item.bottom_text,
-            imagePrompt: item.image_prompt,
-            modelUsed: item.model_used as 'gemini' | 'dalle',
-        }));
+        const concepts = data.map(toFewShotExample);
         
         console.log(`[Supabase] Found ${concepts.length} approved memes for fine-tuning.`);
         return concepts;
@@ -149,18 +288,33 @@ export const getApprovedMemes = async (supabaseUrl: string, supabaseAnonKey: str
     }
 };
 
+const FILE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpeg',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+};
+
+// Generated images are data URLs; images reopened from history already live in storage and are fetched.
+const toImageBlob = async (imageUrl: string): Promise<Blob> => {
+    if (imageUrl.startsWith('data:')) {
+        const mimeType = imageUrl.substring('data:'.length, imageUrl.indexOf(';'));
+        return base64ToBlob(imageUrl, mimeType);
+    }
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image for upload (status ${response.status}).`);
+    }
+    return response.blob();
+};
+
 /**
- * Saves a new approved meme to the Supabase backend.
+ * Uploads an image (data URL or remote URL) to the 'memes' bucket and returns its public URL.
+ * @param fileName The path inside the bucket's public folder, without an extension.
  */
-export const addApprovedMeme = async (newMeme: GeneratedMeme, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
-    console.log(`[Supabase] Received request to save meme ${newMeme.id}.`);
-    
-    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
-    
-    // 1. Upload Image to Supabase Storage
-    const mimeType = newMeme.imageUrl.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
-    const imageBlob = base64ToBlob(newMeme.imageUrl, mimeType);
-    const filePath = `public/${newMeme.id}.${mimeType.split('/')[1]}`;
+export const uploadMemeImage = async (client: SupabaseClient, imageUrl: string, fileName: string): Promise<string> => {
+    const imageBlob = await toImageBlob(imageUrl);
+    const filePath = `public/${fileName}.${FILE_EXTENSIONS[imageBlob.type] ?? 'png'}`;
 
     const { error: uploadError } = await client.storage
         .from('memes')
@@ -175,7 +329,7 @@ export const addApprovedMeme = async (newMeme: GeneratedMeme, supabaseUrl: strin
         
         // Specific check for Row-Level Security policy errors
         if (errorMessage.includes("security policy") || errorMessage.includes("violates row-level security")) {
-            throw new Error("Failed to upload image: Supabase storage is blocking the upload due to a missing or incomplete security policy. Please run the full 'Storage Policy SQL' from the Admin panel, which must include INSERT, UPDATE, and SELECT permissions.");
+            throw new Error("Failed to upload image: Supabase storage is blocking the upload due to a missing or incomplete security policy. Please run the full 'Storage Policy SQL' from the Admin panel, which must include INSERT, UPDATE, and SELECT permissions. If you ran the 'Auth & Roles SQL', make sure you're signed in as an admin.");
         }
         
         if (errorMessage.includes("not found")) {
@@ -184,12 +338,38 @@ export const addApprovedMeme = async (newMeme: GeneratedMeme, supabaseUrl: strin
         throw new Error("Failed to upload meme image to the backend.");
     }
 
-    // 2. Get Public URL for the uploaded image
     const { data: urlData } = client.storage
         .from('memes')
         .getPublicUrl(filePath);
     
-    const publicImageUrl = urlData.publicUrl;
+    return urlData.publicUrl;
+};
+
+/**
+ * Saves a new approved meme to the Supabase backend.
+ * The captions are baked into the uploaded image; the text-free original is stored next to it for re-editing.
+ */
+export const addApprovedMeme = async (newMeme: GeneratedMeme, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    console.log(`[Supabase] Received request to save meme ${newMeme.id}.`);
+    
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+
+    // 1. Render the captions onto the image
+    const compositedImageUrl = newMeme.compositedImageUrl
+        ?? await composeMemeImage(newMeme);
+
+    // 2. Upload the finished meme and the text-free originals to Supabase Storage
+    const publicImageUrl = await uploadMemeImage(client, compositedImageUrl, newMeme.id);
+    const publicOriginalImageUrl = await uploadMemeImage(client, newMeme.imageUrl, `${newMeme.id}-original`);
+
+    // Templates with several images keep each panel's original too. The first slot is the original above.
+    const publicSlotImageUrls: Record<string, string> = {};
+    for (const [index, slot] of getImageSlots(newMeme.templateId).entries()) {
+        const slotImageUrl = newMeme.slotImageUrls?.[slot.id];
+        publicSlotImageUrls[slot.id] = index === 0 || !slotImageUrl
+            ? publicOriginalImageUrl
+            : await uploadMemeImage(client, slotImageUrl, `${newMeme.id}-${slot.id}`);
+    }
 
     // 3. Insert Meme Metadata into Supabase Table
     const { error: insertError } = await client
@@ -201,6 +381,12 @@ export const addApprovedMeme = async (newMeme: GeneratedMeme, supabaseUrl: strin
             image_prompt: newMeme.imagePrompt,
             model_used: newMeme.modelUsed,
             image_url: publicImageUrl,
+            original_image_url: publicOriginalImageUrl,
+            template_id: newMeme.templateId,
+            slots: newMeme.slots,
+            slot_image_urls: publicSlotImageUrls,
+            alt_text: newMeme.altText,
+            social_copy: newMeme.socialCopy ?? {},
         });
     
     if (insertError) {
@@ -209,31 +395,134 @@ export const addApprovedMeme = async (newMeme: GeneratedMeme, supabaseUrl: strin
         
         // Check for common RLS policy error on the table itself
         if (errorMessage.includes("security policy for table") || errorMessage.includes("violates row-level security")) {
-            throw new Error("Failed to save metadata: The 'approved_memes' table is blocking the action due to a missing security policy. Please run the full 'Table Policy SQL' from the Admin panel.");
+            throw new Error("Failed to save metadata: The 'approved_memes' table is blocking the action due to a missing security policy. Please run the full 'Table Policy SQL' from the Admin panel. If you ran the 'Auth & Roles SQL', make sure you're signed in as an admin.");
         }
 
         throw new Error(`Failed to save meme metadata: ${insertError.message}`);
     }
+
+    // 4. Store the embedding used to find related examples. Memes without one are backfilled later.
+    try {
+        const [embedding] = await embedTexts([getMemeEmbeddingText(newMeme)], 'RETRIEVAL_DOCUMENT');
+        const { error: embeddingError } = await client
+            .from('approved_memes')
+            .update({ embedding })
+            .eq('id', newMeme.id);
+        if (embeddingError) throw embeddingError;
+    } catch (error) {
+        console.warn(`[Supabase] Meme ${newMeme.id} was saved without an embedding:`, error);
+    }
     
     console.log(`[Supabase] Meme ${newMeme.id} saved successfully.`);
 };
 
 
+/** The APPROVED_MEME_COLUMNS of an approved_memes row. */
+interface ApprovedMemeRow extends ExampleRow {
+    created_at: string;
+    image_url: string;
+    original_image_url: string | null;
+    alt_text: string;
+    social_copy: SocialCopySet;
+    is_featured: boolean;
+    social_post_urls: Record<SocialPlatformId, string>;
+}
+
+// Map Supabase snake_case to our camelCase type
+const toApprovedMeme = (item: ApprovedMemeRow): ApprovedMeme => ({
+    ...normalizeMemeConcept({
+        templateId: item.template_id,
+        slots: item.slots,
+        topText: item.top_text,
+        bottomText: item.bottom_text,
+        imagePrompt: item.image_prompt,
+    }),
+    id: item.id,
+    createdAt: item.created_at,
+    modelUsed: item.model_used as ImageProviderId,
+    imageUrl: item.image_url,
+    originalImageUrl: item.original_image_url,
+    altText: item.alt_text,
+    isFeatured: item.is_featured,
+    socialPostUrls: item.social_post_urls ?? {},
+    socialCopy: item.social_copy ?? {},
+});
+
 /**
- * Analyzes the history of approved memes to determine which image model is preferred.
+ * Retrieves one page of approved memes for the public gallery.
+ * 'featured' puts memes an admin has featured first, then falls back to newest.
  */
-export const getModelPreference = async (supabaseUrl: string, supabaseAnonKey: string): Promise<{ gemini: number, dalle: number }> => {
-    const approved = await getApprovedMemes(supabaseUrl, supabaseAnonKey);
-    if (approved.length === 0) {
-        return { gemini: 3, dalle: 2 };
+export const getGalleryMemes = async (
+    supabaseUrl: string,
+    supabaseAnonKey: string,
+    ordering: GalleryOrdering,
+    offset: number,
+    limit: number = GALLERY_PAGE_SIZE
+): Promise<ApprovedMeme[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    let query = client
+        .from('approved_memes')
+        .select(APPROVED_MEME_COLUMNS);
+
+    if (ordering === 'featured') {
+        query = query.order('is_featured', { ascending: false });
+    }
+    const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+    if (error) {
+        console.error("[Supabase] Failed to retrieve gallery memes:", JSON.stringify(error, null, 2));
+        throw new Error(`Failed to load the gallery: ${error.message}`);
     }
 
-    const dalleCount = approved.filter(m => m.modelUsed === 'dalle').length;
-    const geminiCount = approved.length - dalleCount;
+    return data.map(toApprovedMeme);
+};
 
-    if (dalleCount > geminiCount) {
-        return { gemini: 2, dalle: 3 };
-    } else {
-        return { gemini: 3, dalle: 2 };
+/**
+ * Retrieves the memes approved in a date range, oldest first, for an archive export.
+ * @param since Inclusive start, or null for the beginning of the archive.
+ * @param until Exclusive end, or null for now.
+ */
+export const getApprovedMemesBetween = async (
+    supabaseUrl: string,
+    supabaseAnonKey: string,
+    since: Date | null,
+    until: Date | null
+): Promise<ApprovedMeme[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    let query = client
+        .from('approved_memes')
+        .select(APPROVED_MEME_COLUMNS);
+
+    if (since) query = query.gte('created_at', since.toISOString());
+    if (until) query = query.lt('created_at', until.toISOString());
+    const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .limit(MAX_ARCHIVE_MEMES);
+
+    if (error) {
+        console.error("[Supabase] Failed to retrieve memes for export:", JSON.stringify(error, null, 2));
+        throw new Error(`Failed to load the memes to export: ${error.message}`);
     }
-};
\ No newline at end of file
+    return data.map(toApprovedMeme);
+};
+
+/**
+ * Features (or un-features) an approved meme in the public gallery.
+ */
+export const setMemeFeatured = async (id: string, isFeatured: boolean, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('approved_memes')
+        .update({ is_featured: isFeatured })
+        .eq('id', id);
+
+    if (error) {
+        console.error("[Supabase] Failed to update featured flag:", JSON.stringify(error, null, 2));
+        if (error.message.toLowerCase().includes("security policy")) {
+            throw new Error("Failed to feature meme: The 'approved_memes' table is missing an UPDATE policy, or you're not signed in as an admin. Please run the full 'Table Policy SQL' from the Admin panel.");
+        }
+        throw new Error(`Failed to feature meme: ${error.message}`);
+    }
+};
@@ -1,14 +1,48 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { MemeConcept, GeneratedMeme } from '../types';
-import { getModelPreference } from './feedbackService';
+import { GoogleGenAI, Type, createPartFromBase64, createPartFromText } from "@google/genai";
+import type { Part } from "@google/genai";
+import type { FewShotExample, MemeConcept, MemeRiffKind, MemeSlotValue, RejectedExample, GeneratedMeme, GenerationBatch, GenerationSettings, GenerationSourceType, ImageProviderId, InspirationSet, ModelPreference, ModerationPolicy, ModerationResult, ProviderApprovalStats, SocialCopy, SocialCopySet } from '../types';
+import { getProviderApprovalStats, getRejectedExamples, saveGenerationBatch } from './historyService';
+import { editImageWithGemini, fetchImageAsBase64, getImageProvider, listImageProviders, DEFAULT_IMAGE_PROVIDER_ID, PHOTO_MODEL_ID } from './imageProviders';
+import type { ImageProviderCredentials } from './imageProviders';
+import { allocateImageProviders, countProviderSchedule, expandModelPreference } from './modelAllocator';
+import { formatModerationResult, moderateConcept, moderateMemeImages } from './moderation';
+import { getModerationPolicy } from './moderationPolicyService';
+import { formatRejectionReason } from './rejectionReasons';
+import { SOCIAL_COPY_PLATFORMS, normalizeSocialCopy } from './socialCopy';
+import { MEME_TEMPLATE_IDS, describeMemeTemplatesForPrompt, getChangedSlotIds, getImageSlots, getMemeTemplate, getSlotValue, normalizeMemeConcept } from './memeTemplates';
+import type { RawMemeConcept } from './memeTemplates';
 
-// A lightweight, self-contained placeholder SVG for when Gemini image generation fails.
-const GEMINI_PLACEHOLDER_IMAGE_URL = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3QgZmlsbD0iIzExMTgyNyIgd2lkdGg9IjUxMiIgaGVpZhtPSI1MTIiLz48dGV4dCB4PSI1MCUiIHk9IjQ4JSIgZG9taW5hbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMzJweCIgZmlsbD0iI2Y4NzE3MSIgZm9udC13ZWlnaHQ9ImJvbGQiPlRIRSBBSSBHT1QgU0hZPC90ZXh0Pjx0ZXh0IHg9IjUwJSIgeT0iNTglIiBkb21pbmFhbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMThweCIgZmlsbD0iI2VhYTNmIj5JbWFnZSBnZW5lcmF0aW9uIGZhaWxlZC48L3RleHQ+PC9zdmc+';
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+// Recorded with every generation batch. Bump it whenever the system instruction or prompts change.
+export const SYSTEM_INSTRUCTION_VERSION = 'v6-social-copy';
+
+export const VARIATION_COUNT = 5;
+export const MAX_CONCEPT_COUNT = 10;
+export const MAX_IMAGES_PER_CONCEPT = 4;
+/** Only the newest screenshots of an inspiration set are sent, to keep the request small. */
+const MAX_INSPIRATION_IMAGES = 12;
+export const MAX_PHOTOS = 10;
+/** A photo fills one image slot, so photo memes only use the templates with a single image. */
+const PHOTO_TEMPLATE_IDS = MEME_TEMPLATE_IDS.filter(templateId => getImageSlots(templateId).length === 1);
+
+/** Gemini models that can write meme concepts. */
+export const TEXT_MODELS = [
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  conceptCount: 5,
+  imagesPerConcept: 1,
+  modelPreference: {},
+  textModel: 'gemini-2.5-pro',
+};
 
-// A placeholder for the DALL-E 3 image generation.
-const DALLE_PLACEHOLDER_IMAGE_URL = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3QgZmlsbD0iIzFlMWI0YiIgd2lkdGg9IjUxMiIgaGVpZ2h0PSI1MTIiLz48dGV4dCB4PSI1MCUiIHk9IjQ4JSIgZG9taW5hbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMzJweCIgZmlsbD0iI2E3OGJmYSIgZm9udC1wZWlnaHQ9ImJvbGQiPkRBTFktRSAzIEFUIFRIRSBFQVNFTDwvdGV4dD48dGV4dCB4PSI1MCUiIHk9IjU4JSIgZG9taW5hbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMThweCIgZmlsbD0iI2M0YjVmZCI+U2ltdWxhdGluZyBPcGVuQUkgaW1hZ2UgZ2VuZXJhdGlvbi48L3RleHQ+PC9zdmc+';
+const IMAGE_PROMPT_GUIDELINES = 'IMPORTANT: Image prompts must be descriptive, vibrant, and surreal, capturing a funny visual concept that matches the text and queer nightlife aesthetic. To ensure successful image generation, prompts MUST NOT include the names of specific, real-life public figures (like politicians or celebrities) and MUST NOT describe recreations of famous artworks. Focus on creating imaginative, original scenes. Additionally, to prevent generation failures, explicitly avoid terms in the image prompts related to smoking, vaping, illicit substances, realistic violence, or overly suggestive content.';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** Per-batch settings. Anything left out comes from DEFAULT_GENERATION_SETTINGS. */
+export type GenerationOptions = Partial<GenerationSettings>;
 
 const memeSchema = {
   type: Type.OBJECT,
@@ -18,33 +52,86 @@ const memeSchema = {
       items: {
         type: Type.OBJECT,
         properties: {
-          topText: { type: Type.STRING, description: "The text at the top of the meme." },
-          bottomText: { type: Type.STRING, description: "The text at the bottom of the meme." },
-          imagePrompt: { type: Type.STRING, description: "A detailed prompt for an AI image generator." },
+          templateId: { type: Type.STRING, enum: MEME_TEMPLATE_IDS, description: "The layout template that best delivers this joke." },
+          slots: {
+            type: Type.ARRAY,
+            description: "One entry for every slot of the chosen template.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                slotId: { type: Type.STRING, description: "The id of the template slot." },
+                value: { type: Type.STRING, description: "The text for a text slot, or a detailed AI image prompt for an image slot." },
+              },
+              required: ["slotId", "value"],
+            },
+          },
+          topText: { type: Type.STRING, description: "The text at the top of the meme, or the main caption for non-classic templates." },
+          bottomText: { type: Type.STRING, description: "The text at the bottom of the meme, or the secondary caption (may be empty) for non-classic templates." },
+          imagePrompt: { type: Type.STRING, description: "A detailed prompt for an AI image generator, or the prompt of the main image slot for non-classic templates." },
+        },
+        required: ["templateId", "slots", "topText", "bottomText", "imagePrompt"],
+      },
+    },
+  },
+  required: ["memes"],
+};
+
+const memeItemSchema = memeSchema.properties.memes.items;
+
+const photoMemeSchema = {
+  type: Type.OBJECT,
+  properties: {
+    memes: {
+      type: Type.ARRAY,
+      items: {
+        ...memeItemSchema,
+        properties: {
+          ...memeItemSchema.properties,
+          templateId: { type: Type.STRING, enum: PHOTO_TEMPLATE_IDS, description: "The layout template that best delivers this joke." },
+          photoNumber: { type: Type.INTEGER, description: "The number of the photo this meme captions." },
         },
-        required: ["topText", "bottomText", "imagePrompt"],
+        required: [...memeItemSchema.required, "photoNumber"],
       },
     },
   },
   required: ["memes"],
 };
 
-const createSystemInstruction = (examples: MemeConcept[]): string => {
-  let instruction = `You are an AI meme generator for a queer nightlife project called 'Kiss My Face New York'. Your humor is witty, subversive, and deeply embedded in queer culture, referencing everything from drag race to historical queer icons and modern internet slang. You create memes in the style of popular, edgy, and funny queer-focused Instagram accounts. Your tone is irreverent, celebratory, and sharp. Generate exactly 5 concepts. IMPORTANT: Keep the total text for each meme (top text + bottom text) concise and impactful, under 15 words total.`;
+const formatExample = (ex: MemeConcept): string => {
+  if (ex.templateId === 'classic') {
+    return `- Top: "${ex.topText}", Bottom: "${ex.bottomText}", Image Idea: "${ex.imagePrompt}"`;
+  }
+  const slots = ex.slots.map(slot => `${slot.slotId}: "${slot.value}"`).join(', ');
+  return `- Template: ${ex.templateId}, ${slots}`;
+};
+
+const createSystemInstruction = (examples: MemeConcept[], rejectedExamples: RejectedExample[], memeCount: number): string => {
+  let instruction = `You are an AI meme generator for a queer nightlife project called 'Kiss My Face New York'. Your humor is witty, subversive, and deeply embedded in queer culture, referencing everything from drag race to historical queer icons and modern internet slang. You create memes in the style of popular, edgy, and funny queer-focused Instagram accounts. Your tone is irreverent, celebratory, and sharp. Generate exactly ${memeCount} concepts. IMPORTANT: Keep the total text for each meme (top text + bottom text) concise and impactful, under 15 words total.`;
+
+  instruction += `\n\nEach meme uses one of these layout templates. Pick the template that lands the joke best, vary them across the batch, and fill every slot of the chosen template:\n${describeMemeTemplatesForPrompt()}`;
 
   if (examples && examples.length > 0) {
-    const examplesString = examples.map(ex => 
-      `- Top: "${ex.topText}", Bottom: "${ex.bottomText}", Image Idea: "${ex.imagePrompt}"`
-    ).join('\n');
+    const examplesString = examples.map(formatExample).join('\n');
     instruction += `\n\nTo fine-tune your response, here are examples of previously admin-approved memes. Match this style and humor:\n${examplesString}`;
   }
+
+  if (rejectedExamples && rejectedExamples.length > 0) {
+    const rejectedString = rejectedExamples
+      .map(ex => `${formatExample(ex)} -> Rejected: ${formatRejectionReason(ex.rejectionReason)}`)
+      .join('\n');
+    instruction += `\n\nAvoid these. The team recently rejected these memes, for the reasons given. Don't repeat their jokes, and steer clear of the same mistakes:\n${rejectedString}`;
+  }
   return instruction;
 }
 
-const getMemeConceptsFromHeadline = async (headline: string, examples: MemeConcept[]): Promise<MemeConcept[]> => {
-  const model = "gemini-2.5-pro";
-  const systemInstruction = createSystemInstruction(examples);
-  const prompt = `Based on this news headline: "${headline}", generate 5 distinct meme concepts. For each meme, provide a top text, a bottom text, and a prompt for an AI image generator. IMPORTANT: Image prompts must be descriptive, vibrant, and surreal, capturing a funny visual concept that matches the text and queer nightlife aesthetic. To ensure successful image generation, prompts MUST NOT include the names of specific, real-life public figures (like politicians or celebrities) and MUST NOT describe recreations of famous artworks. Focus on creating imaginative, original scenes. Additionally, to prevent generation failures, explicitly avoid terms in the image prompts related to smoking, vaping, illicit substances, realistic violence, or overly suggestive content.`;
+const parseMemeConcepts = (jsonText: string): MemeConcept[] => {
+  const parsed = JSON.parse(jsonText);
+  return (parsed.memes ?? []).map(normalizeMemeConcept);
+};
+
+const getMemeConceptsFromHeadline = async (headline: string, examples: MemeConcept[], rejectedExamples: RejectedExample[], memeCount: number, model: string): Promise<MemeConcept[]> => {
+  const systemInstruction = createSystemInstruction(examples, rejectedExamples, memeCount);
+  const prompt = `Based on this news headline: "${headline}", generate ${memeCount} distinct meme concepts. For each meme, choose a template and fill its slots with text and prompts for an AI image generator. ${IMAGE_PROMPT_GUIDELINES}`;
 
   const response = await ai.models.generateContent({
     model: model,
@@ -56,19 +143,49 @@ const getMemeConceptsFromHeadline = async (headline: string, examples: MemeConce
     },
   });
   
-  const jsonText = response.text.trim();
-  const parsed = JSON.parse(jsonText);
-  return parsed.memes;
+  return parseMemeConcepts(response.text.trim());
+};
+
+const fetchImagePart = async (imageUrl: string): Promise<Part> => {
+  const { data, mimeType } = await fetchImageAsBase64(imageUrl);
+  return createPartFromBase64(data, mimeType);
+};
+
+/**
+ * The set's screenshots as image parts, each introduced by its caption.
+ * Screenshots that fail to download are skipped; the set is only unusable if none of them load.
+ */
+const getInspirationParts = async (inspiration: InspirationSet): Promise<Part[]> => {
+  if (inspiration.items.length === 0) {
+    throw new Error(`The inspiration set "${inspiration.name}" is empty. Upload some screenshots to it first.`);
+  }
+  const items = inspiration.items.slice(-MAX_INSPIRATION_IMAGES);
+  const itemParts = await Promise.all(items.map(async (item, index) => {
+    try {
+      const imagePart = await fetchImagePart(item.imageUrl);
+      const caption = item.caption ? ` Its caption: "${item.caption}"` : '';
+      return [createPartFromText(`Reference meme ${index + 1}.${caption}`), imagePart];
+    } catch (error) {
+      console.warn(`Skipping inspiration screenshot ${item.imageUrl}:`, error);
+      return [];
+    }
+  }));
+  const parts = itemParts.flat();
+  if (parts.length === 0) {
+    throw new Error(`None of the screenshots in the inspiration set "${inspiration.name}" could be loaded.`);
+  }
+  return parts;
 };
 
-const getMemeConceptsFromInspiration = async (links: string, customPrompt: string, examples: MemeConcept[]): Promise<MemeConcept[]> => {
-  const model = "gemini-2.5-pro";
-  const systemInstruction = createSystemInstruction(examples);
-  const prompt = `Use the style, tone, and humor from these Instagram pages as inspiration: ${links}. Now, based on this user prompt: "${customPrompt}", generate 5 distinct meme concepts. For each meme, provide a top text, a bottom text, and a prompt for an AI image generator. IMPORTANT: Image prompts must be descriptive, vibrant, and surreal, capturing a funny visual concept that matches the text and queer nightlife aesthetic. To ensure successful image generation, prompts MUST NOT include the names of specific, real-life public figures (like politicians or celebrities) and MUST NOT describe recreations of famous artworks. Focus on creating imaginative, original scenes. Additionally, to prevent generation failures, explicitly avoid terms in the image prompts related to smoking, vaping, illicit substances, realistic violence, or overly suggestive content.`;
+const getMemeConceptsFromInspiration = async (inspiration: InspirationSet, customPrompt: string, examples: MemeConcept[], rejectedExamples: RejectedExample[], memeCount: number, model: string): Promise<MemeConcept[]> => {
+  const systemInstruction = createSystemInstruction(examples, rejectedExamples, memeCount);
+  const inspirationParts = await getInspirationParts(inspiration);
+  const intro = `Here are reference memes from our "${inspiration.name}" inspiration set. Study their style, tone, humor, and visual format, but don't copy their jokes.`;
+  const prompt = `Now, based on this user prompt: "${customPrompt}", generate ${memeCount} distinct meme concepts inspired by the reference memes. For each meme, choose a template and fill its slots with text and prompts for an AI image generator. ${IMAGE_PROMPT_GUIDELINES}`;
 
   const response = await ai.models.generateContent({
     model: model,
-    contents: prompt,
+    contents: [createPartFromText(intro), ...inspirationParts, createPartFromText(prompt)],
     config: {
       systemInstruction,
       responseMimeType: "application/json",
@@ -76,159 +193,113 @@ const getMemeConceptsFromInspiration = async (links: string, customPrompt: strin
     },
   });
   
-  const jsonText = response.text.trim();
-  const parsed = JSON.parse(jsonText);
-  return parsed.memes;
+  return parseMemeConcepts(response.text.trim());
 };
 
+/** A concept for one of the uploaded photos, by its index. */
+type PhotoMemeConcept = MemeConcept & { photoIndex: number };
 
-export const generateImage = async (prompt: string): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: `In a vibrant, high contrast, pop art meme aesthetic: ${prompt}. IMPORTANT: The generated image must not contain any text, letters, words, or numbers. It should be purely visual.`,
-          },
-        ],
-      },
-      config: {
-          responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-
-    if (part?.inlineData) {
-      const base64ImageBytes: string = part.inlineData.data;
-      const mimeType = part.inlineData.mimeType;
-      return `data:${mimeType};base64,${base64ImageBytes}`;
-    }
+const getMemeConceptsFromPhotos = async (photoUrls: string[], customPrompt: string, examples: MemeConcept[], rejectedExamples: RejectedExample[], memeCount: number, model: string): Promise<PhotoMemeConcept[]> => {
+  const systemInstruction = createSystemInstruction(examples, rejectedExamples, memeCount);
+  const photoParts = await Promise.all(photoUrls.map(async (photoUrl, index) => [createPartFromText(`Photo ${index + 1}.`), await fetchImagePart(photoUrl)]));
+  const intro = `Here are ${photoUrls.length} real photos from our own shows and parties.`;
+  const context = customPrompt.trim() ? ` Context from the team: "${customPrompt.trim()}".` : '';
+  const prompt = `${context} Generate ${memeCount} distinct meme concepts that caption these photos, at least one for every photo. For each meme, set photoNumber to the photo it captions and choose one of these templates: ${PHOTO_TEMPLATE_IDS.join(', ')}. The photo is the meme's image, so don't write an image prompt: describe what the photo actually shows in its image slot and in imagePrompt. These are real people from our community. Roast the situation, the outfit energy or the vibe, never anyone's body or looks.`;
 
-    console.error('Gemini Image generation failed: API response did not contain valid image data for prompt:', prompt);
-    console.error('Full API response object:', JSON.stringify(response, null, 2));
-    return GEMINI_PLACEHOLDER_IMAGE_URL;
+  const response = await ai.models.generateContent({
+    model: model,
+    contents: [createPartFromText(intro), ...photoParts.flat(), createPartFromText(prompt.trim())],
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: photoMemeSchema,
+    },
+  });
 
-  } catch (error) {
-    console.error(`Gemini Image generation process caught an exception for prompt: "${prompt}"`, error);
-    return GEMINI_PLACEHOLDER_IMAGE_URL;
-  }
+  const parsed = JSON.parse(response.text.trim()) as { memes?: (RawMemeConcept & { photoNumber?: number })[] };
+  return (parsed.memes ?? []).map(raw => ({
+    ...normalizeMemeConcept(raw),
+    // A missing or out-of-range number falls back to the first photo rather than dropping the caption.
+    photoIndex: Math.min(Math.max(Math.round(Number(raw.photoNumber) || 1), 1), photoUrls.length) - 1,
+  }));
 };
 
 
-export const generateImageWithDalle = async (prompt: string, apiKey: string): Promise<string> => {
-  if (!apiKey) {
-    console.error("DALL-E 3 configuration error: No OpenAI API key provided.");
-    return DALLE_PLACEHOLDER_IMAGE_URL;
-  }
-  
-  const dallePrompt = `${prompt}. IMPORTANT: The generated image must not contain any text, letters, words, or numbers. It should be purely visual.`;
-  console.log(`[REAL] Calling DALL-E 3 with prompt: "${dallePrompt}"`);
-
-  let apiResponse;
-  try {
-    apiResponse = await fetch('https://api.openai.com/v1/images/generations', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: "dall-e-3",
-        prompt: dallePrompt,
-        n: 1,
-        size: "1024x1024",
-        response_format: "b64_json"
-      })
-    });
-  } catch (networkError) {
-    console.error('DALL-E 3 network error:', networkError);
-    return DALLE_PLACEHOLDER_IMAGE_URL;
-  }
-
-  if (!apiResponse.ok) {
-    let errorMessage = 'Unknown OpenAI API error';
-    let errorDetails = '';
-    try {
-        const rawBody = await apiResponse.text();
-        errorDetails = rawBody; // Keep raw body for logging
-        const errorData = JSON.parse(rawBody);
-        if (errorData?.error?.message) {
-            errorMessage = typeof errorData.error.message === 'string' ? errorData.error.message : JSON.stringify(errorData.error.message);
-        }
-    } catch (e) {
-        errorMessage = `API request failed with status ${apiResponse.status}. Could not parse JSON response.`;
-    }
-    
-    console.error(`DALL-E 3 API Error: ${errorMessage}`, `Raw Response: ${errorDetails}`);
-    
-    // Provide a clear, actionable log for the most critical user-facing error.
-    if (errorMessage.includes('Billing hard limit has been reached')) {
-      console.error("CRITICAL: OpenAI Billing Limit Reached. All subsequent DALL-E generations will fail until this is resolved in your OpenAI account.");
-    }
-
-    return DALLE_PLACEHOLDER_IMAGE_URL;
-  }
-
-  const data = await apiResponse.json();
-  const base64Image = data.data?.[0]?.b64_json;
-  
-  if (!base64Image) {
-    console.error('DALL-E 3 API Error: Response did not contain image data.', data);
-    return DALLE_PLACEHOLDER_IMAGE_URL;
-  }
-
-  return `data:image/png;base64,${base64Image}`;
-};
-
 export const generateMemeImageWithFallback = async (
   prompt: string,
-  model: 'gemini' | 'dalle',
-  openAiApiKey: string
-): Promise<{ imageUrl: string; modelUsed: 'gemini' | 'dalle' }> => {
-  let imageUrl: string;
-
-  // Proactively fall back to Gemini if DALL-E is scheduled but no API key is available.
-  if (model === 'dalle' && !openAiApiKey) {
-    console.warn("DALL-E was scheduled, but no OpenAI API key was provided. Falling back to Gemini.");
-    imageUrl = await generateImage(prompt);
-    return { imageUrl, modelUsed: 'gemini' };
+  model: ImageProviderId,
+  credentials: ImageProviderCredentials
+): Promise<{ imageUrl: string; modelUsed: ImageProviderId }> => {
+  const provider = getImageProvider(model);
+  const fallbackProvider = getImageProvider(DEFAULT_IMAGE_PROVIDER_ID)!;
+
+  if (!provider) {
+    console.warn(`Image provider "${model}" is not registered. Falling back to ${fallbackProvider.label}.`);
+    const imageUrl = await fallbackProvider.generate(prompt, credentials);
+    return { imageUrl, modelUsed: fallbackProvider.id };
   }
 
-  if (model === 'dalle') {
-    imageUrl = await generateImageWithDalle(prompt, openAiApiKey);
-  } else {
-    imageUrl = await generateImage(prompt);
+  // Proactively fall back to the default provider if the scheduled one is missing its credentials.
+  if (!provider.isConfigured(credentials)) {
+    console.warn(`${provider.label} was scheduled, but it is not configured. Falling back to ${fallbackProvider.label}.`);
+    const imageUrl = await fallbackProvider.generate(prompt, credentials);
+    return { imageUrl, modelUsed: fallbackProvider.id };
   }
 
+  const imageUrl = await provider.generate(prompt, credentials);
+
   // The model used is the one we *attempted* to use.
   // If it failed, the imageUrl will be a placeholder, but the modelUsed is still correct for regeneration attempts.
-  return { imageUrl, modelUsed: model };
+  return { imageUrl, modelUsed: provider.id };
+};
+
+
+/**
+ * Generates an image for every image slot of the concept's template with the same provider.
+ * `imageUrl` is the first slot's image, which is also what single-image templates use.
+ */
+export const generateMemeImages = async (
+  concept: MemeConcept,
+  model: ImageProviderId,
+  credentials: ImageProviderCredentials
+): Promise<{ imageUrl: string; slotImageUrls: Record<string, string>; modelUsed: ImageProviderId }> => {
+  const imageSlots = getImageSlots(concept.templateId);
+  const results = await Promise.all(
+    imageSlots.map(slot => generateMemeImageWithFallback(getSlotValue(concept.slots, slot.id) || concept.imagePrompt, model, credentials))
+  );
+  const slotImageUrls = Object.fromEntries(imageSlots.map((slot, index) => [slot.id, results[index].imageUrl]));
+
+  return { imageUrl: results[0].imageUrl, slotImageUrls, modelUsed: results[0].modelUsed };
 };
 
 
+/** The meme's text and image as the alt text and social copy prompts describe it. */
+const describeConceptDetails = (concept: MemeConcept): string => `Meme Details:
+    - Top Text: "${concept.topText}"
+    - Bottom Text: "${concept.bottomText}"
+    - Image Description: "${concept.imagePrompt}"${concept.templateId === 'classic' ? '' : `
+    - Layout: ${getMemeTemplate(concept.templateId).label} meme with panels: ${concept.slots.map(slot => `${slot.slotId}: "${slot.value}"`).join(', ')}`}`;
+
+/**
+ * Alt text for screen readers: what the image shows and what its text says, nothing else.
+ * Promotion belongs in the social copy (generateSocialCopy).
+ */
 export const generateImageAltText = async (concept: MemeConcept): Promise<string> => {
   try {
     const model = "gemini-2.5-flash";
-    const prompt = `Generate a concise, descriptive, SEO-friendly alt text for an image in a meme.
-    The meme is for a queer nightlife project called "Kiss My Face New York".
-    
-    Meme Details:
-    - Top Text: "${concept.topText}"
-    - Bottom Text: "${concept.bottomText}"
-    - Image Description: "${concept.imagePrompt}"
+    const prompt = `Write alt text for a meme image, for people using screen readers.
+
+    ${describeConceptDetails(concept)}
 
     Instructions:
-    1. Accurately describe the visual elements of the image based on the description.
-    2. Incorporate the meme's text naturally if possible.
-    3. Include a mix of relevant SEO keywords like: "queer meme", "lgbtq humor", "gay meme", "funny nightlife", "NYC nightlife", "drag queen", "queer culture", "Brooklyn nightlife", "viral meme", "Gen Z humor", "Kiss My Face New York".
-    4. Keep it under 150 characters.
-    5. Do not use hashtags or quotation marks.
+    1. Describe what the image shows: the subject, what is happening, and the style if it matters to the joke.
+    2. Include the meme's text, since it is part of the image.
+    3. Do not add keywords, hashtags, brand names, calls to action or opinions about how funny it is.
+    4. Do not start with "Image of" or "Picture of". Keep it under 250 characters.
     
-    Example Output: A vibrant pop art meme from Kiss My Face New York showing a cat DJing, with text 'Me when the beat drops'. Funny queer nightlife humor for Gen Z.
+    Example Output: A cat in sunglasses DJing behind a glowing turntable at a packed club, with the text "Me when the beat drops".
 
-    Generate the alt text now.`;
+    Write the alt text now.`;
     
     const response = await ai.models.generateContent({ model, contents: prompt });
     
@@ -236,102 +307,601 @@ export const generateImageAltText = async (concept: MemeConcept): Promise<string
     
   } catch (error) {
     console.error("Failed to generate alt text:", error);
-    return `Kiss My Face New York meme: ${concept.topText} - ${concept.bottomText}. Image: ${concept.imagePrompt.substring(0, 50)}...`;
+    return `Meme with the text "${[concept.topText, concept.bottomText].filter(Boolean).join(' / ')}". Image: ${concept.imagePrompt.substring(0, 100)}`;
+  }
+};
+
+const socialCopySchema = {
+  type: Type.OBJECT,
+  properties: {
+    posts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          platform: { type: Type.STRING, enum: SOCIAL_COPY_PLATFORMS.map(platform => platform.id) },
+          caption: { type: Type.STRING, description: "The post caption, without hashtags." },
+          hashtags: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Hashtags without the '#'." },
+          firstComment: { type: Type.STRING, description: "The first comment or reply. May be empty." },
+        },
+        required: ["platform", "caption", "hashtags", "firstComment"],
+      },
+    },
+  },
+  required: ["posts"],
+};
+
+/**
+ * Writes a post caption, hashtags and a first comment for each platform in SOCIAL_COPY_PLATFORMS.
+ * Returns an empty set when Gemini fails, so a meme is never held up by its social copy.
+ */
+export const generateSocialCopy = async (concept: MemeConcept): Promise<SocialCopySet> => {
+  try {
+    const model = "gemini-2.5-flash";
+    const prompt = `Write the social media posts for a meme by "Kiss My Face New York" (KMFNY), a queer nightlife party in Brooklyn.
+
+    ${describeConceptDetails(concept)}
+
+    Write one post for each platform:
+    ${SOCIAL_COPY_PLATFORMS.map(platform => `- ${platform.id}: up to ${platform.maxCaptionLength} characters including hashtags, at most ${platform.maxHashtags} hashtags. ${platform.guidelines}`).join('\n    ')}
+
+    Instructions:
+    1. Write in our voice: witty, campy, a little unhinged, never mean. Don't explain the joke or repeat the meme's text word for word.
+    2. Hashtags should be ones people actually follow, e.g. queer meme, NYC nightlife, Brooklyn, drag, plus at most one about the meme's topic.
+    3. Keep hashtags out of the caption; put them in the hashtags list.`;
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: socialCopySchema,
+      },
+    });
+
+    const { posts } = JSON.parse(response.text.trim()) as { posts: ({ platform: string } & SocialCopy)[] };
+    const copySet: SocialCopySet = {};
+    for (const { platform: platformId, caption, hashtags, firstComment } of posts ?? []) {
+      const platform = SOCIAL_COPY_PLATFORMS.find(p => p.id === platformId);
+      if (platform && caption?.trim()) {
+        copySet[platform.id] = normalizeSocialCopy(platform, { caption, hashtags: hashtags ?? [], firstComment: firstComment ?? '' });
+      }
+    }
+    return copySet;
+  } catch (error) {
+    console.error("Failed to generate social copy:", error);
+    return {};
+  }
+};
+
+/** The alt text and social copy of a new or edited concept, written side by side. */
+const generateMemeCopy = async (concept: MemeConcept): Promise<{ altText: string; socialCopy: SocialCopySet }> => {
+  const [altText, socialCopy] = await Promise.all([generateImageAltText(concept), generateSocialCopy(concept)]);
+  return { altText, socialCopy };
+};
+
+
+/**
+ * Applies a reviewer's edits to a meme's slots. The alt text and social copy are rewritten to match, and edited
+ * image prompts get new images from the same provider. The edited concept and images go through the moderation
+ * gate like a new meme's. The model's first version is kept in `originalConcept` so the history shows which parts
+ * were corrected by hand.
+ * @throws An Error when the moderation policy blocks the edit, so callers keep the unedited meme.
+ */
+export const editGeneratedMeme = async (
+  meme: GeneratedMeme,
+  slots: MemeSlotValue[],
+  credentials: ImageProviderCredentials,
+  supabaseUrl: string,
+  supabaseAnonKey: string
+): Promise<GeneratedMeme> => {
+  const editedConcept = normalizeMemeConcept({ templateId: meme.templateId, slots });
+  const changedSlotIds = getChangedSlotIds(meme, editedConcept);
+  if (changedSlotIds.length === 0) return meme;
+
+  const policy = await getModerationPolicy(supabaseUrl, supabaseAnonKey);
+  const conceptModeration = await moderateConcept(editedConcept, policy);
+  if (conceptModeration.outcome === 'block') {
+    throw new Error(`The moderation policy blocked the edit (${formatModerationResult(conceptModeration)}).`);
+  }
+
+  // A photo's image prompt only describes it, so editing the description keeps the photo.
+  const isImagePromptChanged = meme.modelUsed !== PHOTO_MODEL_ID && getImageSlots(meme.templateId).some(slot => changedSlotIds.includes(slot.id));
+  const images = isImagePromptChanged
+    ? await generateMemeImages(editedConcept, meme.modelUsed, credentials)
+    : { imageUrl: meme.imageUrl, slotImageUrls: meme.slotImageUrls, modelUsed: meme.modelUsed };
+  const [moderation, { altText, socialCopy }] = await Promise.all([
+    moderateMemeImages({ ...meme, ...editedConcept, ...images, moderation: conceptModeration }, policy),
+    generateMemeCopy(editedConcept),
+  ]);
+  if (moderation.outcome === 'block') {
+    throw new Error(`The moderation policy blocked the edited meme (${formatModerationResult(moderation)}).`);
+  }
+  const { templateId, topText, bottomText, imagePrompt } = meme;
+
+  return {
+    ...meme,
+    ...editedConcept,
+    ...images,
+    altText,
+    socialCopy,
+    moderation,
+    compositedImageUrl: undefined,
+    // Earlier image edits were screened with the old captions, so their verdicts no longer apply to undo.
+    imageHistory: undefined,
+    originalConcept: meme.originalConcept ?? { templateId, slots: meme.slots, topText, bottomText, imagePrompt },
+  };
+};
+
+/**
+ * Changes one of a meme's images as the instruction says (e.g. "give the cat a blonde wig"), keeping
+ * the rest of the picture, instead of regenerating it from scratch. The edited image is screened like a new
+ * one. The previous images are added to `imageHistory`, so the edit can be undone with undoMemeImageEdit.
+ * @throws An Error when Gemini doesn't return an edited image, or the moderation policy blocks it.
+ */
+export const editMemeImage = async (
+  meme: GeneratedMeme,
+  slotId: string,
+  instruction: string,
+  supabaseUrl: string,
+  supabaseAnonKey: string
+): Promise<GeneratedMeme> => {
+  const [editedImageUrl, policy] = await Promise.all([
+    editImageWithGemini(meme.slotImageUrls[slotId] ?? meme.imageUrl, instruction.trim()),
+    getModerationPolicy(supabaseUrl, supabaseAnonKey),
+  ]);
+  const isMainImage = getImageSlots(meme.templateId)[0]?.id === slotId;
+  const editedMeme: GeneratedMeme = {
+    ...meme,
+    imageUrl: isMainImage ? editedImageUrl : meme.imageUrl,
+    slotImageUrls: { ...meme.slotImageUrls, [slotId]: editedImageUrl },
+    compositedImageUrl: undefined,
+    imageHistory: [...(meme.imageHistory ?? []), { imageUrl: meme.imageUrl, slotImageUrls: meme.slotImageUrls, moderation: meme.moderation }],
+  };
+
+  const moderation = await moderateMemeImages(editedMeme, policy);
+  if (moderation.outcome === 'block') {
+    throw new Error(`The moderation policy blocked the edited image (${formatModerationResult(moderation)}). Try a different instruction.`);
+  }
+  return { ...editedMeme, moderation };
+};
+
+/**
+ * Screens a meme's new images after it was regenerated, keeping the findings on its unchanged concept.
+ * @throws An Error when the moderation policy blocks the new images, so callers keep the old ones.
+ */
+export const moderateRegeneratedMeme = async (meme: GeneratedMeme, supabaseUrl: string, supabaseAnonKey: string): Promise<GeneratedMeme> => {
+  const moderation = await moderateMemeImages(meme, await getModerationPolicy(supabaseUrl, supabaseAnonKey));
+  if (moderation.outcome === 'block') {
+    throw new Error(`The moderation policy blocked the new image (${formatModerationResult(moderation)}). Try regenerating again.`);
   }
+  return { ...meme, moderation };
+};
+
+/** Restores the images from before the last editMemeImage, with the moderation verdict they had. */
+export const undoMemeImageEdit = (meme: GeneratedMeme): GeneratedMeme => {
+  const imageHistory = meme.imageHistory ?? [];
+  if (imageHistory.length === 0) return meme;
+
+  return {
+    ...meme,
+    ...imageHistory[imageHistory.length - 1],
+    compositedImageUrl: undefined,
+    imageHistory: imageHistory.slice(0, -1),
+  };
 };
 
+/**
+ * One image provider per meme: the fixed mix comes first, and the memes beyond it get a Thompson-sampling
+ * pick among the configured providers based on how their memes in that template were reviewed.
+ */
+const scheduleImageProviders = (
+  concepts: MemeConcept[],
+  modelPreference: ModelPreference,
+  providerStats: ProviderApprovalStats[],
+  credentials: ImageProviderCredentials
+): ImageProviderId[] => {
+  const fixedSchedule = expandModelPreference(modelPreference).slice(0, concepts.length);
+  const unscheduled = concepts.slice(fixedSchedule.length);
+  if (unscheduled.length === 0) return fixedSchedule;
+
+  const configuredProviderIds = listImageProviders()
+    .filter(provider => provider.isConfigured(credentials))
+    .map(provider => provider.id);
+  return [...fixedSchedule, ...allocateImageProviders(unscheduled.map(concept => concept.templateId), configuredProviderIds, providerStats)];
+};
 
 const processConceptsIntoMemes = async (
-  conceptsPromise: Promise<MemeConcept[]>,
-  modelPreference: { gemini: number; dalle: number; },
-  openAiApiKey: string
+  concepts: MemeConcept[],
+  providerSchedule: ImageProviderId[],
+  credentials: ImageProviderCredentials,
+  batchId: string | undefined
 ): Promise<GeneratedMeme[]> => {
-  const concepts = await conceptsPromise;
-  if (!concepts || concepts.length === 0) {
-    throw new Error("AI did not return any meme concepts.");
-  }
-  
-  const generatorSchedule = [
-    ...Array(modelPreference.gemini).fill('gemini'), 
-    ...Array(modelPreference.dalle).fill('dalle')
-  ];
+  // A concept that gets several images only needs its alt text and social copy written once.
+  const memeCopies = new Map<MemeConcept, Promise<{ altText: string; socialCopy: SocialCopySet }>>();
+  const getMemeCopy = (concept: MemeConcept) => {
+    if (!memeCopies.has(concept)) memeCopies.set(concept, generateMemeCopy(concept));
+    return memeCopies.get(concept)!;
+  };
 
   const memePromises = concepts.map(async (concept, index) => {
-    const scheduledModel = generatorSchedule[index] as 'gemini' | 'dalle' || 'gemini';
+    const startedAt = performance.now();
     
-    const { imageUrl, modelUsed } = await generateMemeImageWithFallback(concept.imagePrompt, scheduledModel, openAiApiKey);
-    const altText = await generateImageAltText(concept);
+    const { imageUrl, slotImageUrls, modelUsed } = await generateMemeImages(concept, providerSchedule[index], credentials);
+    const { altText, socialCopy } = await getMemeCopy(concept);
 
     return {
       ...concept,
       id: crypto.randomUUID(),
+      batchId,
       imageUrl,
+      slotImageUrls,
       altText,
+      socialCopy,
       status: 'pending' as const,
       modelUsed,
+      generationDurationMs: Math.round(performance.now() - startedAt),
     };
   });
 
   return Promise.all(memePromises);
 };
 
+/** Identifies a concept by its content, since makers build memes from copies of the concepts. */
+const getConceptKey = (concept: MemeConcept): string => JSON.stringify([concept.templateId, concept.slots]);
+
+/**
+ * The moderation gate: screens the concepts before any image is made for them, lets `makeMemes` turn
+ * the rest into memes, then screens their images. Blocked concepts and memes are dropped and counted;
+ * the others carry their result, so flagged ones show a warning.
+ * @throws An Error when the policy blocks every concept or meme.
+ */
+const makeModeratedMemes = async <TConcept extends MemeConcept>(
+  concepts: TConcept[],
+  policy: ModerationPolicy,
+  makeMemes: (concepts: TConcept[]) => Promise<GeneratedMeme[]>
+): Promise<{ memes: GeneratedMeme[]; blockedCount: number }> => {
+  const conceptResults = await Promise.all(concepts.map(concept => moderateConcept(concept, policy)));
+  const resultsByConcept = new Map<string, ModerationResult>();
+  const allowedConcepts = concepts.filter((concept, index) => {
+    if (conceptResults[index].outcome === 'block') {
+      console.warn(`Moderation blocked a concept: ${formatModerationResult(conceptResults[index])}`);
+      return false;
+    }
+    resultsByConcept.set(getConceptKey(concept), conceptResults[index]);
+    return true;
+  });
+  if (allowedConcepts.length === 0) {
+    throw new Error(`The moderation policy blocked every meme concept: ${formatModerationResult(conceptResults[0])}`);
+  }
+
+  const memes = await makeMemes(allowedConcepts);
+  const screenedMemes = await Promise.all(memes.map(async meme => ({
+    ...meme,
+    moderation: await moderateMemeImages({ ...meme, moderation: resultsByConcept.get(getConceptKey(meme)) }, policy),
+  })));
+  const allowedMemes = screenedMemes.filter(meme => {
+    if (meme.moderation.outcome !== 'block') return true;
+    console.warn(`Moderation blocked meme ${meme.id}: ${formatModerationResult(meme.moderation)}`);
+    return false;
+  });
+  if (allowedMemes.length === 0) {
+    throw new Error(`The moderation policy blocked every meme: ${formatModerationResult(screenedMemes[0].moderation)}`);
+  }
+
+  return { memes: allowedMemes, blockedCount: concepts.length - allowedConcepts.length + screenedMemes.length - allowedMemes.length };
+};
+
+/** How a batch turns its concepts into memes, with their images. May update the batch's provenance. */
+type MemeMaker<TConcept extends MemeConcept> = (
+  concepts: TConcept[],
+  settings: GenerationSettings,
+  batch: GenerationBatch,
+  credentials: ImageProviderCredentials,
+  supabaseUrl: string,
+  supabaseAnonKey: string
+) => Promise<GeneratedMeme[]>;
+
+/** The usual maker: imagesPerConcept memes of every concept, each with images from its scheduled provider. */
+const generateConceptImages: MemeMaker<MemeConcept> = async (concepts, settings, batch, credentials, supabaseUrl, supabaseAnonKey) => {
+  const providerStats = await getProviderApprovalStats(supabaseUrl, supabaseAnonKey);
+  const memeConcepts = concepts.flatMap(concept => Array<MemeConcept>(settings.imagesPerConcept).fill(concept));
+  const providerSchedule = scheduleImageProviders(memeConcepts, settings.modelPreference, providerStats, credentials);
+  batch.modelPreference = countProviderSchedule(providerSchedule);
+  console.log('Generating with providers:', batch.modelPreference);
+  return processConceptsIntoMemes(memeConcepts, providerSchedule, credentials, batch.id);
+};
+
+/**
+ * Runs one generation batch end to end and records it, with its provenance, in the history tables.
+ * Recording is best-effort: a missing history table never blocks generation.
+ * Failed batches are recorded too, then the original error is rethrown.
+ */
+const runGenerationBatch = async <TConcept extends MemeConcept>(
+  source: Pick<GenerationBatch, 'sourceType' | 'inputText' | 'inspirationSetName'>,
+  getConcepts: (rejectedExamples: RejectedExample[], settings: GenerationSettings) => Promise<TConcept[]>,
+  examples: FewShotExample[],
+  credentials: ImageProviderCredentials,
+  supabaseUrl: string,
+  supabaseAnonKey: string,
+  options: GenerationOptions,
+  makeMemes: MemeMaker<TConcept> = generateConceptImages
+): Promise<GenerationBatch> => {
+  const settings: GenerationSettings = { ...DEFAULT_GENERATION_SETTINGS, ...options };
+  const batchId = crypto.randomUUID();
+  const startedAt = new Date();
+  const batchStartedAt = performance.now();
+  const [rejectedExamples, moderationPolicy] = await Promise.all([
+    getRejectedExamples(supabaseUrl, supabaseAnonKey),
+    getModerationPolicy(supabaseUrl, supabaseAnonKey),
+  ]);
+
+  const batch: GenerationBatch = {
+    ...source,
+    inspirationLinks: '',
+    id: batchId,
+    systemInstructionVersion: SYSTEM_INSTRUCTION_VERSION,
+    examples,
+    rejectedExamples,
+    textModel: settings.textModel,
+    imagesPerConcept: settings.imagesPerConcept,
+    modelPreference: settings.modelPreference,
+    status: 'completed',
+    startedAt: startedAt.toISOString(),
+    completedAt: startedAt.toISOString(),
+    totalDurationMs: 0,
+    blockedCount: 0,
+    memes: [],
+  };
+
+  const recordBatch = () => {
+    batch.completedAt = new Date().toISOString();
+    batch.totalDurationMs = Math.round(performance.now() - batchStartedAt);
+    return saveGenerationBatch(batch, supabaseUrl, supabaseAnonKey)
+      .catch(error => console.warn('[History] Batch was generated but could not be recorded:', error));
+  };
+
+  try {
+    const concepts = await getConcepts(rejectedExamples, settings);
+    batch.conceptDurationMs = Math.round(performance.now() - batchStartedAt);
+    if (!concepts || concepts.length === 0) {
+      throw new Error("AI did not return any meme concepts.");
+    }
+    const { memes, blockedCount } = await makeModeratedMemes(concepts, moderationPolicy, allowedConcepts =>
+      makeMemes(allowedConcepts, settings, batch, credentials, supabaseUrl, supabaseAnonKey));
+    batch.memes = memes;
+    batch.blockedCount = blockedCount;
+  } catch (error) {
+    batch.status = 'failed';
+    batch.errorMessage = error instanceof Error ? error.message : String(error);
+    await recordBatch();
+    throw error;
+  }
+
+  await recordBatch();
+  return batch;
+};
+
 export const generateMemesFromHeadline = async (
   headline: string, 
-  examples: MemeConcept[], 
-  openAiApiKey: string,
+  examples: FewShotExample[], 
+  credentials: ImageProviderCredentials,
   supabaseUrl: string,
-  supabaseAnonKey: string
-): Promise<GeneratedMeme[]> => {
-  const modelPreference = await getModelPreference(supabaseUrl, supabaseAnonKey);
-  console.log('Generating with preference:', modelPreference);
-  return processConceptsIntoMemes(getMemeConceptsFromHeadline(headline, examples), modelPreference, openAiApiKey);
+  supabaseAnonKey: string,
+  options: GenerationOptions = {}
+): Promise<GenerationBatch> => {
+  return runGenerationBatch(
+    { sourceType: 'headline', inputText: headline, inspirationSetName: '' },
+    (rejectedExamples, settings) => getMemeConceptsFromHeadline(headline, examples, rejectedExamples, settings.conceptCount, settings.textModel),
+    examples, credentials, supabaseUrl, supabaseAnonKey, options
+  );
 };
 
 export const generateMemesFromInspiration = async (
-  links: string, 
+  inspiration: InspirationSet,
   customPrompt: string, 
-  examples: MemeConcept[], 
-  openAiApiKey: string,
+  examples: FewShotExample[], 
+  credentials: ImageProviderCredentials,
   supabaseUrl: string,
-  supabaseAnonKey: string
-): Promise<GeneratedMeme[]> => {
-  const modelPreference = await getModelPreference(supabaseUrl, supabaseAnonKey);
-  console.log('Generating with preference:', modelPreference);
-  return processConceptsIntoMemes(getMemeConceptsFromInspiration(links, customPrompt, examples), modelPreference, openAiApiKey);
+  supabaseAnonKey: string,
+  sourceType: GenerationSourceType = 'inspiration',
+  options: GenerationOptions = {}
+): Promise<GenerationBatch> => {
+  return runGenerationBatch(
+    { sourceType, inputText: customPrompt, inspirationSetName: inspiration.name },
+    (rejectedExamples, settings) => getMemeConceptsFromInspiration(inspiration, customPrompt, examples, rejectedExamples, settings.conceptCount, settings.textModel),
+    examples, credentials, supabaseUrl, supabaseAnonKey, options
+  );
 };
 
-
 /**
- * Simulates sending an approval email to an administrator.
- * In a real application, this would be a POST request to a secure backend endpoint,
- * which would then use a service like SendGrid to dispatch the email.
- * @param memes The array of generated memes to include in the email.
- * @param recipient The email address to send the notification to.
- * @param subject The subject line for the email.
- * @returns A promise that resolves to an object indicating success.
+ * Restyles a photo with Gemini, keeping the people and composition. The original photo is used
+ * when restyling fails, so one stubborn photo doesn't sink the batch.
  */
-export const sendApprovalEmail = async (
-  memes: GeneratedMeme[],
-  recipient: string = 'admin@kissmyfacenewyork.com',
-  subject: string = 'New Memes for Approval'
-): Promise<{ success: boolean }> => {
-  console.log("--- SIMULATING SENDGRID EMAIL ---");
-  console.log(`Recipient: ${recipient}`);
-  console.log(`Subject: ${subject}`);
-  console.log("Body: Please review the following memes generated by Kiss My Face New York AI.");
-  
-  const emailContent = memes.map(meme => ({
-    id: meme.id,
-    topText: meme.topText,
-    bottomText: meme.bottomText,
-    imageUrl: meme.imageUrl,
-    status: meme.status,
+const stylizePhoto = async (photoUrl: string, style: string): Promise<string> => {
+  try {
+    return await editImageWithGemini(photoUrl, `Restyle this photo as ${style}. Keep the people, their poses and the composition recognizable`);
+  } catch (error) {
+    console.warn('Could not stylize a photo, using it as it is:', error);
+    return photoUrl;
+  }
+};
+
+/** Puts each concept on its photo (restyled once per photo when a style is given). */
+const createPhotoMemeMaker = (photoUrls: string[], style: string): MemeMaker<PhotoMemeConcept> => async (concepts, _settings, batch) => {
+  const memePhotoUrls = style.trim() ? await Promise.all(photoUrls.map(photoUrl => stylizePhoto(photoUrl, style.trim()))) : photoUrls;
+  batch.modelPreference = { [PHOTO_MODEL_ID]: concepts.length };
+
+  return Promise.all(concepts.map(async ({ photoIndex, ...concept }) => {
+    const startedAt = performance.now();
+    const imageUrl = memePhotoUrls[photoIndex];
+    const imageSlot = getImageSlots(concept.templateId)[0];
+
+    return {
+      ...concept,
+      id: crypto.randomUUID(),
+      batchId: batch.id,
+      imageUrl,
+      slotImageUrls: { [imageSlot.id]: imageUrl },
+      ...await generateMemeCopy(concept),
+      status: 'pending' as const,
+      modelUsed: PHOTO_MODEL_ID,
+      generationDurationMs: Math.round(performance.now() - startedAt),
+    };
   }));
+};
+
+/**
+ * Captions our own event photos: Gemini looks at the photos and writes concepts for them, and each
+ * meme's image is the photo itself, optionally restyled. Every photo gets at least one meme.
+ * @param photoUrls Data URLs (or other fetchable URLs) of the photos, at most MAX_PHOTOS.
+ * @param style How to restyle the photos, e.g. "a risograph print". Empty keeps them as they are.
+ */
+export const generateMemesFromPhotos = async (
+  photoUrls: string[],
+  customPrompt: string,
+  style: string,
+  examples: FewShotExample[],
+  credentials: ImageProviderCredentials,
+  supabaseUrl: string,
+  supabaseAnonKey: string,
+  options: GenerationOptions = {}
+): Promise<GenerationBatch> => {
+  if (photoUrls.length === 0) {
+    throw new Error("Upload at least one photo first.");
+  }
+  if (photoUrls.length > MAX_PHOTOS) {
+    throw new Error(`Upload at most ${MAX_PHOTOS} photos per batch.`);
+  }
+  return runGenerationBatch(
+    { sourceType: 'photo', inputText: customPrompt, inspirationSetName: '' },
+    (rejectedExamples, settings) => getMemeConceptsFromPhotos(photoUrls, customPrompt, examples, rejectedExamples, Math.max(settings.conceptCount, photoUrls.length), settings.textModel),
+    // Each meme shows its photo, so there is only ever one image per concept.
+    examples, credentials, supabaseUrl, supabaseAnonKey, { ...options, imagesPerConcept: 1 },
+    createPhotoMemeMaker(photoUrls, style)
+  );
+};
 
-  console.log("Meme Payload:", JSON.stringify(emailContent, null, 2));
-  console.log("---------------------------------");
+/** What a riff needs to know about the batch its seed meme came from. */
+export type RiffContext = Pick<GenerationBatch, 'sourceType' | 'inputText' | 'textModel'>;
+
+const RIFF_COUNTS: Record<MemeRiffKind, number> = {
+  caption: 1,
+  concept: 1,
+  variations: VARIATION_COUNT,
+};
+
+const describeRiffContext = (context: RiffContext): string => {
+  if (context.sourceType === 'headline') {
+    return `The batch was made from this news headline: "${context.inputText}".`;
+  }
+  if (context.sourceType === 'photo') {
+    const note = context.inputText.trim() ? `, with this context from the team: "${context.inputText.trim()}"` : '';
+    return `The batch captioned real photos from our own events${note}.`;
+  }
+  return `The batch was made from this user prompt: "${context.inputText}".`;
+};
+
+const RIFF_INSTRUCTIONS: Record<MemeRiffKind, (seed: MemeConcept, count: number) => string> = {
+  caption: (seed, count) => `Write ${count} new caption(s) for the seed meme's image. Use the "${seed.templateId}" template and copy every image slot's prompt exactly. Only rewrite the text slots, with a different joke that still fits the picture.`,
+  concept: (_seed, count) => `Generate ${count} completely new meme concept(s) for the same headline or prompt. Take a different angle than the seed meme: don't reuse its joke or its image idea. ${IMAGE_PROMPT_GUIDELINES}`,
+  variations: (_seed, count) => `Generate ${count} distinct variations of the seed meme. Keep its core joke, but vary the wording, the image idea, or the template from one variation to the next. ${IMAGE_PROMPT_GUIDELINES}`,
+};
 
-  await new Promise(resolve => setTimeout(resolve, 1500));
+const getRiffConcepts = async (
+  kind: MemeRiffKind,
+  seed: MemeConcept,
+  context: RiffContext,
+  examples: MemeConcept[],
+  rejectedExamples: RejectedExample[],
+  keepsImages: boolean
+): Promise<MemeConcept[]> => {
+  const model = context.textModel;
+  const count = RIFF_COUNTS[kind];
+  const systemInstruction = createSystemInstruction(examples, rejectedExamples, count);
+  const instruction = RIFF_INSTRUCTIONS[keepsImages ? 'caption' : kind](seed, count);
+  const prompt = `${describeRiffContext(context)} The team picked this meme from the batch as a seed:\n${formatExample(seed)}\n\n${instruction}`;
 
-  return { success: true };
-};
\ No newline at end of file
+  const response = await ai.models.generateContent({
+    model: model,
+    contents: prompt,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: memeSchema,
+    },
+  });
+
+  return parseMemeConcepts(response.text.trim());
+};
+
+/**
+ * Makes new memes from a seed meme, for the seed's batch:
+ * - 'caption': a new joke on the same image(s), which are reused as they are.
+ * - 'concept': a fresh take on the batch's headline or prompt.
+ * - 'variations': VARIATION_COUNT variations on the seed's joke.
+ * New images come from the seed's provider. Photo memes keep their photo, so every riff on them is a new caption.
+ * Riffs go through the same moderation gate as batches. The memes are not recorded; save them with the batch history.
+ */
+export const riffOnMeme = async (
+  kind: MemeRiffKind,
+  seed: GeneratedMeme,
+  context: RiffContext,
+  examples: FewShotExample[],
+  credentials: ImageProviderCredentials,
+  supabaseUrl: string,
+  supabaseAnonKey: string
+): Promise<GeneratedMeme[]> => {
+  const [rejectedExamples, moderationPolicy] = await Promise.all([
+    getRejectedExamples(supabaseUrl, supabaseAnonKey),
+    getModerationPolicy(supabaseUrl, supabaseAnonKey),
+  ]);
+  const keepsImages = kind === 'caption' || seed.modelUsed === PHOTO_MODEL_ID;
+  const concepts = await getRiffConcepts(kind, seed, context, examples, rejectedExamples, keepsImages);
+  if (concepts.length === 0) {
+    throw new Error("AI did not return any meme concepts.");
+  }
+
+  if (!keepsImages) {
+    const { memes } = await makeModeratedMemes(concepts, moderationPolicy, allowedConcepts =>
+      processConceptsIntoMemes(allowedConcepts, allowedConcepts.map(() => seed.modelUsed), credentials, seed.batchId));
+    return memes;
+  }
+
+  // Keep the seed's template and image prompts, whatever the model sent back, so the images still match.
+  const imageSlotIds = getImageSlots(seed.templateId).map(slot => slot.id);
+  const captionConcepts = concepts.slice(0, RIFF_COUNTS[kind]).map(concept => {
+    const captionConcept = normalizeMemeConcept({
+      templateId: seed.templateId,
+      slots: getMemeTemplate(seed.templateId).slots.map(slot => ({
+        slotId: slot.id,
+        value: imageSlotIds.includes(slot.id) ? getSlotValue(seed.slots, slot.id) : getSlotValue(concept.slots, slot.id),
+      })),
+    });
+    // A caption for a different template doesn't map onto the seed's text slots; fall back to its main captions.
+    const hasAllSlots = captionConcept.slots.every(slot => slot.value.trim());
+    return hasAllSlots && captionConcept.templateId === seed.templateId
+      ? captionConcept
+      : normalizeMemeConcept({ templateId: 'classic', topText: concept.topText, bottomText: concept.bottomText, imagePrompt: seed.imagePrompt });
+  });
+
+  const { memes } = await makeModeratedMemes(captionConcepts, moderationPolicy, allowedConcepts => Promise.all(allowedConcepts.map(async newConcept => {
+    const startedAt = performance.now();
+
+    return {
+      ...newConcept,
+      id: crypto.randomUUID(),
+      batchId: seed.batchId,
+      imageUrl: seed.imageUrl,
+      // A classic fallback shows the seed's first image, which is what imageUrl holds.
+      slotImageUrls: newConcept.templateId === seed.templateId
+        ? seed.slotImageUrls
+        : { [getImageSlots(newConcept.templateId)[0].id]: seed.imageUrl },
+      ...await generateMemeCopy(newConcept),
+      status: 'pending' as const,
+      modelUsed: seed.modelUsed,
+      generationDurationMs: Math.round(performance.now() - startedAt),
+    };
+  })));
+  return memes;
+};
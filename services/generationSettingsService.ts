@@ -0,0 +1,73 @@
+import type { GenerationSettings } from '../types';
+import { getSupabaseClient } from './feedbackService';
+import { DEFAULT_GENERATION_SETTINGS } from './geminiService';
+
+// --- Supabase Setup Instructions for the generation settings table ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script, with policies).
+// Each admin has one row; autopilot campaigns keep their own copy of these settings.
+/*
+   CREATE TABLE generation_settings (
+     user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+     updated_at TIMESTAMPTZ DEFAULT NOW(),
+     concept_count SMALLINT NOT NULL DEFAULT 5 CHECK (concept_count BETWEEN 1 AND 10),
+     images_per_concept SMALLINT NOT NULL DEFAULT 1 CHECK (images_per_concept BETWEEN 1 AND 4),
+     model_preference JSONB NOT NULL DEFAULT '{}',
+     text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro'
+   );
+*/
+
+/**
+ * Loads the signed-in admin's generation settings.
+ * Falls back to the defaults when none are saved yet or the table is missing, so generation keeps working.
+ */
+export const getGenerationSettings = async (supabaseUrl: string, supabaseAnonKey: string): Promise<GenerationSettings> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data: { session } } = await client.auth.getSession();
+    if (!session) return DEFAULT_GENERATION_SETTINGS;
+
+    const { data, error } = await client
+        .from('generation_settings')
+        .select('*')
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+
+    if (error) {
+        console.warn("[Supabase] Could not load generation settings, using the defaults:", error.message);
+        return DEFAULT_GENERATION_SETTINGS;
+    }
+    if (!data) return DEFAULT_GENERATION_SETTINGS;
+
+    return {
+        conceptCount: data.concept_count,
+        imagesPerConcept: data.images_per_concept,
+        modelPreference: data.model_preference ?? {},
+        textModel: data.text_model,
+    };
+};
+
+export const saveGenerationSettings = async (settings: GenerationSettings, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data: { session } } = await client.auth.getSession();
+    if (!session) {
+        throw new Error('Sign in to save your generation settings.');
+    }
+
+    const { error } = await client
+        .from('generation_settings')
+        .upsert({
+            user_id: session.user.id,
+            updated_at: new Date().toISOString(),
+            concept_count: settings.conceptCount,
+            images_per_concept: settings.imagesPerConcept,
+            model_preference: settings.modelPreference,
+            text_model: settings.textModel,
+        });
+
+    if (error) {
+        console.error("[Supabase] Saving generation settings failed:", JSON.stringify(error, null, 2));
+        if (error.message.includes('generation_settings')) {
+            throw new Error("Failed to save generation settings: The 'generation_settings' table was not found. Please run the 'Generation Settings SQL' from the Admin panel.");
+        }
+        throw new Error(`Failed to save generation settings: ${error.message}`);
+    }
+};
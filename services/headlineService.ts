@@ -0,0 +1,232 @@
+import type { Headline, HeadlineFeed } from '../types';
+import { API_URL } from './emailService';
+import { getSupabaseClient } from './feedbackService';
+import type { ParsedFeedItem } from './feedParser';
+import { getHeadlineDedupeKey } from './feedParser';
+
+const MAX_INBOX_HEADLINES = 30;
+/** The inbox only shows headlines first seen this recently; older news makes for stale memes. */
+const MAX_HEADLINE_AGE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Supabase Setup Instructions for the headline inbox ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script, with policies).
+// The worker fetches the enabled feeds and adds their new headlines; the same story is stored once.
+/*
+   CREATE TABLE headline_feeds (
+     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     name TEXT NOT NULL,
+     url TEXT NOT NULL UNIQUE,
+     is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+     last_fetched_at TIMESTAMPTZ,
+     last_error TEXT
+   );
+
+   CREATE TABLE headlines (
+     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     feed_id UUID REFERENCES headline_feeds(id) ON DELETE SET NULL,
+     title TEXT NOT NULL,
+     link TEXT NOT NULL DEFAULT '',
+     published_at TIMESTAMPTZ,
+     dedupe_key TEXT NOT NULL UNIQUE,
+     used_at TIMESTAMPTZ,
+     used_by_batch_id UUID
+   );
+*/
+
+/** A row of the headline_feeds table. */
+interface HeadlineFeedRow {
+    id: string;
+    created_at: string;
+    name: string;
+    url: string;
+    is_enabled: boolean;
+    last_fetched_at: string | null;
+    last_error: string | null;
+}
+
+/** A row of the headlines table, with its feed's name when the query embeds it. */
+interface HeadlineRow {
+    id: string;
+    created_at: string;
+    feed_id: string | null;
+    title: string;
+    link: string;
+    published_at: string | null;
+    dedupe_key: string;
+    used_at: string | null;
+    used_by_batch_id: string | null;
+    headline_feeds?: { name: string } | null;
+}
+
+const toHeadlineFeed = (row: HeadlineFeedRow): HeadlineFeed => ({
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    isEnabled: row.is_enabled,
+    lastFetchedAt: row.last_fetched_at ?? null,
+    lastError: row.last_error ?? undefined,
+});
+
+const toHeadline = (row: HeadlineRow): Headline => ({
+    id: row.id,
+    feedId: row.feed_id ?? null,
+    feedName: row.headline_feeds?.name ?? 'Removed feed',
+    title: row.title,
+    link: row.link,
+    publishedAt: row.published_at ?? null,
+    usedAt: row.used_at ?? undefined,
+    usedByBatchId: row.used_by_batch_id ?? undefined,
+});
+
+const throwHeadlineError = (action: string, error: { message: string; code?: string }): never => {
+    console.error(`[Supabase] ${action} failed:`, JSON.stringify(error, null, 2));
+    if (error.message.includes('headline') && (error.message.includes('does not exist') || error.message.includes('schema cache'))) {
+        throw new Error(`Failed to ${action.toLowerCase()}: The headline inbox tables are missing. Please run the 'Headline Inbox SQL' from the Admin panel.`);
+    }
+    if (error.code === '23505') {
+        throw new Error(`Failed to ${action.toLowerCase()}: That feed has already been added.`);
+    }
+    throw new Error(`Failed to ${action.toLowerCase()}: ${error.message}`);
+};
+
+export const getHeadlineFeeds = async (supabaseUrl: string, supabaseAnonKey: string): Promise<HeadlineFeed[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('headline_feeds')
+        .select('*')
+        .order('name', { ascending: true });
+
+    if (error) throwHeadlineError('Load headline feeds', error);
+    return (data ?? []).map(toHeadlineFeed);
+};
+
+export const addHeadlineFeed = async (name: string, url: string, supabaseUrl: string, supabaseAnonKey: string): Promise<HeadlineFeed> => {
+    if (!/^https?:\/\//.test(url.trim())) {
+        throw new Error('The feed URL must start with http:// or https://.');
+    }
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('headline_feeds')
+        .insert({ name: name.trim(), url: url.trim() })
+        .select()
+        .single();
+
+    if (error) throwHeadlineError('Add headline feed', error);
+    return toHeadlineFeed(data);
+};
+
+export const setHeadlineFeedEnabled = async (feedId: string, isEnabled: boolean, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.from('headline_feeds').update({ is_enabled: isEnabled }).eq('id', feedId);
+
+    if (error) throwHeadlineError('Update headline feed', error);
+};
+
+/** Deletes a feed. Its headlines stay in the inbox. */
+export const deleteHeadlineFeed = async (feedId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.from('headline_feeds').delete().eq('id', feedId);
+
+    if (error) throwHeadlineError('Delete headline feed', error);
+};
+
+/**
+ * The newest unused headlines from the last MAX_HEADLINE_AGE_DAYS, newest first.
+ * Autopilot campaigns take their headlines from the top of this list too.
+ */
+export const getUnusedHeadlines = async (supabaseUrl: string, supabaseAnonKey: string, limit: number = MAX_INBOX_HEADLINES): Promise<Headline[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('headlines')
+        .select('*, headline_feeds(name)')
+        .is('used_at', null)
+        .gte('created_at', new Date(Date.now() - MAX_HEADLINE_AGE_DAYS * DAY_MS).toISOString())
+        .order('published_at', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throwHeadlineError('Load headline inbox', error);
+    return (data ?? []).map(toHeadline);
+};
+
+/**
+ * Marks headlines as used, so they leave the inbox. Pass the batch made from them, or null when dismissing.
+ */
+export const markHeadlinesUsed = async (headlineIds: string[], batchId: string | null, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('headlines')
+        .update({ used_at: new Date().toISOString(), used_by_batch_id: batchId })
+        .in('id', headlineIds);
+
+    if (error) throwHeadlineError('Mark headlines as used', error);
+};
+
+/**
+ * Asks the worker to fetch every enabled feed now instead of waiting for its next poll.
+ * @returns How many new headlines were added.
+ * @throws An Error when the worker's API can't be reached.
+ */
+export const refreshHeadlineFeedsNow = async (supabaseUrl: string, supabaseAnonKey: string): Promise<number> => {
+    const { data: { session } } = await getSupabaseClient(supabaseUrl, supabaseAnonKey).auth.getSession();
+    if (!session) {
+        throw new Error("Please sign in as an admin to refresh the feeds.");
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(`${API_URL}/api/headline-feeds/refresh`, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${session.access_token}` },
+        });
+    } catch (error) {
+        console.error("[Headlines] Could not reach the worker's API:", error);
+        throw new Error("Could not reach the worker. Make sure it is running (see the README).");
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(`Could not refresh the feeds: ${body?.error ?? `the worker responded with ${response.status}.`}`);
+    }
+    return body.added;
+};
+
+// --- Worker operations ---
+
+/**
+ * Adds a feed's items to the inbox, skipping stories that are already there (from any feed) and
+ * items published more than MAX_HEADLINE_AGE_DAYS ago.
+ * @returns How many headlines were new.
+ */
+export const saveFeedHeadlines = async (feed: HeadlineFeed, items: ParsedFeedItem[], supabaseUrl: string, supabaseAnonKey: string): Promise<number> => {
+    const oldest = Date.now() - MAX_HEADLINE_AGE_DAYS * DAY_MS;
+    const rows = new Map<string, object>();
+    for (const item of items) {
+        const dedupeKey = getHeadlineDedupeKey(item.title);
+        if (!dedupeKey || rows.has(dedupeKey) || (item.publishedAt && new Date(item.publishedAt).getTime() < oldest)) continue;
+        rows.set(dedupeKey, { feed_id: feed.id, title: item.title, link: item.link, published_at: item.publishedAt, dedupe_key: dedupeKey });
+    }
+    if (rows.size === 0) return 0;
+
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('headlines')
+        .upsert(Array.from(rows.values()), { onConflict: 'dedupe_key', ignoreDuplicates: true })
+        .select('id');
+
+    if (error) throwHeadlineError('Save headlines', error);
+    return data?.length ?? 0;
+};
+
+export const recordHeadlineFeedFetch = async (feed: HeadlineFeed, errorMessage: string | null, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('headline_feeds')
+        .update({ last_fetched_at: new Date().toISOString(), last_error: errorMessage })
+        .eq('id', feed.id);
+
+    if (error) throwHeadlineError('Record headline feed fetch', error);
+};
@@ -0,0 +1,390 @@
+import type { FewShotExample, GenerationBatch, GenerationSourceType, GeneratedMeme, MemeSlotValue, MemeStatus, ModelPreference, ModerationResult, ProviderApprovalStats, RejectedExample, RejectionReason, RejectionTag, SocialCopySet } from '../types';
+import { getSupabaseClient, uploadMemeImage } from './feedbackService';
+import type { RawMemeConcept } from './memeTemplates';
+import { normalizeMemeConcept } from './memeTemplates';
+import { hasRejectionReason } from './rejectionReasons';
+
+const MAX_HISTORY_BATCHES = 20;
+/** Provider selection learns from this many recent review decisions, so it keeps up when providers change. */
+const MAX_DECISIONS = 500;
+/** The "avoid these" section of the system instruction lists at most this many rejections... */
+const MAX_REJECTED_EXAMPLES = 8;
+/** ...picked from this many recent ones, skipping those rejected without a reason. */
+const MAX_REJECTIONS_SCANNED = 50;
+
+// --- Supabase Setup Instructions for the history tables ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script, with policies):
+/*
+   CREATE TABLE generation_batches (
+     id UUID PRIMARY KEY,
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     source_type TEXT NOT NULL,
+     input_text TEXT NOT NULL,
+     inspiration_set_name TEXT NOT NULL DEFAULT '',
+     inspiration_links TEXT NOT NULL DEFAULT '',
+     system_instruction_version TEXT NOT NULL,
+     examples JSONB NOT NULL DEFAULT '[]',
+     rejected_examples JSONB NOT NULL DEFAULT '[]',
+     text_model TEXT NOT NULL DEFAULT 'gemini-2.5-pro',
+     images_per_concept SMALLINT NOT NULL DEFAULT 1,
+     model_preference JSONB NOT NULL DEFAULT '{}',
+     status TEXT NOT NULL,
+     error_message TEXT,
+     started_at TIMESTAMPTZ NOT NULL,
+     completed_at TIMESTAMPTZ NOT NULL,
+     concept_duration_ms INTEGER,
+     total_duration_ms INTEGER NOT NULL,
+     blocked_count SMALLINT NOT NULL DEFAULT 0
+   );
+
+   CREATE TABLE generated_memes (
+     id UUID PRIMARY KEY,
+     batch_id UUID NOT NULL REFERENCES generation_batches(id) ON DELETE CASCADE,
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     updated_at TIMESTAMPTZ DEFAULT NOW(),
+     template_id TEXT NOT NULL DEFAULT 'classic',
+     slots JSONB NOT NULL DEFAULT '[]',
+     top_text TEXT NOT NULL,
+     bottom_text TEXT NOT NULL,
+     image_prompt TEXT NOT NULL,
+     alt_text TEXT NOT NULL,
+     social_copy JSONB NOT NULL DEFAULT '{}',
+     model_used TEXT NOT NULL,
+     image_url TEXT NOT NULL,
+     slot_image_urls JSONB NOT NULL DEFAULT '{}',
+     status TEXT NOT NULL DEFAULT 'pending',
+     rejection_tags TEXT[] NOT NULL DEFAULT '{}',
+     rejection_note TEXT NOT NULL DEFAULT '',
+     original_concept JSONB,
+     generation_duration_ms INTEGER,
+     moderation JSONB
+   );
+*/
+
+/** A row of the generation_batches table. */
+interface GenerationBatchRow {
+    id: string;
+    source_type: GenerationSourceType;
+    input_text: string;
+    inspiration_set_name: string | null;
+    inspiration_links: string;
+    system_instruction_version: string;
+    examples: FewShotExample[];
+    rejected_examples: RejectedExample[] | null;
+    text_model: string | null;
+    images_per_concept: number | null;
+    model_preference: ModelPreference;
+    status: GenerationBatch['status'];
+    error_message: string | null;
+    started_at: string;
+    completed_at: string;
+    concept_duration_ms: number | null;
+    total_duration_ms: number;
+    blocked_count: number | null;
+    generated_memes?: GeneratedMemeRow[] | null;
+}
+
+/** A row of the generated_memes table. */
+interface GeneratedMemeRow {
+    id: string;
+    batch_id: string;
+    template_id: string;
+    slots: MemeSlotValue[];
+    top_text: string;
+    bottom_text: string;
+    image_prompt: string;
+    alt_text: string;
+    social_copy: SocialCopySet | null;
+    model_used: string;
+    image_url: string;
+    slot_image_urls: Record<string, string> | null;
+    status: MemeStatus;
+    rejection_tags: RejectionTag[] | null;
+    rejection_note: string | null;
+    original_concept: RawMemeConcept | null;
+    generation_duration_ms: number | null;
+    moderation: ModerationResult | null;
+}
+
+/** The columns getRejectedExamples reads from a rejected generated_memes row. */
+type RejectedMemeRow = Pick<GeneratedMemeRow, 'template_id' | 'slots' | 'top_text' | 'bottom_text' | 'image_prompt' | 'rejection_tags' | 'rejection_note'>;
+
+const toRejectionReason = (item: Pick<GeneratedMemeRow, 'rejection_tags' | 'rejection_note'>): RejectionReason => ({
+    tags: item.rejection_tags ?? [],
+    note: item.rejection_note ?? '',
+});
+
+// Map a Supabase snake_case generated_memes row to our camelCase type
+const toGeneratedMeme = (item: GeneratedMemeRow): GeneratedMeme => ({
+    ...normalizeMemeConcept({
+        templateId: item.template_id,
+        slots: item.slots,
+        topText: item.top_text,
+        bottomText: item.bottom_text,
+        imagePrompt: item.image_prompt,
+    }),
+    id: item.id,
+    batchId: item.batch_id,
+    imageUrl: item.image_url,
+    slotImageUrls: item.slot_image_urls ?? {},
+    altText: item.alt_text,
+    socialCopy: item.social_copy ?? {},
+    status: item.status,
+    modelUsed: item.model_used,
+    generationDurationMs: item.generation_duration_ms ?? undefined,
+    rejectionReason: item.status === 'rejected' ? toRejectionReason(item) : undefined,
+    originalConcept: item.original_concept ? normalizeMemeConcept(item.original_concept) : undefined,
+    moderation: item.moderation ?? undefined,
+});
+
+/**
+ * Uploads a meme's images to the 'memes' bucket under history/ and upserts its row.
+ * Generated images are data URLs that vanish with the page, so they are copied to storage.
+ */
+const upsertGeneratedMemes = async (batchId: string, memes: GeneratedMeme[], supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+
+    const rows = await Promise.all(memes.map(async meme => {
+        const imageUrl = await uploadMemeImage(client, meme.imageUrl, `history/${meme.id}`);
+        const slotImageUrls: Record<string, string> = {};
+        for (const [slotId, slotImageUrl] of Object.entries(meme.slotImageUrls ?? {})) {
+            slotImageUrls[slotId] = slotImageUrl === meme.imageUrl
+                ? imageUrl
+                : await uploadMemeImage(client, slotImageUrl, `history/${meme.id}-${slotId}`);
+        }
+
+        return {
+            id: meme.id,
+            batch_id: batchId,
+            updated_at: new Date().toISOString(),
+            template_id: meme.templateId,
+            slots: meme.slots,
+            top_text: meme.topText,
+            bottom_text: meme.bottomText,
+            image_prompt: meme.imagePrompt,
+            alt_text: meme.altText,
+            social_copy: meme.socialCopy ?? {},
+            model_used: meme.modelUsed,
+            image_url: imageUrl,
+            slot_image_urls: slotImageUrls,
+            status: meme.status,
+            original_concept: meme.originalConcept ?? null,
+            generation_duration_ms: meme.generationDurationMs ?? null,
+            moderation: meme.moderation ?? null,
+        };
+    }));
+
+    const { error } = await client.from('generated_memes').upsert(rows);
+    if (error) {
+        console.error("[Supabase] Saving generated memes failed:", JSON.stringify(error, null, 2));
+        throw new Error(`Failed to save generated memes: ${error.message}`);
+    }
+};
+
+/**
+ * Records a batch and all of its memes. Failed batches are recorded too, without memes.
+ */
+export const saveGenerationBatch = async (batch: GenerationBatch, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+
+    const { error } = await client
+        .from('generation_batches')
+        .insert({
+            id: batch.id,
+            source_type: batch.sourceType,
+            input_text: batch.inputText,
+            inspiration_set_name: batch.inspirationSetName,
+            inspiration_links: batch.inspirationLinks,
+            system_instruction_version: batch.systemInstructionVersion,
+            examples: batch.examples,
+            rejected_examples: batch.rejectedExamples,
+            text_model: batch.textModel,
+            images_per_concept: batch.imagesPerConcept,
+            model_preference: batch.modelPreference,
+            status: batch.status,
+            error_message: batch.errorMessage ?? null,
+            started_at: batch.startedAt,
+            completed_at: batch.completedAt,
+            concept_duration_ms: batch.conceptDurationMs ?? null,
+            total_duration_ms: batch.totalDurationMs,
+            blocked_count: batch.blockedCount,
+        });
+
+    if (error) {
+        console.error("[Supabase] Saving generation batch failed:", JSON.stringify(error, null, 2));
+        if (error.message.toLowerCase().includes('generation_batches')) {
+            throw new Error("Failed to save batch history: The 'generation_batches' table was not found. Please run the 'History Tables SQL' from the Admin panel.");
+        }
+        throw new Error(`Failed to save batch history: ${error.message}`);
+    }
+
+    if (batch.memes.length > 0) {
+        await upsertGeneratedMemes(batch.id, batch.memes, supabaseUrl, supabaseAnonKey);
+    }
+    console.log(`[Supabase] Batch ${batch.id} saved with ${batch.memes.length} memes.`);
+};
+
+/**
+ * Re-saves a meme whose images changed after the batch was recorded (e.g. after a regeneration).
+ */
+export const saveGeneratedMeme = async (meme: GeneratedMeme, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    if (!meme.batchId) return;
+    await upsertGeneratedMemes(meme.batchId, [meme], supabaseUrl, supabaseAnonKey);
+};
+
+/**
+ * Records the admin's decision on a meme so the batch history reflects its final status.
+ * Rejections also record the reviewer's reason, which later batches are told to avoid.
+ */
+export const updateGeneratedMemeStatus = async (
+    id: string,
+    status: MemeStatus,
+    supabaseUrl: string,
+    supabaseAnonKey: string,
+    rejectionReason?: RejectionReason
+): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('generated_memes')
+        .update({
+            status,
+            updated_at: new Date().toISOString(),
+            ...(status === 'rejected' && rejectionReason && {
+                rejection_tags: rejectionReason.tags,
+                rejection_note: rejectionReason.note.trim(),
+            }),
+        })
+        .eq('id', id);
+
+    if (error) {
+        console.error("[Supabase] Updating meme status failed:", JSON.stringify(error, null, 2));
+        throw new Error(`Failed to update meme status: ${error.message}`);
+    }
+};
+
+/**
+ * Retrieves the most recent generation batches, newest first, with their memes.
+ */
+export const getGenerationBatches = async (supabaseUrl: string, supabaseAnonKey: string, limit: number = MAX_HISTORY_BATCHES): Promise<GenerationBatch[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('generation_batches')
+        .select('*, generated_memes(*)')
+        .order('created_at', { ascending: false })
+        .order('created_at', { referencedTable: 'generated_memes', ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error("[Supabase] Failed to retrieve batch history:", JSON.stringify(error, null, 2));
+        throw new Error(`Failed to load batch history: ${error.message}`);
+    }
+
+    // Map Supabase snake_case to our camelCase type
+    return (data as GenerationBatchRow[]).map((batch): GenerationBatch => ({
+        id: batch.id,
+        sourceType: batch.source_type,
+        inputText: batch.input_text,
+        inspirationSetName: batch.inspiration_set_name ?? '',
+        inspirationLinks: batch.inspiration_links,
+        systemInstructionVersion: batch.system_instruction_version,
+        examples: batch.examples,
+        rejectedExamples: batch.rejected_examples ?? [],
+        textModel: batch.text_model ?? 'gemini-2.5-pro',
+        imagesPerConcept: batch.images_per_concept ?? 1,
+        modelPreference: batch.model_preference,
+        status: batch.status,
+        errorMessage: batch.error_message ?? undefined,
+        startedAt: batch.started_at,
+        completedAt: batch.completed_at,
+        conceptDurationMs: batch.concept_duration_ms ?? undefined,
+        totalDurationMs: batch.total_duration_ms,
+        blockedCount: batch.blocked_count ?? 0,
+        memes: (batch.generated_memes ?? []).map(toGeneratedMeme),
+    }));
+};
+
+/**
+ * Retrieves one recorded meme, or null when it isn't in the history tables.
+ */
+export const getGeneratedMeme = async (id: string, supabaseUrl: string, supabaseAnonKey: string): Promise<GeneratedMeme | null> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('generated_memes')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) {
+        console.error("[Supabase] Failed to retrieve generated meme:", JSON.stringify(error, null, 2));
+        throw new Error(`Failed to load meme: ${error.message}`);
+    }
+    return data ? toGeneratedMeme(data as GeneratedMemeRow) : null;
+};
+
+/**
+ * Counts recent approvals and rejections per image provider and template, from the memes' review status.
+ * Returns no stats (so every provider looks equally promising) when the history tables aren't set up.
+ */
+export const getProviderApprovalStats = async (supabaseUrl: string, supabaseAnonKey: string, limit: number = MAX_DECISIONS): Promise<ProviderApprovalStats[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('generated_memes')
+        .select('model_used, template_id, status')
+        .in('status', ['approved', 'rejected'] satisfies MemeStatus[])
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.warn("[Supabase] Could not load review decisions for provider selection:", error.message);
+        return [];
+    }
+
+    const stats = new Map<string, ProviderApprovalStats>();
+    for (const row of data) {
+        const key = `${row.model_used}|${row.template_id}`;
+        const entry = stats.get(key) ?? { providerId: row.model_used, templateId: row.template_id, approvals: 0, rejections: 0 };
+        if (row.status === 'approved') entry.approvals++;
+        else entry.rejections++;
+        stats.set(key, entry);
+    }
+    return Array.from(stats.values());
+};
+
+/**
+ * The most recent rejections that came with a reason, one per caption, to show the model what to avoid.
+ * Returns none when the history tables aren't set up.
+ */
+export const getRejectedExamples = async (supabaseUrl: string, supabaseAnonKey: string, limit: number = MAX_REJECTED_EXAMPLES): Promise<RejectedExample[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('generated_memes')
+        .select('template_id, slots, top_text, bottom_text, image_prompt, rejection_tags, rejection_note')
+        .eq('status', 'rejected' satisfies MemeStatus)
+        .order('updated_at', { ascending: false })
+        .limit(MAX_REJECTIONS_SCANNED);
+
+    if (error) {
+        console.warn("[Supabase] Could not load recent rejections:", error.message);
+        return [];
+    }
+
+    const examples = new Map<string, RejectedExample>();
+    for (const item of data as RejectedMemeRow[]) {
+        const rejectionReason = toRejectionReason(item);
+        const key = `${item.top_text}|${item.bottom_text}`;
+        if (!hasRejectionReason(rejectionReason) || examples.has(key)) continue;
+
+        examples.set(key, {
+            ...normalizeMemeConcept({
+                templateId: item.template_id,
+                slots: item.slots,
+                topText: item.top_text,
+                bottomText: item.bottom_text,
+                imagePrompt: item.image_prompt,
+            }),
+            rejectionReason,
+        });
+        if (examples.size === limit) break;
+    }
+    return Array.from(examples.values());
+};
@@ -0,0 +1,367 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { ImageProviderId } from '../types';
+
+// A lightweight, self-contained placeholder SVG for when Gemini image generation fails.
+const GEMINI_PLACEHOLDER_IMAGE_URL = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3QgZmlsbD0iIzExMTgyNyIgd2lkdGg9IjUxMiIgaGVpZhtPSI1MTIiLz48dGV4dCB4PSI1MCUiIHk9IjQ4JSIgZG9taW5hbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMzJweCIgZmlsbD0iI2Y4NzE3MSIgZm9udC13ZWlnaHQ9ImJvbGQiPlRIRSBBSSBHT1QgU0hZPC90ZXh0Pjx0ZXh0IHg9IjUwJSIgeT0iNTglIiBkb21pbmFhbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMThweCIgZmlsbD0iI2VhYTNmIj5JbWFnZSBnZW5lcmF0aW9uIGZhaWxlZC48L3RleHQ+PC9zdmc+';
+
+// A placeholder for the DALL-E 3 image generation.
+const DALLE_PLACEHOLDER_IMAGE_URL = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3QgZmlsbD0iIzFlMWI0YiIgd2lkdGg9IjUxMiIgaGVpZ2h0PSI1MTIiLz48dGV4dCB4PSI1MCUiIHk9IjQ4JSIgZG9taW5hbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMzJweCIgZmlsbD0iI2E3OGJmYSIgZm9udC1wZWlnaHQ9ImJvbGQiPkRBTFktRSAzIEFUIFRIRSBFQVNFTDwvdGV4dD48dGV4dCB4PSI1MCUiIHk9IjU4JSIgZG9taW5hbnQtYmFzZWxpbmU9Im1pZGRsZSIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1mYW1pbHk9InNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMThweCIgZmlsbD0iI2M0YjVmZCI+U2ltdWxhdGluZyBPcGVuQUkgaW1hZ2UgZ2VuZXJhdGlvbi48L3RleHQ+PC9zdmc+';
+
+const NO_TEXT_INSTRUCTION = 'IMPORTANT: The generated image must not contain any text, letters, words, or numbers. It should be purely visual.';
+
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+/**
+ * Everything a provider may need to authenticate or reach its backend.
+ * Keys are entered in the admin panel and only live in browser memory.
+ */
+export interface ImageProviderCredentials {
+  openAiApiKey: string;
+  stableDiffusionUrl: string;
+}
+
+export interface ImageProviderCapabilities {
+  sizes: string[];
+  aspectRatios: string[];
+  supportsEditing: boolean;
+}
+
+export interface ImageGenerationOptions {
+  aspectRatio?: string;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  capabilities: ImageProviderCapabilities;
+  /** Returns false when required credentials are missing, so the scheduler can fall back. */
+  isConfigured: (credentials: ImageProviderCredentials) => boolean;
+  /** Resolves to a data URL. Failures resolve to a placeholder image instead of throwing. */
+  generate: (prompt: string, credentials: ImageProviderCredentials, options?: ImageGenerationOptions) => Promise<string>;
+}
+
+export const DEFAULT_IMAGE_PROVIDER_ID: ImageProviderId = 'gemini';
+
+/**
+ * `modelUsed` of memes whose image is one of our own photos. It isn't a registered provider, so
+ * nothing ever generates a new image for these memes: edits, riffs and regeneration keep the photo.
+ */
+export const PHOTO_MODEL_ID: ImageProviderId = 'photo';
+
+const providers = new Map<ImageProviderId, ImageProvider>();
+
+export const registerImageProvider = (provider: ImageProvider): void => {
+  if (providers.has(provider.id)) {
+    console.warn(`Image provider "${provider.id}" is already registered. Replacing it.`);
+  }
+  providers.set(provider.id, provider);
+};
+
+export const getImageProvider = (id: ImageProviderId): ImageProvider | undefined => providers.get(id);
+
+export const listImageProviders = (): ImageProvider[] => Array.from(providers.values());
+
+/** A display label for a provider id, including ids stored by providers that are no longer registered. */
+export const getImageProviderLabel = (id: ImageProviderId): string =>
+  id === PHOTO_MODEL_ID ? 'Our photo' : providers.get(id)?.label ?? id;
+
+
+export const generateImage = async (prompt: string): Promise<string> => {
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: {
+        parts: [
+          {
+            text: `In a vibrant, high contrast, pop art meme aesthetic: ${prompt}. ${NO_TEXT_INSTRUCTION}`,
+          },
+        ],
+      },
+      config: {
+          responseModalities: [Modality.IMAGE],
+      },
+    });
+
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+
+    if (part?.inlineData) {
+      const base64ImageBytes: string = part.inlineData.data;
+      const mimeType = part.inlineData.mimeType;
+      return `data:${mimeType};base64,${base64ImageBytes}`;
+    }
+
+    console.error('Gemini Image generation failed: API response did not contain valid image data for prompt:', prompt);
+    console.error('Full API response object:', JSON.stringify(response, null, 2));
+    return GEMINI_PLACEHOLDER_IMAGE_URL;
+
+  } catch (error) {
+    console.error(`Gemini Image generation process caught an exception for prompt: "${prompt}"`, error);
+    return GEMINI_PLACEHOLDER_IMAGE_URL;
+  }
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // In chunks, so large images don't overflow the argument list.
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** Downloads an image (a remote, object or data URL) as base64, to send it to a model. */
+export const fetchImageAsBase64 = async (imageUrl: string): Promise<{ data: string; mimeType: string }> => {
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch the image (status ${response.status}).`);
+  }
+  const mimeType = response.headers.get('content-type') ?? 'image/png';
+  return { data: toBase64(new Uint8Array(await response.arrayBuffer())), mimeType };
+};
+
+/**
+ * Changes an existing image as the instruction says, with Gemini's image model.
+ * @returns A data URL of the new image.
+ * @throws An Error when Gemini doesn't return an image, so callers can keep the original.
+ */
+export const editImageWithGemini = async (imageUrl: string, instruction: string): Promise<string> => {
+  const image = await fetchImageAsBase64(imageUrl);
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: {
+      parts: [
+        { inlineData: image },
+        { text: `${instruction}. Do not add any text, letters, or words to the image.` },
+      ],
+    },
+    config: {
+        responseModalities: [Modality.IMAGE],
+    },
+  });
+
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+  if (!part?.inlineData) {
+    console.error('Gemini image editing failed: API response did not contain image data for instruction:', instruction);
+    throw new Error('Gemini did not return an edited image. Try rewording the instruction.');
+  }
+  return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+};
+
+
+/**
+ * Shared request logic for OpenAI's image models (DALL-E 3 and gpt-image).
+ */
+const requestOpenAiImage = async (label: string, body: Record<string, unknown>, apiKey: string): Promise<string> => {
+  let apiResponse;
+  try {
+    apiResponse = await fetch('https://api.openai.com/v1/images/generations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify(body)
+    });
+  } catch (networkError) {
+    console.error(`${label} network error:`, networkError);
+    return DALLE_PLACEHOLDER_IMAGE_URL;
+  }
+
+  if (!apiResponse.ok) {
+    let errorMessage = 'Unknown OpenAI API error';
+    let errorDetails = '';
+    try {
+        const rawBody = await apiResponse.text();
+        errorDetails = rawBody; // Keep raw body for logging
+        const errorData = JSON.parse(rawBody);
+        if (errorData?.error?.message) {
+            errorMessage = typeof errorData.error.message === 'string' ? errorData.error.message : JSON.stringify(errorData.error.message);
+        }
+    } catch (e) {
+        errorMessage = `API request failed with status ${apiResponse.status}. Could not parse JSON response.`;
+    }
+
+    console.error(`${label} API Error: ${errorMessage}`, `Raw Response: ${errorDetails}`);
+
+    // Provide a clear, actionable log for the most critical user-facing error.
+    if (errorMessage.includes('Billing hard limit has been reached')) {
+      console.error(`CRITICAL: OpenAI Billing Limit Reached. All subsequent ${label} generations will fail until this is resolved in your OpenAI account.`);
+    }
+
+    return DALLE_PLACEHOLDER_IMAGE_URL;
+  }
+
+  const data = await apiResponse.json();
+  const base64Image = data.data?.[0]?.b64_json;
+
+  if (!base64Image) {
+    console.error(`${label} API Error: Response did not contain image data.`, data);
+    return DALLE_PLACEHOLDER_IMAGE_URL;
+  }
+
+  return `data:image/png;base64,${base64Image}`;
+};
+
+export const generateImageWithDalle = async (prompt: string, apiKey: string): Promise<string> => {
+  if (!apiKey) {
+    console.error("DALL-E 3 configuration error: No OpenAI API key provided.");
+    return DALLE_PLACEHOLDER_IMAGE_URL;
+  }
+
+  const dallePrompt = `${prompt}. ${NO_TEXT_INSTRUCTION}`;
+  console.log(`[REAL] Calling DALL-E 3 with prompt: "${dallePrompt}"`);
+
+  return requestOpenAiImage('DALL-E 3', {
+    model: "dall-e-3",
+    prompt: dallePrompt,
+    n: 1,
+    size: "1024x1024",
+    response_format: "b64_json"
+  }, apiKey);
+};
+
+const OPENAI_SIZES_BY_ASPECT_RATIO: Record<string, string> = {
+  '1:1': '1024x1024',
+  '2:3': '1024x1536',
+  '3:2': '1536x1024',
+};
+
+const generateImageWithGptImage = async (prompt: string, apiKey: string, aspectRatio = '1:1'): Promise<string> => {
+  if (!apiKey) {
+    console.error("gpt-image configuration error: No OpenAI API key provided.");
+    return DALLE_PLACEHOLDER_IMAGE_URL;
+  }
+
+  // gpt-image always responds with base64 data, so no response_format is sent.
+  return requestOpenAiImage('gpt-image', {
+    model: "gpt-image-1",
+    prompt: `${prompt}. ${NO_TEXT_INSTRUCTION}`,
+    n: 1,
+    size: OPENAI_SIZES_BY_ASPECT_RATIO[aspectRatio] ?? '1024x1024',
+  }, apiKey);
+};
+
+const generateImageWithImagen = async (prompt: string, aspectRatio = '1:1'): Promise<string> => {
+  try {
+    const response = await ai.models.generateImages({
+      model: 'imagen-4.0-generate-001',
+      prompt: `In a vibrant, high contrast, pop art meme aesthetic: ${prompt}. ${NO_TEXT_INSTRUCTION}`,
+      config: {
+        numberOfImages: 1,
+        aspectRatio,
+        outputMimeType: 'image/png',
+      },
+    });
+
+    const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    if (imageBytes) {
+      return `data:image/png;base64,${imageBytes}`;
+    }
+
+    console.error('Imagen generation failed: API response did not contain image data for prompt:', prompt);
+    return GEMINI_PLACEHOLDER_IMAGE_URL;
+
+  } catch (error) {
+    console.error(`Imagen generation process caught an exception for prompt: "${prompt}"`, error);
+    return GEMINI_PLACEHOLDER_IMAGE_URL;
+  }
+};
+
+const STABLE_DIFFUSION_DIMENSIONS_BY_ASPECT_RATIO: Record<string, { width: number; height: number }> = {
+  '1:1': { width: 1024, height: 1024 },
+  '4:5': { width: 896, height: 1120 },
+  '9:16': { width: 768, height: 1344 },
+  '16:9': { width: 1344, height: 768 },
+};
+
+/**
+ * Calls a self-hosted Stable Diffusion server exposing the AUTOMATIC1111-style
+ * `/sdapi/v1/txt2img` route (ComfyUI can be fronted by the same API).
+ */
+const generateImageWithStableDiffusion = async (prompt: string, baseUrl: string, aspectRatio = '1:1'): Promise<string> => {
+  if (!baseUrl) {
+    console.error("Stable Diffusion configuration error: No endpoint URL provided.");
+    return GEMINI_PLACEHOLDER_IMAGE_URL;
+  }
+
+  const { width, height } = STABLE_DIFFUSION_DIMENSIONS_BY_ASPECT_RATIO[aspectRatio] ?? STABLE_DIFFUSION_DIMENSIONS_BY_ASPECT_RATIO['1:1'];
+
+  try {
+    const apiResponse = await fetch(`${baseUrl.replace(/\/+$/, '')}/sdapi/v1/txt2img`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt: `vibrant, high contrast, pop art meme aesthetic, ${prompt}`,
+        negative_prompt: 'text, letters, words, numbers, watermark, signature',
+        width,
+        height,
+        steps: 30,
+      }),
+    });
+
+    if (!apiResponse.ok) {
+      console.error(`Stable Diffusion API Error: request failed with status ${apiResponse.status}.`, await apiResponse.text());
+      return GEMINI_PLACEHOLDER_IMAGE_URL;
+    }
+
+    const data = await apiResponse.json();
+    const base64Image = data.images?.[0];
+    if (!base64Image) {
+      console.error('Stable Diffusion API Error: Response did not contain image data.', data);
+      return GEMINI_PLACEHOLDER_IMAGE_URL;
+    }
+
+    return `data:image/png;base64,${base64Image}`;
+
+  } catch (error) {
+    console.error(`Stable Diffusion generation caught an exception for prompt: "${prompt}"`, error);
+    return GEMINI_PLACEHOLDER_IMAGE_URL;
+  }
+};
+
+
+// --- Built-in providers ---
+
+registerImageProvider({
+  id: 'gemini',
+  label: 'Gemini',
+  capabilities: { sizes: ['1024x1024'], aspectRatios: ['1:1'], supportsEditing: true },
+  isConfigured: () => true,
+  generate: (prompt) => generateImage(prompt),
+});
+
+registerImageProvider({
+  id: 'dalle',
+  label: 'DALL-E 3',
+  capabilities: { sizes: ['1024x1024'], aspectRatios: ['1:1'], supportsEditing: false },
+  isConfigured: ({ openAiApiKey }) => Boolean(openAiApiKey),
+  generate: (prompt, { openAiApiKey }) => generateImageWithDalle(prompt, openAiApiKey),
+});
+
+registerImageProvider({
+  id: 'gpt-image',
+  label: 'GPT Image',
+  capabilities: { sizes: Object.values(OPENAI_SIZES_BY_ASPECT_RATIO), aspectRatios: Object.keys(OPENAI_SIZES_BY_ASPECT_RATIO), supportsEditing: true },
+  isConfigured: ({ openAiApiKey }) => Boolean(openAiApiKey),
+  generate: (prompt, { openAiApiKey }, options) => generateImageWithGptImage(prompt, openAiApiKey, options?.aspectRatio),
+});
+
+registerImageProvider({
+  id: 'imagen',
+  label: 'Imagen 4',
+  capabilities: { sizes: ['1024x1024', '896x1280', '1280x896', '768x1408', '1408x768'], aspectRatios: ['1:1', '3:4', '4:3', '9:16', '16:9'], supportsEditing: false },
+  isConfigured: () => true,
+  generate: (prompt, _credentials, options) => generateImageWithImagen(prompt, options?.aspectRatio),
+});
+
+registerImageProvider({
+  id: 'stable-diffusion',
+  label: 'Stable Diffusion',
+  capabilities: {
+    sizes: Object.values(STABLE_DIFFUSION_DIMENSIONS_BY_ASPECT_RATIO).map(({ width, height }) => `${width}x${height}`),
+    aspectRatios: Object.keys(STABLE_DIFFUSION_DIMENSIONS_BY_ASPECT_RATIO),
+    supportsEditing: false,
+  },
+  isConfigured: ({ stableDiffusionUrl }) => Boolean(stableDiffusionUrl),
+  generate: (prompt, { stableDiffusionUrl }, options) => generateImageWithStableDiffusion(prompt, stableDiffusionUrl, options?.aspectRatio),
+});
@@ -0,0 +1,149 @@
+import type { InspirationItem, InspirationSet } from '../types';
+import { getSupabaseClient, uploadMemeImage } from './feedbackService';
+
+// --- Supabase Setup Instructions for the inspiration library ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script, with policies).
+// Screenshots are uploaded to the 'memes' bucket under public/inspiration/.
+/*
+   CREATE TABLE inspiration_sets (
+     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     name TEXT NOT NULL UNIQUE
+   );
+
+   CREATE TABLE inspiration_items (
+     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+     set_id UUID NOT NULL REFERENCES inspiration_sets(id) ON DELETE CASCADE,
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     image_url TEXT NOT NULL,
+     caption TEXT NOT NULL DEFAULT ''
+   );
+*/
+
+/** A row of the inspiration_items table. */
+interface InspirationItemRow {
+    id: string;
+    set_id: string;
+    created_at: string;
+    image_url: string;
+    caption: string;
+}
+
+/** A row of the inspiration_sets table, with its items when the query embeds them. */
+interface InspirationSetRow {
+    id: string;
+    created_at: string;
+    name: string;
+    inspiration_items?: InspirationItemRow[];
+}
+
+const toInspirationItem = (row: InspirationItemRow): InspirationItem => ({
+    id: row.id,
+    setId: row.set_id,
+    imageUrl: row.image_url,
+    caption: row.caption ?? '',
+});
+
+const toInspirationSet = (row: InspirationSetRow): InspirationSet => ({
+    id: row.id,
+    name: row.name,
+    items: (row.inspiration_items ?? []).map(toInspirationItem),
+});
+
+const throwInspirationError = (action: string, error: { message: string; code?: string }): never => {
+    console.error(`[Supabase] ${action} failed:`, JSON.stringify(error, null, 2));
+    if (error.message.includes('inspiration_') && (error.message.includes('does not exist') || error.message.includes('schema cache'))) {
+        throw new Error(`Failed to ${action.toLowerCase()}: The inspiration library tables are missing. Please run the 'Inspiration Library SQL' from the Admin panel.`);
+    }
+    if (error.code === '23505') {
+        throw new Error(`Failed to ${action.toLowerCase()}: An inspiration set with that name already exists.`);
+    }
+    throw new Error(`Failed to ${action.toLowerCase()}: ${error.message}`);
+};
+
+/**
+ * All inspiration sets with their items, sets by name and items oldest first.
+ */
+export const getInspirationSets = async (supabaseUrl: string, supabaseAnonKey: string): Promise<InspirationSet[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('inspiration_sets')
+        .select('*, inspiration_items(*)')
+        .order('name', { ascending: true })
+        .order('created_at', { referencedTable: 'inspiration_items', ascending: true });
+
+    if (error) throwInspirationError('Load inspiration sets', error);
+    return (data ?? []).map(toInspirationSet);
+};
+
+/**
+ * Looks up a set by name, as autopilot campaigns refer to them.
+ */
+export const getInspirationSetByName = async (name: string, supabaseUrl: string, supabaseAnonKey: string): Promise<InspirationSet> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('inspiration_sets')
+        .select('*, inspiration_items(*)')
+        .eq('name', name)
+        .order('created_at', { referencedTable: 'inspiration_items', ascending: true })
+        .maybeSingle();
+
+    if (error) throwInspirationError('Load inspiration set', error);
+    if (!data) {
+        throw new Error(`There is no inspiration set named "${name}". Pick another set for this campaign.`);
+    }
+    return toInspirationSet(data);
+};
+
+export const createInspirationSet = async (name: string, supabaseUrl: string, supabaseAnonKey: string): Promise<InspirationSet> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('inspiration_sets')
+        .insert({ name: name.trim() })
+        .select()
+        .single();
+
+    if (error) throwInspirationError('Create inspiration set', error);
+    return toInspirationSet(data);
+};
+
+/** Deletes a set and its items. Campaigns using it fail until they are given another set. */
+export const deleteInspirationSet = async (setId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.from('inspiration_sets').delete().eq('id', setId);
+
+    if (error) throwInspirationError('Delete inspiration set', error);
+};
+
+/**
+ * Uploads a screenshot to storage and adds it, with its caption, to a set.
+ */
+export const addInspirationItem = async (setId: string, screenshot: File, caption: string, supabaseUrl: string, supabaseAnonKey: string): Promise<InspirationItem> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const id = crypto.randomUUID();
+
+    // uploadMemeImage fetches anything that isn't a data URL, which includes object URLs of local files.
+    const objectUrl = URL.createObjectURL(screenshot);
+    let imageUrl: string;
+    try {
+        imageUrl = await uploadMemeImage(client, objectUrl, `inspiration/${id}`);
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+
+    const { data, error } = await client
+        .from('inspiration_items')
+        .insert({ id, set_id: setId, image_url: imageUrl, caption: caption.trim() })
+        .select()
+        .single();
+
+    if (error) throwInspirationError('Add inspiration', error);
+    return toInspirationItem(data);
+};
+
+export const deleteInspirationItem = async (itemId: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client.from('inspiration_items').delete().eq('id', itemId);
+
+    if (error) throwInspirationError('Delete inspiration', error);
+};
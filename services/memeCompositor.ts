@@ -0,0 +1,386 @@
+import type { GeneratedMeme, MemeTemplateId } from '../types';
+import { getImageSlots, getSlotValue } from './memeTemplates';
+
+// Renders memes onto a canvas: the classic look (Impact, white fill, black outline) plus the other templates.
+// The result is what gets uploaded, downloaded and shared, so it must match what the admin approved.
+
+const IMPACT_FONT_FAMILY = 'Impact, Anton, "Arial Black", "Helvetica Neue", sans-serif';
+const SANS_FONT_FAMILY = '"Helvetica Neue", Helvetica, Arial, sans-serif';
+const MAX_FONT_SIZE_RATIO = 0.11; // of the image width
+const MIN_FONT_SIZE_RATIO = 0.04;
+const MAX_CAPTION_HEIGHT_RATIO = 0.3; // of the image height, per caption
+const HORIZONTAL_PADDING_RATIO = 0.04;
+const VERTICAL_PADDING_RATIO = 0.03;
+/** The closest any template draws a caption to the image's edges, as a ratio of the image's width or height. */
+export const MIN_CAPTION_PADDING_RATIO = Math.min(HORIZONTAL_PADDING_RATIO, VERTICAL_PADDING_RATIO);
+const LINE_HEIGHT = 1.1;
+const TEMPLATE_CANVAS_WIDTH = 1080; // Templates that combine several images render at a fixed width.
+
+export interface TextStyle {
+  fontFamily: string;
+  fontWeight: string;
+  uppercase: boolean;
+}
+
+export interface CaptionLayout {
+  fontSize: number;
+  lines: string[];
+  lineHeight: number;
+  style: TextStyle;
+}
+
+const IMPACT_STYLE: TextStyle = { fontFamily: IMPACT_FONT_FAMILY, fontWeight: '900', uppercase: true };
+const SANS_STYLE: TextStyle = { fontFamily: SANS_FONT_FAMILY, fontWeight: '700', uppercase: false };
+const SANS_REGULAR_STYLE: TextStyle = { fontFamily: SANS_FONT_FAMILY, fontWeight: '400', uppercase: false };
+
+/** The subset of a meme the compositor needs. */
+export type ComposableMeme = Pick<GeneratedMeme, 'templateId' | 'slots' | 'topText' | 'bottomText' | 'imageUrl' | 'slotImageUrls'>;
+
+type LoadedImages = Record<string, HTMLImageElement>;
+
+const setFont = (ctx: CanvasRenderingContext2D, fontSize: number, style: TextStyle) => {
+  ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+};
+
+/**
+ * Splits text into lines that fit within maxWidth at the current font.
+ * Words that are wider than a full line on their own are broken by character.
+ */
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let currentLine = '';
+
+  const pushWord = (word: string) => {
+    const candidate = currentLine ? `${currentLine} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      currentLine = candidate;
+      return;
+    }
+    if (currentLine) {
+      lines.push(currentLine);
+      currentLine = '';
+    }
+    if (ctx.measureText(word).width <= maxWidth) {
+      currentLine = word;
+      return;
+    }
+    // The word alone is too wide: hard-break it.
+    let fragment = '';
+    for (const char of word) {
+      if (ctx.measureText(fragment + char).width > maxWidth && fragment) {
+        lines.push(fragment);
+        fragment = char;
+      } else {
+        fragment += char;
+      }
+    }
+    currentLine = fragment;
+  };
+
+  words.forEach(pushWord);
+  if (currentLine) lines.push(currentLine);
+  return lines;
+};
+
+/**
+ * Finds the largest font size (down to a minimum) at which the caption fits the given box.
+ * At the minimum size the text is still wrapped, even if it overflows the box height.
+ */
+export const fitCaption = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  maxHeight: number,
+  maxFontSize: number,
+  minFontSize: number,
+  style: TextStyle = IMPACT_STYLE
+): CaptionLayout => {
+  const caption = style.uppercase ? text.trim().toUpperCase() : text.trim();
+  let fontSize = Math.floor(maxFontSize);
+
+  while (fontSize > minFontSize) {
+    setFont(ctx, fontSize, style);
+    const lines = wrapText(ctx, caption, maxWidth);
+    const lineHeight = fontSize * LINE_HEIGHT;
+    if (lines.length * lineHeight <= maxHeight) {
+      return { fontSize, lines, lineHeight, style };
+    }
+    fontSize -= 2;
+  }
+
+  fontSize = Math.floor(minFontSize);
+  setFont(ctx, fontSize, style);
+  return { fontSize, lines: wrapText(ctx, caption, maxWidth), lineHeight: fontSize * LINE_HEIGHT, style };
+};
+
+const getCaptionHeight = (layout: CaptionLayout) => layout.lines.length * layout.lineHeight;
+
+/** Draws outlined meme text. */
+const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  layout: CaptionLayout,
+  centerX: number,
+  y: number,
+  anchor: 'top' | 'bottom'
+) => {
+  if (layout.lines.length === 0) return;
+
+  setFont(ctx, layout.fontSize, layout.style);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.lineJoin = 'round';
+  ctx.miterLimit = 2;
+  ctx.lineWidth = Math.max(2, layout.fontSize / 7);
+  ctx.strokeStyle = '#000000';
+  ctx.fillStyle = '#ffffff';
+
+  const startY = anchor === 'top' ? y : y - getCaptionHeight(layout);
+
+  layout.lines.forEach((line, index) => {
+    const lineY = startY + index * layout.lineHeight;
+    ctx.strokeText(line, centerX, lineY);
+    ctx.fillText(line, centerX, lineY);
+  });
+};
+
+/** Draws plain, un-outlined text such as captions on a white background. */
+const drawPlainText = (
+  ctx: CanvasRenderingContext2D,
+  layout: CaptionLayout,
+  x: number,
+  y: number,
+  color: string,
+  align: CanvasTextAlign = 'center'
+) => {
+  setFont(ctx, layout.fontSize, layout.style);
+  ctx.textAlign = align;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = color;
+  layout.lines.forEach((line, index) => ctx.fillText(line, x, y + index * layout.lineHeight));
+};
+
+/** Draws an image scaled to fill the box, cropping the overflow from the center. */
+const drawImageCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const sourceWidth = width / scale;
+  const sourceHeight = height / scale;
+  const sourceX = (image.naturalWidth - sourceWidth) / 2;
+  const sourceY = (image.naturalHeight - sourceHeight) / 2;
+  ctx.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, x, y, width, height);
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    // Required so images from the Supabase bucket don't taint the canvas.
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image for compositing: ${src.substring(0, 64)}...`));
+    image.src = src;
+  });
+
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available in this browser.');
+  }
+  return { canvas, ctx };
+};
+
+
+// --- Template renderers ---
+
+const renderClassic = (meme: ComposableMeme, images: LoadedImages): HTMLCanvasElement => {
+  const image = images.image;
+  const width = image.naturalWidth || 1024;
+  const height = image.naturalHeight || 1024;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const maxWidth = width * (1 - HORIZONTAL_PADDING_RATIO * 2);
+  const maxHeight = height * MAX_CAPTION_HEIGHT_RATIO;
+  const verticalPadding = height * VERTICAL_PADDING_RATIO;
+
+  // Both captions share one size so the meme looks balanced.
+  const topLayout = fitCaption(ctx, meme.topText, maxWidth, maxHeight, width * MAX_FONT_SIZE_RATIO, width * MIN_FONT_SIZE_RATIO);
+  const bottomLayout = fitCaption(ctx, meme.bottomText, maxWidth, maxHeight, topLayout.fontSize, width * MIN_FONT_SIZE_RATIO);
+  const sharedLayout = bottomLayout.fontSize < topLayout.fontSize
+    ? fitCaption(ctx, meme.topText, maxWidth, maxHeight, bottomLayout.fontSize, width * MIN_FONT_SIZE_RATIO)
+    : topLayout;
+
+  drawCaption(ctx, sharedLayout, width / 2, verticalPadding, 'top');
+  drawCaption(ctx, bottomLayout, width / 2, height - verticalPadding, 'bottom');
+
+  return canvas;
+};
+
+const renderCaptionAbove = (meme: ComposableMeme, images: LoadedImages): HTMLCanvasElement => {
+  const width = TEMPLATE_CANVAS_WIDTH;
+  const padding = width * HORIZONTAL_PADDING_RATIO;
+  const measureCtx = createCanvas(1, 1).ctx;
+  const layout = fitCaption(measureCtx, getSlotValue(meme.slots, 'caption'), width - padding * 2, width * 0.4, width * 0.065, width * 0.035, SANS_STYLE);
+  const bandHeight = Math.max(width * 0.15, getCaptionHeight(layout) + padding * 2);
+
+  const { canvas, ctx } = createCanvas(width, bandHeight + width);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, bandHeight);
+  drawPlainText(ctx, layout, padding, (bandHeight - getCaptionHeight(layout)) / 2, '#000000', 'left');
+  drawImageCover(ctx, images.image, 0, bandHeight, width, width);
+
+  return canvas;
+};
+
+const renderDrake = (meme: ComposableMeme, images: LoadedImages): HTMLCanvasElement => {
+  const width = TEMPLATE_CANVAS_WIDTH;
+  const rowHeight = width / 2;
+  const { canvas, ctx } = createCanvas(width, rowHeight * 2);
+  const padding = rowHeight * 0.08;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, rowHeight * 2);
+
+  [['reject-image', 'reject-text'], ['approve-image', 'approve-text']].forEach(([imageSlot, textSlot], row) => {
+    const y = row * rowHeight;
+    drawImageCover(ctx, images[imageSlot], 0, y, rowHeight, rowHeight);
+    const layout = fitCaption(ctx, getSlotValue(meme.slots, textSlot), rowHeight - padding * 2, rowHeight - padding * 2, rowHeight * 0.14, rowHeight * 0.06, SANS_STYLE);
+    drawPlainText(ctx, layout, rowHeight * 1.5, y + (rowHeight - getCaptionHeight(layout)) / 2, '#000000');
+  });
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, rowHeight - 2, width, 4);
+
+  return canvas;
+};
+
+const renderMultiPanel = (meme: ComposableMeme, images: LoadedImages): HTMLCanvasElement => {
+  const width = TEMPLATE_CANVAS_WIDTH;
+  const panelHeight = width * 0.6;
+  const panelIds = ['panel-1', 'panel-2', 'panel-3'];
+  const gutter = 6;
+  const { canvas, ctx } = createCanvas(width, panelHeight * panelIds.length + gutter * (panelIds.length - 1));
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  panelIds.forEach((panelId, index) => {
+    const y = index * (panelHeight + gutter);
+    drawImageCover(ctx, images[`${panelId}-image`], 0, y, width, panelHeight);
+    const layout = fitCaption(ctx, getSlotValue(meme.slots, `${panelId}-text`), width * 0.92, panelHeight * 0.35, width * 0.08, width * 0.035);
+    drawCaption(ctx, layout, width / 2, y + panelHeight - panelHeight * 0.05, 'bottom');
+  });
+
+  return canvas;
+};
+
+const renderTweet = (meme: ComposableMeme, images: LoadedImages): HTMLCanvasElement => {
+  const width = TEMPLATE_CANVAS_WIDTH;
+  const padding = width * 0.06;
+  const avatarSize = width * 0.1;
+  const contentWidth = width - padding * 2;
+  const measureCtx = createCanvas(1, 1).ctx;
+
+  const tweetLayout = fitCaption(measureCtx, getSlotValue(meme.slots, 'tweet'), contentWidth, width * 0.6, width * 0.045, width * 0.03, SANS_REGULAR_STYLE);
+  const tweetTop = padding + avatarSize + padding * 0.5;
+  const imageTop = tweetTop + getCaptionHeight(tweetLayout) + padding * 0.5;
+  const imageHeight = contentWidth * 0.75;
+  const { canvas, ctx } = createCanvas(width, imageTop + imageHeight + padding);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Avatar: a brand-colored circle with the poster's initial.
+  const displayName = getSlotValue(meme.slots, 'display-name');
+  const avatarGradient = ctx.createLinearGradient(padding, padding, padding + avatarSize, padding + avatarSize);
+  avatarGradient.addColorStop(0, '#ec4899');
+  avatarGradient.addColorStop(1, '#22d3ee');
+  ctx.fillStyle = avatarGradient;
+  ctx.beginPath();
+  ctx.arc(padding + avatarSize / 2, padding + avatarSize / 2, avatarSize / 2, 0, Math.PI * 2);
+  ctx.fill();
+  setFont(ctx, avatarSize * 0.5, SANS_STYLE);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(displayName.charAt(0).toUpperCase(), padding + avatarSize / 2, padding + avatarSize / 2);
+
+  const nameX = padding + avatarSize + padding * 0.4;
+  const handle = getSlotValue(meme.slots, 'handle');
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  setFont(ctx, width * 0.038, SANS_STYLE);
+  ctx.fillStyle = '#0f1419';
+  ctx.fillText(displayName, nameX, padding + avatarSize * 0.08);
+  setFont(ctx, width * 0.034, SANS_REGULAR_STYLE);
+  ctx.fillStyle = '#536471';
+  ctx.fillText(handle.startsWith('@') ? handle : `@${handle}`, nameX, padding + avatarSize * 0.55);
+
+  drawPlainText(ctx, tweetLayout, padding, tweetTop, '#0f1419', 'left');
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(padding, imageTop, contentWidth, imageHeight, width * 0.03);
+  ctx.clip();
+  drawImageCover(ctx, images.image, padding, imageTop, contentWidth, imageHeight);
+  ctx.restore();
+
+  return canvas;
+};
+
+const renderPov = (meme: ComposableMeme, images: LoadedImages): HTMLCanvasElement => {
+  const image = images.image;
+  const width = image.naturalWidth || 1024;
+  const height = image.naturalHeight || 1024;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const scenario = getSlotValue(meme.slots, 'pov').replace(/^\s*pov:\s*/i, '');
+  const layout = fitCaption(ctx, `POV: ${scenario}`, width * (1 - HORIZONTAL_PADDING_RATIO * 2), height * MAX_CAPTION_HEIGHT_RATIO, width * 0.07, width * MIN_FONT_SIZE_RATIO, SANS_STYLE);
+  drawCaption(ctx, layout, width / 2, height * VERTICAL_PADDING_RATIO * 2, 'top');
+
+  return canvas;
+};
+
+const TEMPLATE_RENDERERS: Record<MemeTemplateId, (meme: ComposableMeme, images: LoadedImages) => HTMLCanvasElement> = {
+  classic: renderClassic,
+  'caption-above': renderCaptionAbove,
+  drake: renderDrake,
+  'multi-panel': renderMultiPanel,
+  tweet: renderTweet,
+  pov: renderPov,
+};
+
+/**
+ * Renders the meme's template with every caption baked into the pixels.
+ * @returns A PNG data URL of the finished meme.
+ */
+export const composeMemeImage = async (meme: ComposableMeme): Promise<string> => {
+  const imageSlots = getImageSlots(meme.templateId);
+  const loadedImages = await Promise.all(
+    imageSlots.map(slot => loadImage(meme.slotImageUrls?.[slot.id] ?? meme.imageUrl))
+  );
+  const images: LoadedImages = Object.fromEntries(imageSlots.map((slot, index) => [slot.id, loadedImages[index]]));
+
+  const render = TEMPLATE_RENDERERS[meme.templateId] ?? renderClassic;
+  return render(meme, images).toDataURL('image/png');
+};
+
+/**
+ * Re-encodes an image as a JPEG data URL. Transparent areas become white.
+ * Social platforms accept JPEG everywhere, and it keeps images under their upload limits.
+ * @param maxSize When given, larger images are scaled down so their longer side fits it.
+ */
+export const convertToJpeg = async (src: string, quality: number = 0.9, maxSize?: number): Promise<string> => {
+  const image = await loadImage(src);
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+  const { canvas, ctx } = createCanvas(Math.round(image.naturalWidth * scale), Math.round(image.naturalHeight * scale));
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
@@ -0,0 +1,153 @@
+import type { MemeConcept, MemeSlotValue, MemeTemplateId } from '../types';
+
+export interface MemeTemplateSlot {
+  id: string;
+  kind: 'text' | 'image';
+  /** Tells the model what belongs in this slot. */
+  description: string;
+}
+
+export interface MemeTemplate {
+  id: MemeTemplateId;
+  label: string;
+  /** Tells the model when this layout is the funniest choice. */
+  description: string;
+  slots: MemeTemplateSlot[];
+}
+
+export const DEFAULT_MEME_TEMPLATE_ID: MemeTemplateId = 'classic';
+
+export const MEME_TEMPLATES: Record<MemeTemplateId, MemeTemplate> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Impact-style text on top and bottom of a single image.',
+    slots: [
+      { id: 'top', kind: 'text', description: 'The setup at the top of the image.' },
+      { id: 'bottom', kind: 'text', description: 'The punchline at the bottom of the image.' },
+      { id: 'image', kind: 'image', description: 'A prompt for the single image.' },
+    ],
+  },
+  'caption-above': {
+    id: 'caption-above',
+    label: 'Caption Above',
+    description: 'A plain caption in a white band above the image, like a modern Instagram or Twitter meme.',
+    slots: [
+      { id: 'caption', kind: 'text', description: 'The full caption, written in sentence case.' },
+      { id: 'image', kind: 'image', description: 'A prompt for the reaction image under the caption.' },
+    ],
+  },
+  drake: {
+    id: 'drake',
+    label: 'Drake',
+    description: 'Two stacked panels comparing something rejected (top) with something preferred (bottom).',
+    slots: [
+      { id: 'reject-image', kind: 'image', description: 'A prompt for a figure turning away in disgust.' },
+      { id: 'reject-text', kind: 'text', description: 'The thing being rejected.' },
+      { id: 'approve-image', kind: 'image', description: 'A prompt for the same figure pointing approvingly.' },
+      { id: 'approve-text', kind: 'text', description: 'The thing being preferred.' },
+    ],
+  },
+  'multi-panel': {
+    id: 'multi-panel',
+    label: 'Multi-Panel',
+    description: 'Three stacked panels that escalate, each with its own image and caption.',
+    slots: [
+      { id: 'panel-1-image', kind: 'image', description: 'A prompt for the first panel.' },
+      { id: 'panel-1-text', kind: 'text', description: 'The caption for the first panel.' },
+      { id: 'panel-2-image', kind: 'image', description: 'A prompt for the second panel.' },
+      { id: 'panel-2-text', kind: 'text', description: 'The caption for the second panel.' },
+      { id: 'panel-3-image', kind: 'image', description: 'A prompt for the final, most unhinged panel.' },
+      { id: 'panel-3-text', kind: 'text', description: 'The caption for the final panel.' },
+    ],
+  },
+  tweet: {
+    id: 'tweet',
+    label: 'Tweet',
+    description: 'A screenshot of a viral post from a fictional account, with an attached image.',
+    slots: [
+      { id: 'display-name', kind: 'text', description: 'The fictional poster\'s display name. Never a real person.' },
+      { id: 'handle', kind: 'text', description: 'The fictional poster\'s @handle.' },
+      { id: 'tweet', kind: 'text', description: 'The text of the post.' },
+      { id: 'image', kind: 'image', description: 'A prompt for the image attached to the post.' },
+    ],
+  },
+  pov: {
+    id: 'pov',
+    label: 'POV',
+    description: 'A "POV:" caption overlaid on an image shown from the viewer\'s perspective.',
+    slots: [
+      { id: 'pov', kind: 'text', description: 'The scenario, without the leading "POV:".' },
+      { id: 'image', kind: 'image', description: 'A first-person prompt for the image.' },
+    ],
+  },
+};
+
+export const MEME_TEMPLATE_IDS = Object.keys(MEME_TEMPLATES) as MemeTemplateId[];
+
+export const getMemeTemplate = (id: string | null | undefined): MemeTemplate =>
+  MEME_TEMPLATES[id as MemeTemplateId] ?? MEME_TEMPLATES[DEFAULT_MEME_TEMPLATE_ID];
+
+export const getSlotValue = (slots: MemeSlotValue[], slotId: string): string =>
+  slots.find(slot => slot.slotId === slotId)?.value ?? '';
+
+export const getImageSlots = (templateId: MemeTemplateId): MemeTemplateSlot[] =>
+  getMemeTemplate(templateId).slots.filter(slot => slot.kind === 'image');
+
+/** The slots whose values differ between two versions of a concept, e.g. before and after a reviewer's edit. */
+export const getChangedSlotIds = (before: MemeConcept, after: MemeConcept): string[] =>
+  getMemeTemplate(after.templateId).slots
+    .filter(slot => getSlotValue(before.slots, slot.id) !== getSlotValue(after.slots, slot.id))
+    .map(slot => slot.id);
+
+/**
+ * Builds the template catalog that is pasted into the generation prompt.
+ */
+export const describeMemeTemplatesForPrompt = (): string =>
+  MEME_TEMPLATE_IDS.map(id => {
+    const template = MEME_TEMPLATES[id];
+    const slots = template.slots.map(slot => `    - "${slot.id}" (${slot.kind}): ${slot.description}`).join('\n');
+    return `- "${id}": ${template.description}\n  Slots:\n${slots}`;
+  }).join('\n');
+
+/** A concept as a model wrote it or a row stored it, before normalizeMemeConcept fills in the rest. */
+export interface RawMemeConcept {
+  templateId?: string;
+  slots?: MemeSlotValue[];
+  topText?: string;
+  bottomText?: string;
+  imagePrompt?: string;
+}
+
+/**
+ * Turns a model response (or a stored row) into a complete MemeConcept.
+ * Classic slots are filled from topText/bottomText/imagePrompt and vice versa. A non-classic
+ * concept missing any of its slots falls back to the classic layout so it can still render.
+ */
+export const normalizeMemeConcept = (raw: RawMemeConcept): MemeConcept => {
+  let template = getMemeTemplate(raw.templateId);
+  const rawSlots = (raw.slots ?? []).filter(slot => slot?.slotId && typeof slot.value === 'string');
+
+  const isMissingSlots = template.slots.some(slot => !getSlotValue(rawSlots, slot.id).trim());
+  if (template.id !== 'classic' && isMissingSlots) {
+    console.warn(`Meme concept for template "${template.id}" is missing slots. Falling back to the classic layout.`);
+    template = MEME_TEMPLATES.classic;
+  }
+
+  const textSlots = template.slots.filter(slot => slot.kind === 'text').map(slot => getSlotValue(rawSlots, slot.id));
+  const imageSlots = template.slots.filter(slot => slot.kind === 'image').map(slot => getSlotValue(rawSlots, slot.id));
+
+  const topText = raw.topText ?? textSlots[0] ?? '';
+  const bottomText = raw.bottomText ?? textSlots[1] ?? '';
+  const imagePrompt = raw.imagePrompt || imageSlots[0] || '';
+
+  const slots = template.id === 'classic'
+    ? [
+        { slotId: 'top', value: getSlotValue(rawSlots, 'top') || topText },
+        { slotId: 'bottom', value: getSlotValue(rawSlots, 'bottom') || bottomText },
+        { slotId: 'image', value: getSlotValue(rawSlots, 'image') || imagePrompt },
+      ]
+    : template.slots.map(slot => ({ slotId: slot.id, value: getSlotValue(rawSlots, slot.id) }));
+
+  return { templateId: template.id, slots, topText, bottomText, imagePrompt };
+};
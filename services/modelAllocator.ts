@@ -0,0 +1,171 @@
+import type { ImageProviderId, MemeTemplateId, ModelPreference, ProviderApprovalStats } from '../types';
+
+// Picks an image provider for each meme with Thompson sampling, a multi-armed bandit.
+// Each provider's approval rate has a Beta posterior built from past approvals and rejections.
+// For every meme we draw one plausible rate per provider and use the provider with the highest draw,
+// so providers win memes in proportion to the chance that they really are the best. New or
+// rarely used providers keep getting some memes until the evidence against them is clear.
+//
+// Rates are tracked per template ("style") as well: a provider may be great at single images and
+// weak at multi-panel ones. A style's rate is shrunk toward the provider's overall rate, so styles
+// with few decisions borrow strength from the rest.
+
+/** How many pseudo-decisions the provider's overall rate is worth inside a style's posterior. */
+const STYLE_PRIOR_WEIGHT = 4;
+const DEFAULT_SIMULATIONS = 4000;
+
+interface BetaPosterior {
+  alpha: number;
+  beta: number;
+}
+
+/** How sure we are about a provider, as shown in the admin panel. */
+export interface ProviderAllocationSummary {
+  providerId: ImageProviderId;
+  approvals: number;
+  rejections: number;
+  /** Posterior mean approval rate. */
+  meanRate: number;
+  /** 90% credible interval of the approval rate. */
+  lowerRate: number;
+  upperRate: number;
+  /** Chance that this provider has the highest approval rate, which is also its expected share of memes. */
+  probabilityBest: number;
+}
+
+/** Standard normal sample (Box-Muller). */
+const sampleNormal = (random: () => number): number => {
+  const u = 1 - random(); // (0, 1], so the log is finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/** Gamma(shape, 1) sample (Marsaglia and Tsang). */
+const sampleGamma = (shape: number, random: () => number): number => {
+  if (shape < 1) {
+    // Boost the shape above 1, then scale back down.
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+};
+
+export const sampleBeta = (alpha: number, beta: number, random: () => number = Math.random): number => {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+};
+
+const countDecisions = (stats: ProviderApprovalStats[], providerId: ImageProviderId, templateId?: MemeTemplateId) =>
+  stats
+    .filter(s => s.providerId === providerId && (templateId === undefined || s.templateId === templateId))
+    .reduce((total, s) => ({ approvals: total.approvals + s.approvals, rejections: total.rejections + s.rejections }), { approvals: 0, rejections: 0 });
+
+/**
+ * Beta posterior of a provider's approval rate, overall or for one template.
+ * Starts from a uniform Beta(1, 1) prior; a template's posterior also gets STYLE_PRIOR_WEIGHT
+ * pseudo-decisions at the provider's overall rate.
+ */
+const getPosterior = (stats: ProviderApprovalStats[], providerId: ImageProviderId, templateId?: MemeTemplateId): BetaPosterior => {
+  const overall = countDecisions(stats, providerId);
+  const overallPosterior = { alpha: 1 + overall.approvals, beta: 1 + overall.rejections };
+  if (templateId === undefined) return overallPosterior;
+
+  const overallRate = overallPosterior.alpha / (overallPosterior.alpha + overallPosterior.beta);
+  const style = countDecisions(stats, providerId, templateId);
+  return {
+    alpha: 1 + style.approvals + STYLE_PRIOR_WEIGHT * overallRate,
+    beta: 1 + style.rejections + STYLE_PRIOR_WEIGHT * (1 - overallRate),
+  };
+};
+
+const pickBest = (posteriors: [ImageProviderId, BetaPosterior][], random: () => number): ImageProviderId => {
+  let best = posteriors[0][0];
+  let bestDraw = -1;
+  for (const [providerId, { alpha, beta }] of posteriors) {
+    const draw = sampleBeta(alpha, beta, random);
+    if (draw > bestDraw) {
+      best = providerId;
+      bestDraw = draw;
+    }
+  }
+  return best;
+};
+
+/**
+ * Chooses a provider for each meme of a batch, given each meme's template.
+ * @param providerIds The providers that can generate right now (i.e. are configured).
+ */
+export const allocateImageProviders = (
+  templateIds: MemeTemplateId[],
+  providerIds: ImageProviderId[],
+  stats: ProviderApprovalStats[],
+  random: () => number = Math.random
+): ImageProviderId[] => {
+  if (providerIds.length === 0) {
+    throw new Error('No image provider is configured.');
+  }
+  return templateIds.map(templateId =>
+    pickBest(providerIds.map(id => [id, getPosterior(stats, id, templateId)]), random)
+  );
+};
+
+/** Expands a fixed mix (e.g. a campaign's) into one provider per meme, in order. */
+export const expandModelPreference = (modelPreference: ModelPreference): ImageProviderId[] =>
+  Object.entries(modelPreference).flatMap(([providerId, count]) => Array<ImageProviderId>(count).fill(providerId));
+
+/** Counts how many memes each provider got, for the batch history. */
+export const countProviderSchedule = (schedule: ImageProviderId[]): ModelPreference =>
+  schedule.reduce<ModelPreference>((counts, id) => ({ ...counts, [id]: (counts[id] ?? 0) + 1 }), {});
+
+/**
+ * Summarizes the posterior of each provider, overall or for one template, by simulation.
+ */
+export const summarizeAllocation = (
+  providerIds: ImageProviderId[],
+  stats: ProviderApprovalStats[],
+  templateId?: MemeTemplateId,
+  simulations: number = DEFAULT_SIMULATIONS,
+  random: () => number = Math.random
+): ProviderAllocationSummary[] => {
+  const posteriors = providerIds.map(id => getPosterior(stats, id, templateId));
+  const draws: number[][] = providerIds.map(() => []);
+  const wins = providerIds.map(() => 0);
+
+  for (let i = 0; i < simulations; i++) {
+    let bestIndex = 0;
+    posteriors.forEach(({ alpha, beta }, index) => {
+      draws[index].push(sampleBeta(alpha, beta, random));
+      if (draws[index][i] > draws[bestIndex][i]) bestIndex = index;
+    });
+    wins[bestIndex]++;
+  }
+
+  return providerIds.map((providerId, index) => {
+    const sorted = draws[index].sort((a, b) => a - b);
+    const { alpha, beta } = posteriors[index];
+    const { approvals, rejections } = countDecisions(stats, providerId, templateId);
+    return {
+      providerId,
+      approvals,
+      rejections,
+      meanRate: alpha / (alpha + beta),
+      lowerRate: sorted[Math.floor(0.05 * (sorted.length - 1))] ?? 0,
+      upperRate: sorted[Math.ceil(0.95 * (sorted.length - 1))] ?? 1,
+      probabilityBest: simulations > 0 ? wins[index] / simulations : 0,
+    };
+  });
+};
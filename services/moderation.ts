@@ -0,0 +1,153 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { GeneratedMeme, MemeConcept, ModerationAction, ModerationCategory, ModerationFinding, ModerationPolicy, ModerationResult } from '../types';
+import { fetchImageAsBase64 } from './imageProviders';
+
+// The moderation step: Gemini classifies each concept before its images are made and each image once
+// it exists, and the policy decides what the findings mean. It runs on every generated meme, including
+// autopilot batches that nobody watches being made.
+
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const MODERATION_MODEL = 'gemini-2.5-flash';
+
+export const MODERATION_CATEGORIES: { id: ModerationCategory; label: string; description: string }[] = [
+  { id: 'hate', label: 'Slurs and hate', description: 'Slurs or demeaning content about a group based on race, ethnicity, religion, gender, sexuality, disability or similar. Queer slang and reclaimed words used affectionately inside the community are not slurs.' },
+  { id: 'harassment', label: 'Harassment', description: 'Mocking, threatening or bullying a specific private person, or piling on a named person beyond satire of their public actions.' },
+  { id: 'sexual-real-people', label: 'Sexual content about real people', description: 'Sexual or sexualized content involving a real, identifiable person, public figure or not.' },
+  { id: 'defamation', label: 'Defamation', description: 'False factual claims about a named public figure that could damage their reputation, e.g. inventing a crime. Obvious jokes, exaggeration and opinions about their public actions are satire, not defamation.' },
+  { id: 'sexual', label: 'Other sexual content', description: 'Explicit sexual content or nudity that does not involve real people.' },
+  { id: 'violence', label: 'Violence and self-harm', description: 'Graphic violence, gore, or content encouraging self-harm.' },
+];
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  block: 'Block',
+  flag: 'Flag',
+  allow: 'Allow',
+};
+
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  'hate': 'block',
+  'harassment': 'block',
+  'sexual-real-people': 'block',
+  'defamation': 'block',
+  'sexual': 'flag',
+  'violence': 'flag',
+};
+
+const ACTION_SEVERITY: Record<ModerationAction, number> = { allow: 0, flag: 1, block: 2 };
+
+const moderationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    findings: {
+      type: Type.ARRAY,
+      description: "One entry per category the content falls in. Empty when it is fine.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: MODERATION_CATEGORIES.map(category => category.id) },
+          reason: { type: Type.STRING, description: "One short sentence on what in the content falls in the category." },
+        },
+        required: ["category", "reason"],
+      },
+    },
+  },
+  required: ["findings"],
+};
+
+const MODERATION_INSTRUCTIONS = `You are the content moderator for "Kiss My Face New York", a queer nightlife party that posts campy, irreverent memes. Edgy humor, innuendo and satire of public figures are part of the brand; only report content that clearly falls in one of these categories:
+${MODERATION_CATEGORIES.map(category => `- ${category.id}: ${category.description}`).join('\n')}`;
+
+/** The policy with every category filled in, so policies saved before a category existed still work. */
+export const normalizeModerationPolicy = (policy: Partial<ModerationPolicy> | null | undefined): ModerationPolicy => ({
+  ...DEFAULT_MODERATION_POLICY,
+  ...Object.fromEntries(Object.entries(policy ?? {}).filter(([category, action]) =>
+    category in DEFAULT_MODERATION_POLICY && action in ACTION_SEVERITY)),
+});
+
+/**
+ * Applies the policy to the findings: the strictest action wins, and memes that couldn't be screened are flagged.
+ * Findings in categories the policy allows are dropped.
+ */
+export const applyModerationPolicy = (findings: ModerationFinding[], policy: ModerationPolicy, error?: string): ModerationResult => {
+  const reportedFindings = findings.filter(finding => policy[finding.category] !== 'allow');
+  const outcome = reportedFindings.reduce<ModerationAction>((strictest, finding) =>
+    (ACTION_SEVERITY[policy[finding.category]] > ACTION_SEVERITY[strictest] ? policy[finding.category] : strictest), 'allow');
+  return { outcome: error && outcome === 'allow' ? 'flag' : outcome, findings: reportedFindings, ...(error ? { error } : {}) };
+};
+
+/** What the badge and error messages say: each finding with its reason, and why screening failed if it did. */
+export const formatModerationResult = (result: ModerationResult): string => {
+  const reasons = result.findings.map(finding =>
+    `${MODERATION_CATEGORIES.find(category => category.id === finding.category)?.label ?? finding.category} (${finding.source}): ${finding.reason}`);
+  if (result.error) reasons.push(`Couldn't be screened: ${result.error}`);
+  return reasons.join(' · ');
+};
+
+const parseFindings = (text: string, source: ModerationFinding['source']): ModerationFinding[] => {
+  const parsed = JSON.parse(text.trim()) as { findings?: { category: string; reason: string }[] };
+  return (parsed.findings ?? [])
+    .filter(finding => MODERATION_CATEGORIES.some(category => category.id === finding.category))
+    .map(finding => ({ category: finding.category as ModerationCategory, source, reason: finding.reason?.trim() ?? '' }));
+};
+
+const describeConcept = (concept: MemeConcept): string =>
+  concept.slots.map(slot => `${slot.slotId}: "${slot.value}"`).join('\n');
+
+/**
+ * Screens a concept's captions and image prompts, before any image is generated for it.
+ * Never throws: a concept that can't be screened is flagged.
+ */
+export const moderateConcept = async (concept: MemeConcept, policy: ModerationPolicy): Promise<ModerationResult> => {
+  try {
+    const response = await ai.models.generateContent({
+      model: MODERATION_MODEL,
+      contents: `Review this meme concept: its captions and the prompts its images will be generated from.\n\n${describeConcept(concept)}`,
+      config: {
+        systemInstruction: MODERATION_INSTRUCTIONS,
+        responseMimeType: "application/json",
+        responseSchema: moderationSchema,
+      },
+    });
+    return applyModerationPolicy(parseFindings(response.text, 'concept'), policy);
+  } catch (error) {
+    console.error("Failed to screen a meme concept:", error);
+    return applyModerationPolicy([], policy, error instanceof Error ? error.message : String(error));
+  }
+};
+
+const classifyImage = async (imageUrl: string): Promise<ModerationFinding[]> => {
+  const image = await fetchImageAsBase64(imageUrl);
+  const response = await ai.models.generateContent({
+    model: MODERATION_MODEL,
+    contents: {
+      parts: [
+        { inlineData: image },
+        { text: 'Review this generated meme image. Judge what it shows; it has no captions yet.' },
+      ],
+    },
+    config: {
+      systemInstruction: MODERATION_INSTRUCTIONS,
+      responseMimeType: "application/json",
+      responseSchema: moderationSchema,
+    },
+  });
+  return parseFindings(response.text, 'image');
+};
+
+/**
+ * Screens a meme's images and combines the findings with those of its concept, from `meme.moderation`.
+ * Placeholder images (failed generations) are skipped. Never throws: images that can't be screened are flagged.
+ */
+export const moderateMemeImages = async (meme: GeneratedMeme, policy: ModerationPolicy): Promise<ModerationResult> => {
+  const conceptFindings = meme.moderation?.findings.filter(finding => finding.source === 'concept') ?? [];
+  const imageUrls = [...new Set([meme.imageUrl, ...Object.values(meme.slotImageUrls ?? {})])].filter(imageUrl => !imageUrl.includes('svg+xml'));
+
+  try {
+    const imageFindings = (await Promise.all(imageUrls.map(classifyImage))).flat();
+    return applyModerationPolicy([...conceptFindings, ...imageFindings], policy, meme.moderation?.error);
+  } catch (error) {
+    console.error(`Failed to screen the images of meme ${meme.id}:`, error);
+    return applyModerationPolicy(conceptFindings, policy, error instanceof Error ? error.message : String(error));
+  }
+};
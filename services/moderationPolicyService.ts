@@ -0,0 +1,51 @@
+import type { ModerationPolicy } from '../types';
+import { getSupabaseClient } from './feedbackService';
+import { DEFAULT_MODERATION_POLICY, normalizeModerationPolicy } from './moderation';
+
+// --- Supabase Setup Instructions for the moderation policy table ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script, with policies).
+// The table has a single row: the policy applies to every admin's batches and to the autopilot worker.
+/*
+   CREATE TABLE moderation_policy (
+     id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+     updated_at TIMESTAMPTZ DEFAULT NOW(),
+     actions JSONB NOT NULL DEFAULT '{}'
+   );
+*/
+
+/**
+ * Loads the moderation policy.
+ * Falls back to the default policy when none is saved yet or the table is missing, so memes are always screened.
+ */
+export const getModerationPolicy = async (supabaseUrl: string, supabaseAnonKey: string): Promise<ModerationPolicy> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('moderation_policy')
+        .select('actions')
+        .maybeSingle();
+
+    if (error) {
+        console.warn("[Supabase] Could not load the moderation policy, using the default:", error.message);
+        return DEFAULT_MODERATION_POLICY;
+    }
+    return normalizeModerationPolicy(data?.actions);
+};
+
+export const saveModerationPolicy = async (policy: ModerationPolicy, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('moderation_policy')
+        .upsert({
+            id: true,
+            updated_at: new Date().toISOString(),
+            actions: policy,
+        });
+
+    if (error) {
+        console.error("[Supabase] Saving the moderation policy failed:", JSON.stringify(error, null, 2));
+        if (error.message.includes('moderation_policy')) {
+            throw new Error("Failed to save the moderation policy: The 'moderation_policy' table was not found. Please run the 'Moderation Policy SQL' from the Admin panel.");
+        }
+        throw new Error(`Failed to save the moderation policy: ${error.message}`);
+    }
+};
@@ -0,0 +1,23 @@
+import type { RejectionReason, RejectionTag } from '../types';
+
+export const REJECTION_TAG_LABELS: Record<RejectionTag, string> = {
+  'not-funny': 'Not funny',
+  'off-brand': 'Off-brand',
+  'offensive': 'Offensive',
+  'bad-image': 'Bad image',
+  'text-image-mismatch': 'Text/image mismatch',
+};
+
+export const REJECTION_TAGS = Object.keys(REJECTION_TAG_LABELS) as RejectionTag[];
+
+export const EMPTY_REJECTION_REASON: RejectionReason = { tags: [], note: '' };
+
+export const hasRejectionReason = (reason: RejectionReason): boolean =>
+  reason.tags.length > 0 || reason.note.trim().length > 0;
+
+/** E.g. 'Not funny, Off-brand: "we did this joke last week"'. */
+export const formatRejectionReason = (reason: RejectionReason): string => {
+  const tags = reason.tags.map(tag => REJECTION_TAG_LABELS[tag] ?? tag).join(', ');
+  const note = reason.note.trim() ? `"${reason.note.trim()}"` : '';
+  return [tags, note].filter(Boolean).join(': ');
+};
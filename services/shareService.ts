@@ -0,0 +1,43 @@
+// Browser helpers for downloading and sharing finished meme images.
+
+const SHARE_TITLE = 'Kiss My Face New York Meme';
+
+/**
+ * Fetches an image (data URL or remote URL) into a File that can be downloaded or shared.
+ */
+export const fetchImageFile = async (imageUrl: string, fileName: string): Promise<File> => {
+  const response = await fetch(imageUrl);
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type || 'image/png' });
+};
+
+export const downloadFile = (file: File): void => {
+  const objectUrl = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = file.name;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+};
+
+export const getMemeFileName = (id: string, suffix = '', extension = 'png'): string => `kiss-my-face-ny-meme-${id}${suffix}.${extension}`;
+
+/**
+ * Shares the meme image itself through the Web Share API where the platform supports file sharing,
+ * falling back to sharing a link, and finally to copying the caption text.
+ * @returns 'copied' when the caption text was copied to the clipboard instead of shared.
+ */
+export const shareMeme = async (shareText: string, file: File | null, url: string): Promise<'shared' | 'copied'> => {
+  if (navigator.share) {
+    if (file && navigator.canShare?.({ files: [file] })) {
+      await navigator.share({ title: SHARE_TITLE, text: shareText, files: [file] });
+      return 'shared';
+    }
+    await navigator.share({ title: SHARE_TITLE, text: shareText, url });
+    return 'shared';
+  }
+
+  // Fallback for browsers that do not support the Web Share API
+  await navigator.clipboard.writeText(shareText);
+  return 'copied';
+};
@@ -0,0 +1,63 @@
+import type { SocialCopy, SocialCopySet, SocialPlatformId } from '../types';
+import { getCaptionLength } from './socialQueueService';
+
+// Post copy for the platforms we publish to. The caption limits match the worker's publishers;
+// the guidelines are what we tell Gemini about each platform's audience and habits.
+
+export interface SocialCopyPlatform {
+  id: SocialPlatformId;
+  label: string;
+  /** The caption and its hashtags together must fit in this many characters. */
+  maxCaptionLength: number;
+  maxHashtags: number;
+  guidelines: string;
+}
+
+export const SOCIAL_COPY_PLATFORMS: SocialCopyPlatform[] = [
+  {
+    id: 'instagram',
+    label: 'Instagram',
+    maxCaptionLength: 2200,
+    maxHashtags: 10,
+    guidelines: 'A punchy first line (only the first ~125 characters show before "more"), then a line or two that riffs on the joke. Emoji welcome. The first comment carries extra hashtags or a nudge to tag a friend.',
+  },
+  {
+    id: 'bluesky',
+    label: 'Bluesky',
+    maxCaptionLength: 300,
+    maxHashtags: 2,
+    guidelines: 'Conversational and dry, one or two short sentences. Hashtags are rare there, so use at most two. The first comment is a reply to the post, e.g. when and where the next party is.',
+  },
+  {
+    id: 'x',
+    label: 'X',
+    maxCaptionLength: 280,
+    maxHashtags: 2,
+    guidelines: 'One short line that lands the joke. One or two hashtags at most. The first comment is a reply to the post, e.g. a follow-up joke or the next party.',
+  },
+];
+
+/** The caption with its hashtags, ready to paste or queue. */
+export const formatSocialCaption = (copy: SocialCopy): string =>
+  [copy.caption.trim(), copy.hashtags.map(tag => `#${tag}`).join(' ')].filter(Boolean).join('\n\n');
+
+/**
+ * Cleans up copy as the model wrote it: hashtags lose their '#' and spaces, duplicates and the ones
+ * beyond the platform's limit are dropped, and trailing hashtags go until the caption fits.
+ */
+export const normalizeSocialCopy = (platform: SocialCopyPlatform, copy: SocialCopy): SocialCopy => {
+  const hashtags = [...new Set(copy.hashtags.map(tag => tag.replace(/^#+/, '').replace(/\s+/g, '')).filter(Boolean))]
+    .slice(0, platform.maxHashtags);
+  const normalized = { caption: copy.caption.trim(), hashtags, firstComment: copy.firstComment.trim() };
+  while (normalized.hashtags.length > 0 && getCaptionLength(formatSocialCaption(normalized)) > platform.maxCaptionLength) {
+    normalized.hashtags = normalized.hashtags.slice(0, -1);
+  }
+  return normalized;
+};
+
+/** The platforms of a set that have copy, in the order of SOCIAL_COPY_PLATFORMS. */
+export const listSocialCopy = (copySet: SocialCopySet | undefined): { platform: SocialCopyPlatform; copy: SocialCopy }[] =>
+  SOCIAL_COPY_PLATFORMS.flatMap(platform => {
+    const copy = copySet?.[platform.id];
+    return copy ? [{ platform, copy }] : [];
+  });
@@ -0,0 +1,309 @@
+import type { ApprovedMeme, SocialPlatform, SocialPlatformId, SocialPost, SocialPostStatus } from '../types';
+import { API_URL } from './emailService';
+import { getSupabaseClient, uploadMemeImage } from './feedbackService';
+import { convertToJpeg } from './memeCompositor';
+
+const MAX_POSTS_SHOWN = 100;
+const DEFAULT_MAX_ATTEMPTS = 3;
+/** Failed posts are retried after 5, 10, 20... minutes. */
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+/** A post still marked 'publishing' after this long belonged to a worker that died mid-post. */
+const STALE_POST_TIMEOUT_MS = 15 * 60 * 1000;
+
+// --- Supabase Setup Instructions for the social publishing queue ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script, with policies).
+// Each row is one meme queued for one platform; the worker publishes it and fills in post_url.
+/*
+   ALTER TABLE approved_memes ADD COLUMN IF NOT EXISTS social_post_urls JSONB NOT NULL DEFAULT '{}';
+
+   CREATE TABLE social_posts (
+     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+     created_at TIMESTAMPTZ DEFAULT NOW(),
+     meme_id UUID NOT NULL REFERENCES approved_memes(id) ON DELETE CASCADE,
+     platform TEXT NOT NULL,
+     caption TEXT NOT NULL,
+     alt_text TEXT NOT NULL DEFAULT '',
+     image_url TEXT NOT NULL,
+     scheduled_for TIMESTAMPTZ NOT NULL,
+     status TEXT NOT NULL DEFAULT 'scheduled',
+     attempt SMALLINT NOT NULL DEFAULT 0,
+     max_attempts SMALLINT NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+     next_attempt_at TIMESTAMPTZ NOT NULL,
+     started_at TIMESTAMPTZ,
+     published_at TIMESTAMPTZ,
+     post_url TEXT,
+     error_message TEXT
+   );
+*/
+
+export interface SocialPostDraft {
+    caption: string;
+    altText: string;
+    scheduledFor: Date;
+}
+
+/** Counts characters the way people do, so an emoji counts once. */
+export const getCaptionLength = (caption: string): number => Array.from(caption).length;
+
+/** A row of the social_posts table. */
+interface SocialPostRow {
+    id: string;
+    meme_id: string;
+    platform: SocialPlatformId;
+    caption: string;
+    alt_text: string;
+    image_url: string;
+    scheduled_for: string;
+    status: SocialPostStatus;
+    attempt: number;
+    max_attempts: number;
+    next_attempt_at: string;
+    started_at: string | null;
+    published_at: string | null;
+    post_url: string | null;
+    error_message: string | null;
+}
+
+const toSocialPost = (row: SocialPostRow): SocialPost => ({
+    id: row.id,
+    memeId: row.meme_id,
+    platform: row.platform,
+    caption: row.caption,
+    altText: row.alt_text,
+    imageUrl: row.image_url,
+    scheduledFor: row.scheduled_for,
+    status: row.status,
+    attempt: row.attempt,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    startedAt: row.started_at ?? undefined,
+    publishedAt: row.published_at ?? undefined,
+    postUrl: row.post_url ?? undefined,
+    errorMessage: row.error_message ?? undefined,
+});
+
+const throwSocialError = (action: string, error: { message: string }): never => {
+    console.error(`[Supabase] ${action} failed:`, JSON.stringify(error, null, 2));
+    if (error.message.includes('social_post') && (error.message.includes('does not exist') || error.message.includes('schema cache'))) {
+        throw new Error(`Failed to ${action.toLowerCase()}: The social publishing tables are missing or out of date. Please run the 'Social Publishing SQL' from the Admin panel.`);
+    }
+    throw new Error(`Failed to ${action.toLowerCase()}: ${error.message}`);
+};
+
+/**
+ * The platforms the worker can publish to, and whether it has credentials for each.
+ * @throws An Error when the worker's API can't be reached.
+ */
+export const getSocialPlatforms = async (supabaseUrl: string, supabaseAnonKey: string): Promise<SocialPlatform[]> => {
+    const { data: { session } } = await getSupabaseClient(supabaseUrl, supabaseAnonKey).auth.getSession();
+    if (!session) {
+        throw new Error("Please sign in as an admin to publish memes.");
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(`${API_URL}/api/social-platforms`, {
+            headers: { 'Authorization': `Bearer ${session.access_token}` },
+        });
+    } catch (error) {
+        console.error("[Social] Could not reach the worker's API:", error);
+        throw new Error("Could not reach the worker. Make sure it is running (see the README).");
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(`Could not load the social platforms: ${body?.error ?? `the worker responded with ${response.status}.`}`);
+    }
+    return body.platforms;
+};
+
+/**
+ * Newest posts first. Pass a meme id to only get that meme's posts.
+ */
+export const getSocialPosts = async (supabaseUrl: string, supabaseAnonKey: string, memeId?: string, limit = MAX_POSTS_SHOWN): Promise<SocialPost[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    let query = client.from('social_posts').select('*');
+    if (memeId) {
+        query = query.eq('meme_id', memeId);
+    }
+    const { data, error } = await query
+        .order('scheduled_for', { ascending: false })
+        .limit(limit);
+
+    if (error) throwSocialError('Load social posts', error);
+    return (data ?? []).map(toSocialPost);
+};
+
+/**
+ * Queues a meme for each of the given platforms. A JPEG copy of the meme is uploaded first,
+ * because Instagram only accepts JPEG and Bluesky limits images to 1 MB.
+ */
+export const queueSocialPosts = async (
+    meme: ApprovedMeme,
+    platforms: SocialPlatformId[],
+    draft: SocialPostDraft,
+    supabaseUrl: string,
+    supabaseAnonKey: string
+): Promise<SocialPost[]> => {
+    if (platforms.length === 0) {
+        throw new Error("Choose at least one platform.");
+    }
+    if (!draft.caption.trim()) {
+        throw new Error("Please write a caption.");
+    }
+
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const imageUrl = await uploadMemeImage(client, await convertToJpeg(meme.imageUrl), `${meme.id}-social`);
+    const scheduledFor = draft.scheduledFor.toISOString();
+
+    const { data, error } = await client
+        .from('social_posts')
+        .insert(platforms.map(platform => ({
+            meme_id: meme.id,
+            platform,
+            caption: draft.caption.trim(),
+            alt_text: draft.altText.trim(),
+            image_url: imageUrl,
+            scheduled_for: scheduledFor,
+            next_attempt_at: scheduledFor,
+            max_attempts: DEFAULT_MAX_ATTEMPTS,
+        })))
+        .select();
+
+    if (error) throwSocialError('Queue social posts', error);
+    return (data ?? []).map(toSocialPost);
+};
+
+/** Cancels a post that hasn't been published yet. */
+export const cancelSocialPost = async (id: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('social_posts')
+        .update({ status: 'cancelled', error_message: null })
+        .eq('id', id)
+        .in('status', ['scheduled', 'retrying'] satisfies SocialPostStatus[]);
+
+    if (error) throwSocialError('Cancel social post', error);
+};
+
+/** Gives a failed or cancelled post a fresh set of attempts, starting now. */
+export const retrySocialPost = async (id: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('social_posts')
+        .update({ status: 'scheduled', attempt: 0, next_attempt_at: new Date().toISOString(), error_message: null })
+        .eq('id', id)
+        .in('status', ['failed', 'cancelled'] satisfies SocialPostStatus[]);
+
+    if (error) throwSocialError('Retry social post', error);
+};
+
+// --- Worker operations ---
+
+/**
+ * Claims every post whose next attempt is due by moving it to 'publishing'.
+ * Each claim only succeeds if the row is unchanged since it was read, so a post is never published twice at once.
+ */
+export const claimDueSocialPosts = async (supabaseUrl: string, supabaseAnonKey: string): Promise<SocialPost[]> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('social_posts')
+        .select('*')
+        .in('status', ['scheduled', 'retrying'] satisfies SocialPostStatus[])
+        .lte('next_attempt_at', new Date().toISOString());
+
+    if (error) throwSocialError('Load due social posts', error);
+
+    const claimed: SocialPost[] = [];
+    for (const post of (data ?? []).map(toSocialPost)) {
+        const { data: claimedRow, error: claimError } = await client
+            .from('social_posts')
+            .update({ status: 'publishing', attempt: post.attempt + 1, started_at: new Date().toISOString(), error_message: null })
+            .eq('id', post.id)
+            .eq('status', post.status)
+            .eq('attempt', post.attempt)
+            .select()
+            .maybeSingle();
+
+        if (claimError) throwSocialError('Claim social post', claimError);
+        if (claimedRow) claimed.push(toSocialPost(claimedRow));
+    }
+    return claimed;
+};
+
+/**
+ * Marks a post as published and stores its URL on the meme, keyed by platform.
+ * Only marking it published can throw: the post is live by then, so a missing link on the meme is just logged.
+ */
+export const completeSocialPost = async (post: SocialPost, postUrl: string, supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { error } = await client
+        .from('social_posts')
+        .update({ status: 'published', post_url: postUrl, published_at: new Date().toISOString(), error_message: null })
+        .eq('id', post.id);
+
+    if (error) throwSocialError('Complete social post', error);
+
+    const { data: meme, error: memeError } = await client
+        .from('approved_memes')
+        .select('social_post_urls')
+        .eq('id', post.memeId)
+        .single();
+    if (memeError) {
+        console.warn(`[Supabase] Could not load the post links of meme ${post.memeId}:`, memeError.message);
+        return;
+    }
+
+    const { error: updateError } = await client
+        .from('approved_memes')
+        .update({ social_post_urls: { ...(meme.social_post_urls ?? {}), [post.platform]: postUrl } })
+        .eq('id', post.memeId);
+    if (updateError) console.warn(`[Supabase] Could not save the ${post.platform} post link of meme ${post.memeId}:`, updateError.message);
+};
+
+/**
+ * Records a failed attempt and schedules a retry with exponential backoff, or marks the post
+ * as failed for good once its attempts are used up (or straight away when `canRetry` is false).
+ */
+export const failSocialPost = async (
+    post: SocialPost,
+    errorMessage: string,
+    supabaseUrl: string,
+    supabaseAnonKey: string,
+    canRetry: boolean = true
+): Promise<SocialPostStatus> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const status: SocialPostStatus = canRetry && post.attempt < post.maxAttempts ? 'retrying' : 'failed';
+
+    const { error } = await client
+        .from('social_posts')
+        .update({
+            status,
+            error_message: errorMessage,
+            next_attempt_at: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (post.attempt - 1)).toISOString(),
+        })
+        .eq('id', post.id);
+
+    if (error) throwSocialError('Record social post failure', error);
+    return status;
+};
+
+/**
+ * Posts that have been 'publishing' for too long were abandoned by a crashed or restarted worker.
+ * They count as a failed attempt. The post may have gone out before the crash, so check the
+ * account before retrying one by hand.
+ */
+export const recoverStaleSocialPosts = async (supabaseUrl: string, supabaseAnonKey: string): Promise<void> => {
+    const client = getSupabaseClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await client
+        .from('social_posts')
+        .select('*')
+        .eq('status', 'publishing')
+        .lt('started_at', new Date(Date.now() - STALE_POST_TIMEOUT_MS).toISOString());
+
+    if (error) throwSocialError('Load stale social posts', error);
+
+    for (const post of (data ?? []).map(toSocialPost)) {
+        await failSocialPost(post, 'The worker stopped while publishing. Check the account before retrying.', supabaseUrl, supabaseAnonKey, false);
+    }
+};
@@ -1,18 +1,349 @@
+/**
+ * Identifier of a registered image provider (see services/imageProviders.ts),
+ * e.g. 'gemini', 'dalle', 'imagen' or 'stable-diffusion'.
+ */
+export type ImageProviderId = string;
+
+/** How many memes in a batch each image provider should generate. */
+export type ModelPreference = Record<ImageProviderId, number>;
+
+/** How an admin wants batches generated. Saved per admin in the `generation_settings` table. */
+export interface GenerationSettings {
+  conceptCount: number;
+  /** How many memes, each with its own images, are made from every concept. */
+  imagesPerConcept: number;
+  /** Memes per image provider. Memes beyond the mix get providers picked from past approvals and rejections. */
+  modelPreference: ModelPreference;
+  /** The Gemini model that writes the concepts. */
+  textModel: string;
+}
+
+/** Review decisions on one provider's memes in one template, the evidence behind provider selection. */
+export interface ProviderApprovalStats {
+  providerId: ImageProviderId;
+  templateId: MemeTemplateId;
+  approvals: number;
+  rejections: number;
+}
+
+/** Layout of a meme. Slot definitions live in services/memeTemplates.ts. */
+export type MemeTemplateId = 'classic' | 'caption-above' | 'drake' | 'multi-panel' | 'tweet' | 'pov';
+
+/** The text, or image prompt, filled into one slot of a template. */
+export interface MemeSlotValue {
+  slotId: string;
+  value: string;
+}
 
 export interface MemeConcept {
+  /** The main caption. For the classic template this is the text at the top. */
   topText: string;
   bottomText: string;
+  /** The prompt for the main image. Templates with several images keep the rest in `slots`. */
   imagePrompt: string;
+  templateId: MemeTemplateId;
+  slots: MemeSlotValue[];
 }
 
 export interface ApprovedMemeConcept extends MemeConcept {
-  modelUsed: 'gemini' | 'dalle';
+  modelUsed: ImageProviderId;
+}
+
+/** An approved meme injected into the system instruction as an example. */
+export interface FewShotExample extends ApprovedMemeConcept {
+  /** Cosine similarity to the batch's headline or prompt. Absent when the example was picked by recency. */
+  similarity?: number;
+}
+
+/**
+ * A meme as stored in the approved_memes table, with its captions already baked into `imageUrl`.
+ */
+export interface ApprovedMeme extends ApprovedMemeConcept {
+  id: string;
+  createdAt: string;
+  imageUrl: string;
+  originalImageUrl: string | null;
+  altText: string;
+  isFeatured: boolean;
+  /** Links to the published social posts, keyed by platform. */
+  socialPostUrls: Record<SocialPlatformId, string>;
+  /** Suggested post copy, keyed by platform. Empty for memes approved before it was generated. */
+  socialCopy: SocialCopySet;
+}
+
+export type GalleryOrdering = 'newest' | 'featured';
+
+export type MemeStatus = 'pending' | 'approved' | 'rejected';
+
+/** Preset reasons a reviewer can pick when rejecting a meme. Labels live in services/rejectionReasons.ts. */
+export type RejectionTag = 'not-funny' | 'off-brand' | 'offensive' | 'bad-image' | 'text-image-mismatch';
+
+export interface RejectionReason {
+  tags: RejectionTag[];
+  /** Free text from the reviewer. Empty when they only picked tags. */
+  note: string;
+}
+
+/** What the moderation step screens for. Labels and descriptions live in services/moderation.ts. */
+export type ModerationCategory = 'hate' | 'harassment' | 'sexual-real-people' | 'defamation' | 'sexual' | 'violence';
+
+/** What happens to a meme in a category: blocked memes are dropped, flagged ones are shown with a warning. */
+export type ModerationAction = 'block' | 'flag' | 'allow';
+
+/** The action for every category. Stored in the `moderation_policy` table. */
+export type ModerationPolicy = Record<ModerationCategory, ModerationAction>;
+
+export interface ModerationFinding {
+  category: ModerationCategory;
+  /** Whether the captions and image prompts or a generated image fell in the category. */
+  source: 'concept' | 'image';
+  reason: string;
+}
+
+export interface ModerationResult {
+  /** The strictest action the policy takes on the findings. */
+  outcome: ModerationAction;
+  findings: ModerationFinding[];
+  /** Set when the meme couldn't be screened. Such memes are flagged rather than let through silently. */
+  error?: string;
+}
+
+/** A rejected meme shown to the model as something to avoid. */
+export interface RejectedExample extends MemeConcept {
+  rejectionReason: RejectionReason;
 }
 
 export interface GeneratedMeme extends MemeConcept {
   id: string;
   imageUrl: string;
+  /** Text-free images for each image slot of the template, keyed by slot id. */
+  slotImageUrls: Record<string, string>;
+  altText: string;
+  /** Suggested post copy for each social platform. Absent when it couldn't be written. */
+  socialCopy?: SocialCopySet;
+  /** The finished meme with captions baked in. `imageUrl` always stays text-free. */
+  compositedImageUrl?: string;
+  status: MemeStatus;
+  modelUsed: ImageProviderId;
+  /** The generation batch this meme came from, when it was recorded in the history tables. */
+  batchId?: string;
+  /** Why a reviewer rejected it. Only set while the status is 'rejected'. */
+  rejectionReason?: RejectionReason;
+  /** The concept as the model wrote it, kept once a reviewer edits the captions or image prompts. */
+  originalConcept?: MemeConcept;
+  /** How long the images and alt text took to generate. */
+  generationDurationMs?: number;
+  /** The images before each instruction-based edit, oldest first. Undoing an edit restores the last one. */
+  imageHistory?: MemeImageVersion[];
+  /** The moderation step's verdict on the concept and images. Blocked memes never get this far. */
+  moderation?: ModerationResult;
+}
+
+/** A meme's images at one point in its edit history, with their moderation verdict. */
+export type MemeImageVersion = Pick<GeneratedMeme, 'imageUrl' | 'slotImageUrls' | 'moderation'>;
+
+/** A reference meme in the inspiration library: a screenshot and its caption. */
+export interface InspirationItem {
+  id: string;
+  setId: string;
+  imageUrl: string;
+  caption: string;
+}
+
+/** A named collection of reference memes, shown to the model as images when generating from inspiration. */
+export interface InspirationSet {
+  id: string;
+  name: string;
+  items: InspirationItem[];
+}
+
+/** An RSS or Atom feed the worker reads headlines from. Stored in the `headline_feeds` table. */
+export interface HeadlineFeed {
+  id: string;
+  name: string;
+  url: string;
+  isEnabled: boolean;
+  lastFetchedAt: string | null;
+  /** Why the last fetch failed, if it did. */
+  lastError?: string;
+}
+
+/** A headline in the inbox, deduplicated by its normalized title across all feeds. */
+export interface Headline {
+  id: string;
+  feedId: string | null;
+  feedName: string;
+  title: string;
+  link: string;
+  publishedAt: string | null;
+  /** When the team generated from (or dismissed) this headline. Unused headlines have none. */
+  usedAt?: string;
+  usedByBatchId?: string;
+}
+
+export type GenerationSourceType = 'headline' | 'inspiration' | 'autopilot' | 'photo';
+
+/** New memes made from a meme in a batch: a new caption for its image, a new concept for its headline, or variations on it. */
+export type MemeRiffKind = 'caption' | 'concept' | 'variations';
+
+/**
+ * One run of a generator, with everything needed to explain (and reproduce) what it produced.
+ */
+export interface GenerationBatch {
+  id: string;
+  sourceType: GenerationSourceType;
+  /** The headline for headline batches, or the custom prompt for inspiration, autopilot and photo batches. */
+  inputText: string;
+  /** The inspiration set shown to the model. Empty for headline batches. */
+  inspirationSetName: string;
+  /** Instagram links pasted into the prompt by batches made before the inspiration library. */
+  inspirationLinks: string;
+  systemInstructionVersion: string;
+  /** The few-shot examples that were injected into the system instruction. */
+  examples: FewShotExample[];
+  /** Recent rejections that were injected as things to avoid. */
+  rejectedExamples: RejectedExample[];
+  /** The Gemini model that wrote the concepts. */
+  textModel: string;
+  imagesPerConcept: number;
+  modelPreference: ModelPreference;
+  status: 'completed' | 'failed';
+  errorMessage?: string;
+  startedAt: string;
+  completedAt: string;
+  conceptDurationMs?: number;
+  totalDurationMs: number;
+  /** Concepts and memes the moderation step blocked. They are not in `memes`. */
+  blockedCount: number;
+  memes: GeneratedMeme[];
+}
+
+/** Roles are stored in the Supabase `profiles` table. Reviewers can review batches but not publish or generate. */
+export type UserRole = 'admin' | 'reviewer';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  /** Null when the user has no profile row, i.e. they can sign in but have no access. */
+  role: UserRole | null;
+}
+
+/**
+ * A named autopilot campaign, executed by the server-side worker (see worker/autopilotWorker.ts).
+ * Campaigns are stored in the `autopilot_jobs` table.
+ */
+export interface AutopilotJob {
+  id: string;
+  name: string;
+  prompt: string;
+  /** Name of the inspiration set to show the model. Runs fail while no set has this name. */
+  inspirationSetName: string;
+  /** How many of the newest unused inbox headlines each run adds to the prompt. 0 uses the prompt alone. */
+  headlineCount: number;
+  /** Five-field cron expression, evaluated in `timeZone`. */
+  cronExpression: string;
+  /** IANA time zone name, e.g. 'America/New_York'. */
+  timeZone: string;
+  /** Meme concepts per run. Each one gets `imagesPerConcept` memes. */
+  memeCount: number;
+  imagesPerConcept: number;
+  /** Memes per image provider for each run. Memes beyond the mix get providers picked from past approvals and rejections. */
+  modelPreference: ModelPreference;
+  /** The Gemini model that writes the concepts. */
+  textModel: string;
+  recipients: string[];
+  isEnabled: boolean;
+  maxAttempts: number;
+  /** When the schedule fires next. Null while the campaign is paused. */
+  nextRunAt: string | null;
+}
+
+export type AutopilotRunStatus = 'pending' | 'running' | 'retrying' | 'succeeded' | 'failed';
+
+/** One execution of a campaign, either from its schedule or from a "Run now" click. */
+export interface AutopilotRun {
+  id: string;
+  jobId: string;
+  scheduledFor: string;
+  triggeredBy: 'schedule' | 'manual';
+  status: AutopilotRunStatus;
+  attempt: number;
+  nextAttemptAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  errorMessage?: string;
+  batchId?: string;
+  /** When the run's approval email went out. A run with an email is never retried. */
+  emailSentAt?: string;
+}
+
+/** What a link in the approval email does to its meme. */
+export type EmailAction = 'approve' | 'reject' | 'regenerate';
+
+/** A meme's signed approval email links by action. Photo memes have no Regenerate link. */
+export type EmailActionLinks = Partial<Record<EmailAction, string>>;
+
+/** An approval email link as seen by the confirmation page, before it is used. */
+export interface EmailActionPreview {
+  action: EmailAction;
+  meme: GeneratedMeme;
+  expiresAt: string;
+}
+
+/** The outcome of a used approval email link. */
+export interface EmailActionResult {
+  action: EmailAction;
+  meme: GeneratedMeme;
+  /** Fresh links for a regenerated meme, so it can be reviewed in turn. */
+  links?: EmailActionLinks;
+}
+
+/**
+ * Identifier of a registered social publisher (see worker/socialPublishers.ts),
+ * e.g. 'instagram', 'bluesky', 'x' or 'mock'.
+ */
+export type SocialPlatformId = string;
+
+/**
+ * Post copy for one social platform. It is written alongside the alt text but kept apart from it:
+ * the alt text only describes the image for screen readers.
+ */
+export interface SocialCopy {
+  caption: string;
+  /** Without the leading '#'. */
+  hashtags: string[];
+  /** To post as the first comment (or reply), e.g. a call to come to the next party. May be empty. */
+  firstComment: string;
+}
+
+export type SocialCopySet = Partial<Record<SocialPlatformId, SocialCopy>>;
+
+/** A social platform as the admin panel sees it, including whether the worker has its credentials. */
+export interface SocialPlatform {
+  id: SocialPlatformId;
+  label: string;
+  maxCaptionLength: number;
+  isConfigured: boolean;
+}
+
+export type SocialPostStatus = 'scheduled' | 'publishing' | 'retrying' | 'published' | 'failed' | 'cancelled';
+
+/** One approved meme queued for one platform. Stored in the `social_posts` table and published by the worker. */
+export interface SocialPost {
+  id: string;
+  memeId: string;
+  platform: SocialPlatformId;
+  caption: string;
   altText: string;
-  status: 'pending' | 'approved' | 'rejected';
-  modelUsed: 'gemini' | 'dalle';
-}
\ No newline at end of file
+  /** A JPEG copy of the meme, which every platform accepts. */
+  imageUrl: string;
+  scheduledFor: string;
+  status: SocialPostStatus;
+  attempt: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  startedAt?: string;
+  publishedAt?: string;
+  postUrl?: string;
+  errorMessage?: string;
+}
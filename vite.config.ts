@@ -2,17 +2,43 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // The autopilot worker (`npm run build:worker`) is an SSR build that reads its keys from the
+    // server's environment at runtime instead of baking them into the bundle.
+    if (isSsrBuild) {
+      return {
+        define: {
+          'process.env.API_KEY': 'process.env.GEMINI_API_KEY',
+        },
+        build: {
+          outDir: 'dist/worker',
+        },
+        resolve: {
+          alias: {
+            '@': path.resolve(__dirname, '.'),
+          }
+        }
+      };
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The worker serves the API that needs server-side secrets (e.g. sending email).
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Public (anon) Supabase credentials, so visitors can browse the gallery without an admin session.
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL ?? ''),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY ?? ''),
+        // Only needed when the worker's API is not served from the same origin as the app.
+        'process.env.API_URL': JSON.stringify(env.API_URL ?? '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,190 @@
+// A small HTTP API for the things the browser can't do itself because they need server-side
+// secrets, such as sending email or knowing which social accounts are connected. Requests must carry the signed-in admin's Supabase access token,
+// except for the approval email links, which are authorized by their signed token instead.
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { MemeSlotValue, ModerationFinding, ModerationResult } from '../types';
+import type { ApprovalEmailMeme } from '../services/approvalEmail';
+import { DEFAULT_APPROVAL_RECIPIENT } from '../services/approvalEmail';
+import { getUserRole } from '../services/authService';
+import { getSupabaseClient } from '../services/feedbackService';
+import type { ImageProviderCredentials } from '../services/imageProviders';
+import { DEFAULT_MEME_TEMPLATE_ID, MEME_TEMPLATE_IDS } from '../services/memeTemplates';
+import { MODERATION_CATEGORIES } from '../services/moderation';
+import { sendApprovalEmail } from './approvalEmailSender';
+import type { EmailActionConfig } from './emailActions';
+import { getEmailActionConfigFromEnv, performEmailAction, previewEmailAction } from './emailActions';
+import { refreshHeadlineFeeds } from './headlineFeeds';
+import { HttpError } from './httpError';
+import { getSocialPublisherConfigFromEnv, listSocialPlatforms } from './socialPublishers';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+// Approving from an email link sends the finished meme image along.
+const MAX_EMAIL_ACTION_BODY_BYTES = 16 * 1024 * 1024;
+const MAX_EMAIL_MEMES = 20;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/** Request bodies are untrusted until each field has been checked. */
+const readJsonBody = async (req: IncomingMessage, maxBytes: number = MAX_BODY_BYTES): Promise<unknown> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body is too large. Upload images before sending them.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON.');
+  }
+};
+
+const requireAdmin = async (req: IncomingMessage, supabaseUrl: string, supabaseServiceRoleKey: string): Promise<void> => {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) throw new HttpError(401, 'Please sign in as an admin.');
+
+  const { data, error } = await getSupabaseClient(supabaseUrl, supabaseServiceRoleKey).auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'Your session has expired. Please sign in again.');
+
+  const role = await getUserRole(data.user.id, supabaseUrl, supabaseServiceRoleKey);
+  if (role !== 'admin') throw new HttpError(403, 'Only admins can do this.');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const isSlotValue = (value: unknown): value is MemeSlotValue =>
+  isRecord(value) && typeof value.slotId === 'string' && typeof value.value === 'string';
+
+const isModerationFinding = (value: unknown): value is ModerationFinding =>
+  isRecord(value)
+  && MODERATION_CATEGORIES.some(category => category.id === value.category)
+  && (value.source === 'concept' || value.source === 'image')
+  && typeof value.reason === 'string';
+
+/** Only a flag is shown in the email; anything else the body claims is dropped. */
+const parseFlaggedModeration = (value: unknown): ModerationResult | undefined => {
+  if (!isRecord(value) || value.outcome !== 'flag' || !Array.isArray(value.findings)) return undefined;
+  return {
+    outcome: 'flag',
+    findings: value.findings.filter(isModerationFinding),
+    ...(typeof value.error === 'string' ? { error: value.error } : {}),
+  };
+};
+
+const parseApprovalEmailMeme = (value: unknown): ApprovalEmailMeme => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.imageUrl !== 'string' || !/^https?:\/\//.test(value.imageUrl)) {
+    throw new HttpError(400, 'Every meme needs an id and a hosted (http/https) image URL.');
+  }
+  return {
+    id: value.id,
+    templateId: MEME_TEMPLATE_IDS.find(id => id === value.templateId) ?? DEFAULT_MEME_TEMPLATE_ID,
+    slots: Array.isArray(value.slots) ? value.slots.filter(isSlotValue) : [],
+    topText: optionalString(value.topText),
+    bottomText: optionalString(value.bottomText),
+    imageUrl: value.imageUrl,
+    altText: optionalString(value.altText),
+    modelUsed: optionalString(value.modelUsed),
+    batchId: typeof value.batchId === 'string' ? value.batchId : undefined,
+    moderation: parseFlaggedModeration(value.moderation),
+  };
+};
+
+const parseApprovalEmailRequest = (body: unknown): { memes: ApprovalEmailMeme[]; recipients: string[]; subject: string } => {
+  if (!isRecord(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+  const memes = body.memes;
+  if (!Array.isArray(memes) || memes.length === 0 || memes.length > MAX_EMAIL_MEMES) {
+    throw new HttpError(400, `Send between 1 and ${MAX_EMAIL_MEMES} memes.`);
+  }
+
+  const requestedRecipients: unknown[] = Array.isArray(body.recipients) ? body.recipients : [];
+  const invalidRecipients = requestedRecipients.filter(email => typeof email !== 'string' || !EMAIL_PATTERN.test(email));
+  if (invalidRecipients.length > 0) {
+    throw new HttpError(400, `Invalid recipient: ${invalidRecipients.map(String).join(', ')}`);
+  }
+  const recipients = requestedRecipients.filter((email): email is string => typeof email === 'string');
+
+  return {
+    memes: memes.map(parseApprovalEmailMeme),
+    recipients: recipients.length > 0 ? recipients : [DEFAULT_APPROVAL_RECIPIENT],
+    subject: typeof body.subject === 'string' && body.subject.trim() ? body.subject.trim() : 'New Memes for Approval',
+  };
+};
+
+const requireEmailActionConfig = (): EmailActionConfig => {
+  const config = getEmailActionConfigFromEnv(process.env);
+  if (!config) throw new HttpError(503, 'Email links are not set up on this server (APP_URL and EMAIL_ACTION_SECRET).');
+  return config;
+};
+
+export const startApiServer = (
+  port: number,
+  supabaseUrl: string,
+  supabaseServiceRoleKey: string,
+  imageCredentials: ImageProviderCredentials
+): Server => {
+  const server = createServer(async (req, res) => {
+    // Requests are authorized by bearer token, not cookies, so any origin may call the API.
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (req.method === 'POST' && pathname === '/api/approval-email') {
+        await requireAdmin(req, supabaseUrl, supabaseServiceRoleKey);
+        const { memes, recipients, subject } = parseApprovalEmailRequest(await readJsonBody(req));
+        await sendApprovalEmail(memes, recipients, subject, supabaseUrl, supabaseServiceRoleKey);
+        sendJson(res, 200, { success: true });
+        return;
+      }
+      if (req.method === 'GET' && pathname === '/api/social-platforms') {
+        await requireAdmin(req, supabaseUrl, supabaseServiceRoleKey);
+        sendJson(res, 200, { platforms: listSocialPlatforms(getSocialPublisherConfigFromEnv(process.env)) });
+        return;
+      }
+      if (req.method === 'POST' && pathname === '/api/headline-feeds/refresh') {
+        await requireAdmin(req, supabaseUrl, supabaseServiceRoleKey);
+        sendJson(res, 200, { added: await refreshHeadlineFeeds(supabaseUrl, supabaseServiceRoleKey, true) });
+        return;
+      }
+      if (req.method === 'GET' && pathname === '/api/email-action') {
+        const token = searchParams.get('token') ?? '';
+        sendJson(res, 200, await previewEmailAction(token, requireEmailActionConfig(), supabaseUrl, supabaseServiceRoleKey));
+        return;
+      }
+      if (req.method === 'POST' && pathname === '/api/email-action') {
+        const body = await readJsonBody(req, MAX_EMAIL_ACTION_BODY_BYTES);
+        const token = isRecord(body) && typeof body.token === 'string' ? body.token : '';
+        const compositedImageUrl = isRecord(body) && typeof body.compositedImageUrl === 'string' ? body.compositedImageUrl : undefined;
+        const result = await performEmailAction(
+          token, compositedImageUrl, requireEmailActionConfig(), imageCredentials, supabaseUrl, supabaseServiceRoleKey
+        );
+        sendJson(res, 200, result);
+        return;
+      }
+      sendJson(res, 404, { error: 'Not found.' });
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 502;
+      const message = error instanceof Error ? error.message : 'Unexpected error.';
+      if (status >= 500) console.error('[API] Request failed:', error);
+      sendJson(res, status, { error: message });
+    }
+  });
+
+  server.listen(port, () => console.log(`[API] Listening on port ${port}.`));
+  return server;
+};
@@ -0,0 +1,35 @@
+import type { ApprovalEmailLinks, ApprovalEmailMeme } from '../services/approvalEmail';
+import { renderApprovalEmail, uploadApprovalEmailImages } from '../services/approvalEmail';
+import { createEmailActionLinks, getEmailActionConfigFromEnv } from './emailActions';
+import { getEmailTransportConfigFromEnv, sendEmail } from './emailTransports';
+
+/**
+ * Uploads any inline images, renders the approval email and delivers it with the transport
+ * configured in the worker's environment (EMAIL_TRANSPORT, SMTP_* or SENDGRID_API_KEY).
+ * Memes recorded in the batch history get Approve/Reject/Regenerate links (no Regenerate for photo memes)
+ * when APP_URL and EMAIL_ACTION_SECRET are set.
+ * @throws An Error describing why delivery failed.
+ */
+export const sendApprovalEmail = async (
+  memes: ApprovalEmailMeme[],
+  recipients: string[],
+  subject: string,
+  supabaseUrl: string,
+  supabaseServiceRoleKey: string
+): Promise<void> => {
+  const hostedMemes = await uploadApprovalEmailImages(memes, supabaseUrl, supabaseServiceRoleKey);
+
+  const actionConfig = getEmailActionConfigFromEnv(process.env);
+  const links: ApprovalEmailLinks = {};
+  if (actionConfig) {
+    for (const meme of hostedMemes.filter(m => m.batchId)) {
+      links[meme.id] = createEmailActionLinks(meme, actionConfig);
+    }
+  } else {
+    console.warn('[Email] APP_URL or EMAIL_ACTION_SECRET is not set, so the email has no approve/reject links.');
+  }
+
+  const { html, text } = renderApprovalEmail(hostedMemes, subject, links);
+  await sendEmail({ to: recipients, subject, html, text }, getEmailTransportConfigFromEnv(process.env));
+  console.log(`[Email] Sent "${subject}" to ${recipients.join(', ')}.`);
+};
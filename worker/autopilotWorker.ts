@@ -0,0 +1,202 @@
+// Server-side autopilot worker. Build and run it with:
+//   npm run build:worker && npm run worker
+// It needs GEMINI_API_KEY, SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in its environment,
+// plus OPENAI_API_KEY and STABLE_DIFFUSION_URL for those image providers, and the email
+// settings read by worker/emailTransports.ts and worker/emailActions.ts. It also serves the
+// admin panel's API, and the approval email's links, on API_PORT.
+// Every minute it queues a run for each enabled campaign whose cron schedule has come due,
+// then executes due runs (including "Run now" clicks), retrying failures with backoff.
+// Run status lives in the autopilot_runs table, which is what the admin panel reads.
+// Each poll also publishes the social posts that have come due (see worker/socialPublishers.ts
+// for the account credentials each platform needs) and reads new headlines from the feeds.
+
+import type { AutopilotJob, AutopilotRun, Headline } from '../types';
+import { generateMemesFromInspiration } from '../services/geminiService';
+import { getApprovedMemes } from '../services/feedbackService';
+import { getInspirationSetByName } from '../services/inspirationService';
+import { getUnusedHeadlines, markHeadlinesUsed } from '../services/headlineService';
+import type { ImageProviderCredentials } from '../services/imageProviders';
+import { getLocalDate, isMissedRun } from '../services/autopilotSchedule';
+import {
+  advanceAutopilotJob,
+  claimDueAutopilotRuns,
+  completeAutopilotRun,
+  enqueueAutopilotRun,
+  failAutopilotRun,
+  getAutopilotJobs,
+  markAutopilotRunEmailSent,
+  recoverStaleAutopilotRuns,
+} from '../services/autopilotService';
+import { sendApprovalEmail } from './approvalEmailSender';
+import { startApiServer } from './apiServer';
+import { publishDueSocialPosts } from './socialPublishing';
+import { refreshHeadlineFeeds } from './headlineFeeds';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const DEFAULT_API_PORT = 8787;
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`[Autopilot] Missing required environment variable ${name}.`);
+    process.exit(1);
+  }
+  return value;
+};
+
+requireEnv('GEMINI_API_KEY');
+const supabaseUrl = requireEnv('SUPABASE_URL');
+// The service role key bypasses row level security, so keep it on the server.
+const supabaseServiceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+const imageCredentials: ImageProviderCredentials = {
+  openAiApiKey: process.env.OPENAI_API_KEY ?? '',
+  stableDiffusionUrl: process.env.STABLE_DIFFUSION_URL ?? '',
+};
+
+/** The campaign's prompt, led by the inbox headlines picked for this run. */
+const getRunPrompt = (job: AutopilotJob, headlines: Headline[]): string => {
+  if (headlines.length === 0) return job.prompt;
+  const headlineList = headlines.map(headline => `"${headline.title}"`).join('; ');
+  return `Today's headlines: ${headlineList}. ${job.prompt}`.trim();
+};
+
+/**
+ * Runs whose approval email went out but whose success couldn't be recorded, keyed by run id.
+ * They are recorded again on the next tick. Stale run recovery leaves them alone, and after a restart
+ * it completes runs by their email_sent_at marker, so neither retries them and emails a second batch.
+ */
+const unrecordedRuns = new Map<string, { run: AutopilotRun; batchId: string; label: string }>();
+
+const recordRunSuccess = async (run: AutopilotRun, batchId: string, label: string): Promise<void> => {
+  try {
+    await completeAutopilotRun(run, batchId, supabaseUrl, supabaseServiceRoleKey);
+    unrecordedRuns.delete(run.id);
+    console.log(`[Autopilot] ${label} succeeded (batch ${batchId}).`);
+  } catch (error) {
+    unrecordedRuns.set(run.id, { run, batchId, label });
+    console.error(`[Autopilot] ${label} sent its email, but its success could not be recorded. Trying again on the next poll:`, error instanceof Error ? error.message : error);
+  }
+};
+
+const executeRun = async (run: AutopilotRun, job: AutopilotJob): Promise<void> => {
+  const label = `"${job.name}" (${run.triggeredBy} run for ${run.scheduledFor}, attempt ${run.attempt}/${job.maxAttempts})`;
+  console.log(`[Autopilot] Running ${label}.`);
+  let batchId: string;
+  let headlines: Headline[];
+  try {
+    const inspiration = await getInspirationSetByName(job.inspirationSetName, supabaseUrl, supabaseServiceRoleKey);
+    headlines = job.headlineCount > 0 ? await getUnusedHeadlines(supabaseUrl, supabaseServiceRoleKey, job.headlineCount) : [];
+    if (job.headlineCount > 0 && headlines.length === 0) {
+      throw new Error('The headline inbox has no unused headlines. Add feeds or wait for new stories.');
+    }
+    const prompt = getRunPrompt(job, headlines);
+    const examples = await getApprovedMemes(supabaseUrl, supabaseServiceRoleKey, prompt);
+    const batch = await generateMemesFromInspiration(
+      inspiration, prompt, examples, imageCredentials, supabaseUrl, supabaseServiceRoleKey, 'autopilot',
+      {
+        conceptCount: job.memeCount,
+        imagesPerConcept: job.imagesPerConcept,
+        modelPreference: job.modelPreference,
+        textModel: job.textModel,
+      }
+    );
+    const successfulMemes = batch.memes.filter(m => m.status !== 'rejected');
+    if (successfulMemes.length === 0) {
+      throw new Error('All meme generations failed. No email sent.');
+    }
+    const localDate = getLocalDate(new Date(run.scheduledFor), job.timeZone);
+    await sendApprovalEmail(successfulMemes, job.recipients, `KMFNY Autopilot: ${job.name} (${localDate})`, supabaseUrl, supabaseServiceRoleKey);
+    batchId = batch.id;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = await failAutopilotRun(run, job.maxAttempts, message, supabaseUrl, supabaseServiceRoleKey);
+    console.error(`[Autopilot] ${label} failed (${status}):`, message);
+    return;
+  }
+
+  // The email is out, so nothing from here on may make the run retryable.
+  await markAutopilotRunEmailSent(run, batchId, supabaseUrl, supabaseServiceRoleKey)
+    .catch(error => console.error(`[Autopilot] Could not record that ${label} sent its email:`, error instanceof Error ? error.message : error));
+  if (headlines.length > 0) {
+    await markHeadlinesUsed(headlines.map(headline => headline.id), batchId, supabaseUrl, supabaseServiceRoleKey)
+      .catch(error => console.error(`[Autopilot] Could not mark the headlines of ${label} as used:`, error instanceof Error ? error.message : error));
+  }
+  await recordRunSuccess(run, batchId, label);
+};
+
+/**
+ * Queues the due run of every enabled campaign and moves its schedule forward.
+ * Runs missed by more than the grace period (e.g. while the worker was down) are skipped.
+ */
+const scheduleDueRuns = async (jobs: AutopilotJob[], now: Date): Promise<void> => {
+  for (const job of jobs) {
+    if (!job.isEnabled || !job.nextRunAt || new Date(job.nextRunAt) > now) continue;
+
+    if (isMissedRun(new Date(job.nextRunAt), now)) {
+      console.warn(`[Autopilot] Skipping the missed ${job.nextRunAt} run of "${job.name}".`);
+    } else {
+      await enqueueAutopilotRun(job, job.nextRunAt, supabaseUrl, supabaseServiceRoleKey);
+    }
+    await advanceAutopilotJob(job, now, supabaseUrl, supabaseServiceRoleKey);
+  }
+};
+
+const tick = async (): Promise<void> => {
+  for (const { run, batchId, label } of [...unrecordedRuns.values()]) {
+    await recordRunSuccess(run, batchId, label);
+  }
+  const jobs = await getAutopilotJobs(supabaseUrl, supabaseServiceRoleKey);
+  await recoverStaleAutopilotRuns(jobs, supabaseUrl, supabaseServiceRoleKey, [...unrecordedRuns.keys()]);
+  await scheduleDueRuns(jobs, new Date());
+
+  const runs = await claimDueAutopilotRuns(supabaseUrl, supabaseServiceRoleKey);
+  for (const run of runs) {
+    const job = jobs.find(j => j.id === run.jobId);
+    if (!job || (run.triggeredBy === 'schedule' && !job.isEnabled)) {
+      // The campaign was paused (or deleted) after this run was queued. "Run now" works on paused campaigns.
+      await failAutopilotRun(run, run.attempt, 'The campaign was paused before this run started.', supabaseUrl, supabaseServiceRoleKey);
+      continue;
+    }
+    await executeRun(run, job);
+  }
+};
+
+// Ticks never overlap: a long generation run simply delays the next poll.
+let isStopping = false;
+let pollTimer: NodeJS.Timeout | undefined;
+
+const poll = async (): Promise<void> => {
+  // Publishing goes first so a long generation run never delays scheduled posts.
+  try {
+    await publishDueSocialPosts(supabaseUrl, supabaseServiceRoleKey);
+  } catch (error) {
+    console.error('[Social] Publishing failed:', error);
+  }
+  try {
+    await refreshHeadlineFeeds(supabaseUrl, supabaseServiceRoleKey);
+  } catch (error) {
+    console.error('[Headlines] Refreshing feeds failed:', error);
+  }
+  try {
+    await tick();
+  } catch (error) {
+    console.error('[Autopilot] Poll failed:', error);
+  }
+  if (!isStopping) {
+    pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+  }
+};
+
+const apiServer = startApiServer(Number(process.env.API_PORT || DEFAULT_API_PORT), supabaseUrl, supabaseServiceRoleKey, imageCredentials);
+
+const stop = () => {
+  console.log('[Autopilot] Shutting down after the current run...');
+  isStopping = true;
+  clearTimeout(pollTimer);
+  apiServer.close();
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+console.log('[Autopilot] Worker started.');
+poll();
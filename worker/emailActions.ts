@@ -0,0 +1,253 @@
+// Approve, Reject and Regenerate links in the approval email.
+// Each link carries a token signed with EMAIL_ACTION_SECRET that names one meme, the batch it came
+// from, the action and an expiry. Links open the app's confirmation page (APP_URL), which shows the
+// meme and only acts once the reviewer confirms, so mail scanners that prefetch links can't use them.
+// Used tokens are recorded in the email_action_tokens table, which makes every link single-use.
+// A meme's links from one email share a link set, and only one link of a set can ever be used.
+
+// --- Supabase Setup Instructions for the email action table ---
+// Run the following in the 'SQL Editor' (the admin panel shows the same script):
+/*
+   CREATE TABLE email_action_tokens (
+     id UUID PRIMARY KEY,
+     meme_id UUID NOT NULL,
+     batch_id UUID NOT NULL,
+     action TEXT NOT NULL,
+     used_at TIMESTAMPTZ DEFAULT NOW(),
+     link_set_id UUID UNIQUE
+   );
+   -- Only the worker (with the service role key) reads or writes it, so no policies are needed.
+   ALTER TABLE email_action_tokens ENABLE ROW LEVEL SECURITY;
+   -- Tables created before link sets:
+   -- ALTER TABLE email_action_tokens ADD COLUMN IF NOT EXISTS link_set_id UUID UNIQUE;
+*/
+
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { EmailAction, EmailActionLinks, EmailActionPreview, EmailActionResult, GeneratedMeme } from '../types';
+import { addApprovedMeme, getSupabaseClient } from '../services/feedbackService';
+import { generateImageAltText, generateMemeImages, moderateRegeneratedMeme } from '../services/geminiService';
+import { getGeneratedMeme, saveGeneratedMeme, updateGeneratedMemeStatus } from '../services/historyService';
+import { PHOTO_MODEL_ID } from '../services/imageProviders';
+import type { ImageProviderCredentials } from '../services/imageProviders';
+import { formatModerationResult, moderateMemeImages } from '../services/moderation';
+import { getModerationPolicy } from '../services/moderationPolicyService';
+import { HttpError } from './httpError';
+
+const EMAIL_ACTIONS: EmailAction[] = ['approve', 'reject', 'regenerate'];
+const DEFAULT_TTL_HOURS = 72;
+const UNIQUE_VIOLATION = '23505';
+// The finished image the confirmation page renders: a PNG (or JPEG) data URL, never SVG or anything else.
+const COMPOSITED_IMAGE_PATTERN = /^data:image\/(png|jpeg);base64,([A-Za-z0-9+/]+={0,2})$/;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+export interface EmailActionConfig {
+  /** Where the app is served; links open its confirmation page. */
+  appUrl: string;
+  secret: string;
+  ttlHours: number;
+}
+
+interface EmailActionClaims {
+  id: string;
+  memeId: string;
+  batchId: string;
+  action: EmailAction;
+  /** Shared by the meme's other links from the same email. Missing from links signed before link sets. */
+  linkSetId?: string;
+  /** Expiry, in milliseconds since the epoch. */
+  exp: number;
+}
+
+/**
+ * Reads the email action settings from the worker's environment.
+ * Returns null when APP_URL or EMAIL_ACTION_SECRET is missing; emails are then sent without links.
+ */
+export const getEmailActionConfigFromEnv = (env: NodeJS.ProcessEnv): EmailActionConfig | null => {
+  if (!env.APP_URL || !env.EMAIL_ACTION_SECRET) return null;
+  return {
+    appUrl: env.APP_URL.replace(/\/+$/, ''),
+    secret: env.EMAIL_ACTION_SECRET,
+    ttlHours: Number(env.EMAIL_ACTION_TTL_HOURS) || DEFAULT_TTL_HOURS,
+  };
+};
+
+const sign = (payload: string, secret: string): Buffer => createHmac('sha256', secret).update(payload).digest();
+
+const createToken = (claims: EmailActionClaims, secret: string): string => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret).toString('base64url')}`;
+};
+
+const verifyToken = (token: string, config: EmailActionConfig, now: Date = new Date()): EmailActionClaims => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) throw new HttpError(400, 'This link is not valid.');
+
+  const expected = sign(payload, config.secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(400, 'This link is not valid.');
+  }
+
+  const claims: EmailActionClaims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (claims.exp <= now.getTime()) {
+    throw new HttpError(410, 'This link has expired. Open the app to review the meme instead.');
+  }
+  return claims;
+};
+
+/** Our own photos keep the team's photo, so they can be approved or rejected but never regenerated. */
+const getEmailActions = (meme: Pick<GeneratedMeme, 'modelUsed'>): EmailAction[] =>
+  meme.modelUsed === PHOTO_MODEL_ID ? EMAIL_ACTIONS.filter(action => action !== 'regenerate') : EMAIL_ACTIONS;
+
+/**
+ * Signs a fresh Approve, Reject and (except for photo memes) Regenerate link for a meme that was recorded
+ * in the history tables.
+ */
+export const createEmailActionLinks = (
+  meme: Pick<GeneratedMeme, 'id' | 'batchId' | 'modelUsed'>,
+  config: EmailActionConfig,
+  now: Date = new Date()
+): EmailActionLinks => {
+  if (!meme.batchId) throw new Error(`Meme ${meme.id} has no batch, so it can't have email links.`);
+  const exp = now.getTime() + config.ttlHours * 60 * 60 * 1000;
+  const linkSetId = randomUUID();
+  return Object.fromEntries(getEmailActions(meme).map(action => {
+    const token = createToken({ id: randomUUID(), memeId: meme.id, batchId: meme.batchId!, action, linkSetId, exp }, config.secret);
+    return [action, `${config.appUrl}/?emailAction=${encodeURIComponent(token)}`];
+  }));
+};
+
+/** Links signed before link sets are a set of their own. */
+const getLinkSetId = (claims: EmailActionClaims): string => claims.linkSetId ?? claims.id;
+
+/** Whether this link, or another link of its set, has been used. */
+const isTokenUsed = async (claims: EmailActionClaims, supabaseUrl: string, supabaseServiceRoleKey: string): Promise<boolean> => {
+  const { data, error } = await getSupabaseClient(supabaseUrl, supabaseServiceRoleKey)
+    .from('email_action_tokens')
+    .select('id')
+    .or(`id.eq.${claims.id},link_set_id.eq.${getLinkSetId(claims)}`)
+    .limit(1);
+  if (error) throw new Error(`Could not check the link: ${error.message}`);
+  return (data ?? []).length > 0;
+};
+
+/** Records the token, and with it its whole link set, as used. Fails if another request got there first. */
+const claimToken = async (claims: EmailActionClaims, supabaseUrl: string, supabaseServiceRoleKey: string): Promise<void> => {
+  const { error } = await getSupabaseClient(supabaseUrl, supabaseServiceRoleKey)
+    .from('email_action_tokens')
+    .insert({ id: claims.id, meme_id: claims.memeId, batch_id: claims.batchId, action: claims.action, link_set_id: getLinkSetId(claims) });
+  if (error?.code === UNIQUE_VIOLATION) throw new HttpError(410, 'A link for this meme has already been used.');
+  if (error) throw new Error(`Could not use the link: ${error.message}`);
+};
+
+/** Lets a link (and the rest of its set) be retried when its action failed. */
+const releaseToken = async (claims: EmailActionClaims, supabaseUrl: string, supabaseServiceRoleKey: string): Promise<void> => {
+  const { error } = await getSupabaseClient(supabaseUrl, supabaseServiceRoleKey)
+    .from('email_action_tokens')
+    .delete()
+    .eq('id', claims.id);
+  if (error) console.error(`[Email] Could not release link ${claims.id}:`, error.message);
+};
+
+/**
+ * Loads the link's meme, checking it still belongs to the link's batch, still awaits review and
+ * allows the link's action.
+ */
+const getReviewableMeme = async (claims: EmailActionClaims, supabaseUrl: string, supabaseServiceRoleKey: string): Promise<GeneratedMeme> => {
+  const meme = await getGeneratedMeme(claims.memeId, supabaseUrl, supabaseServiceRoleKey);
+  if (!meme || meme.batchId !== claims.batchId) {
+    throw new HttpError(404, 'This meme is no longer in the batch history.');
+  }
+  if (meme.status !== 'pending') {
+    throw new HttpError(409, `This meme has already been ${meme.status}.`);
+  }
+  if (!getEmailActions(meme).includes(claims.action)) {
+    throw new HttpError(409, "This meme uses one of our photos, so it can't be regenerated. Edit its captions in the app instead.");
+  }
+  return meme;
+};
+
+/**
+ * Checks a link without using it, for the confirmation page.
+ */
+export const previewEmailAction = async (
+  token: string,
+  config: EmailActionConfig,
+  supabaseUrl: string,
+  supabaseServiceRoleKey: string
+): Promise<EmailActionPreview> => {
+  const claims = verifyToken(token, config);
+  if (await isTokenUsed(claims, supabaseUrl, supabaseServiceRoleKey)) {
+    throw new HttpError(410, 'A link for this meme has already been used.');
+  }
+  const meme = await getReviewableMeme(claims, supabaseUrl, supabaseServiceRoleKey);
+  return { action: claims.action, meme, expiresAt: new Date(claims.exp).toISOString() };
+};
+
+/** Whether the data URL is a real PNG or JPEG, checked by its bytes and not only by what it claims to be. */
+const isCompositedImage = (dataUrl: string): boolean => {
+  const match = dataUrl.match(COMPOSITED_IMAGE_PATTERN);
+  if (!match) return false;
+  const bytes = Buffer.from(match[2], 'base64');
+  const signature = match[1] === 'png' ? PNG_SIGNATURE : JPEG_SIGNATURE;
+  return bytes.subarray(0, signature.length).equals(signature);
+};
+
+/**
+ * Uses a link: approves, rejects or regenerates its meme, the same way the review screen does.
+ * Captions are rendered by the browser, so approving needs the finished image from the confirmation page.
+ * Anyone with the link can send that image, so it goes through the moderation gate before it is published.
+ */
+export const performEmailAction = async (
+  token: string,
+  compositedImageUrl: string | undefined,
+  config: EmailActionConfig,
+  imageCredentials: ImageProviderCredentials,
+  supabaseUrl: string,
+  supabaseServiceRoleKey: string
+): Promise<EmailActionResult> => {
+  const claims = verifyToken(token, config);
+  const meme = await getReviewableMeme(claims, supabaseUrl, supabaseServiceRoleKey);
+  if (claims.action === 'approve' && !(compositedImageUrl && isCompositedImage(compositedImageUrl))) {
+    throw new HttpError(400, 'Approving needs the finished meme image as a PNG or JPEG.');
+  }
+
+  await claimToken(claims, supabaseUrl, supabaseServiceRoleKey);
+  try {
+    if (claims.action === 'approve') {
+      const policy = await getModerationPolicy(supabaseUrl, supabaseServiceRoleKey);
+      const moderation = await moderateMemeImages({ ...meme, imageUrl: compositedImageUrl!, slotImageUrls: {} }, policy);
+      if (moderation.outcome === 'block') {
+        throw new HttpError(422, `The moderation policy blocked this image (${formatModerationResult(moderation)}). Review the meme in the app instead.`);
+      }
+      await addApprovedMeme({ ...meme, compositedImageUrl }, supabaseUrl, supabaseServiceRoleKey);
+      await updateGeneratedMemeStatus(meme.id, 'approved', supabaseUrl, supabaseServiceRoleKey);
+      return { action: claims.action, meme: { ...meme, status: 'approved' } };
+    }
+
+    if (claims.action === 'reject') {
+      await updateGeneratedMemeStatus(meme.id, 'rejected', supabaseUrl, supabaseServiceRoleKey);
+      return { action: claims.action, meme: { ...meme, status: 'rejected' } };
+    }
+
+    const { imageUrl, slotImageUrls, modelUsed } = await generateMemeImages(meme, meme.modelUsed, imageCredentials);
+    const regeneratedMeme: GeneratedMeme = await moderateRegeneratedMeme({
+      ...meme,
+      imageUrl,
+      slotImageUrls,
+      altText: await generateImageAltText(meme),
+      modelUsed,
+    }, supabaseUrl, supabaseServiceRoleKey);
+    await saveGeneratedMeme(regeneratedMeme, supabaseUrl, supabaseServiceRoleKey);
+    const savedMeme = await getGeneratedMeme(meme.id, supabaseUrl, supabaseServiceRoleKey);
+    return {
+      action: claims.action,
+      meme: savedMeme ?? regeneratedMeme,
+      links: createEmailActionLinks(regeneratedMeme, config),
+    };
+  } catch (error) {
+    await releaseToken(claims, supabaseUrl, supabaseServiceRoleKey);
+    throw error;
+  }
+};
@@ -0,0 +1,140 @@
+import nodemailer from 'nodemailer';
+
+// Email transports hold SMTP passwords and API keys, so they only ever run in the worker.
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransportConfig {
+  /** The transport to send with, e.g. 'smtp' or 'sendgrid'. */
+  transportId: string;
+  from: string;
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  smtpUser: string;
+  smtpPass: string;
+  sendGridApiKey: string;
+}
+
+export interface EmailTransport {
+  id: string;
+  label: string;
+  isConfigured: (config: EmailTransportConfig) => boolean;
+  send: (message: EmailMessage, config: EmailTransportConfig) => Promise<void>;
+}
+
+export const DEFAULT_EMAIL_TRANSPORT_ID = 'smtp';
+
+const transports = new Map<string, EmailTransport>();
+
+export const registerEmailTransport = (transport: EmailTransport): void => {
+  transports.set(transport.id, transport);
+};
+
+export const getEmailTransport = (id: string): EmailTransport | undefined => transports.get(id);
+
+export const listEmailTransports = (): EmailTransport[] => Array.from(transports.values());
+
+/**
+ * Reads the transport settings from the worker's environment.
+ * The defaults match a local MailHog (SMTP on localhost:1025, no auth).
+ */
+export const getEmailTransportConfigFromEnv = (env: NodeJS.ProcessEnv): EmailTransportConfig => ({
+  transportId: env.EMAIL_TRANSPORT || DEFAULT_EMAIL_TRANSPORT_ID,
+  from: env.EMAIL_FROM || 'Kiss My Face New York <memes@kissmyfacenewyork.com>',
+  smtpHost: env.SMTP_HOST || 'localhost',
+  smtpPort: Number(env.SMTP_PORT || 1025),
+  smtpSecure: env.SMTP_SECURE === 'true',
+  smtpUser: env.SMTP_USER ?? '',
+  smtpPass: env.SMTP_PASS ?? '',
+  sendGridApiKey: env.SENDGRID_API_KEY ?? '',
+});
+
+/**
+ * Sends a message with the configured transport.
+ * @throws An Error describing why delivery failed, so callers can surface it.
+ */
+export const sendEmail = async (message: EmailMessage, config: EmailTransportConfig): Promise<void> => {
+  const transport = getEmailTransport(config.transportId);
+  if (!transport) {
+    throw new Error(`Unknown email transport "${config.transportId}". Use one of: ${listEmailTransports().map(t => t.id).join(', ')}.`);
+  }
+  if (!transport.isConfigured(config)) {
+    throw new Error(`The ${transport.label} email transport is not configured. Check the worker's environment variables.`);
+  }
+  if (message.to.length === 0) {
+    throw new Error('The approval email has no recipients.');
+  }
+  await transport.send(message, config);
+};
+
+// --- Built-in transports ---
+
+/** Splits 'Name <email@example.com>' into the shape SendGrid expects. */
+const parseAddress = (address: string): { email: string; name?: string } => {
+  const match = address.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1] || undefined, email: match[2] } : { email: address.trim() };
+};
+
+registerEmailTransport({
+  id: 'smtp',
+  label: 'SMTP',
+  isConfigured: config => Boolean(config.smtpHost && config.smtpPort),
+  send: async (message, config) => {
+    const transporter = nodemailer.createTransport({
+      host: config.smtpHost,
+      port: config.smtpPort,
+      secure: config.smtpSecure,
+      auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPass } : undefined,
+    });
+    try {
+      await transporter.sendMail({ from: config.from, ...message });
+    } catch (error) {
+      console.error('[Email] SMTP delivery failed:', error);
+      throw new Error(`SMTP delivery via ${config.smtpHost}:${config.smtpPort} failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      transporter.close();
+    }
+  },
+});
+
+registerEmailTransport({
+  id: 'sendgrid',
+  label: 'SendGrid',
+  isConfigured: config => Boolean(config.sendGridApiKey),
+  send: async (message, config) => {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.sendGridApiKey}`,
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: message.to.map(email => ({ email })) }],
+        from: parseAddress(config.from),
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      console.error('[Email] SendGrid delivery failed:', response.status, body);
+      let detail = body;
+      try {
+        detail = JSON.parse(body).errors?.map((e: { message: string }) => e.message).join(' ') || body;
+      } catch {
+        // Not JSON; use the raw body.
+      }
+      throw new Error(`SendGrid rejected the email (${response.status}): ${detail}`);
+    }
+  },
+});
@@ -0,0 +1,47 @@
+import type { HeadlineFeed } from '../types';
+import { parseFeed } from '../services/feedParser';
+import { getHeadlineFeeds, recordHeadlineFeedFetch, saveFeedHeadlines } from '../services/headlineService';
+
+/** Each enabled feed is fetched at most this often, unless an admin asks for a refresh. */
+const FEED_REFRESH_INTERVAL_MS = 30 * 60 * 1000;
+const FEED_TIMEOUT_MS = 15 * 1000;
+
+const fetchFeed = async (feed: HeadlineFeed): Promise<string> => {
+  const response = await fetch(feed.url, {
+    headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml;q=0.9, */*;q=0.8' },
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`The feed responded with ${response.status}.`);
+  }
+  return response.text();
+};
+
+const isDue = (feed: HeadlineFeed, now: number): boolean =>
+  !feed.lastFetchedAt || now - new Date(feed.lastFetchedAt).getTime() >= FEED_REFRESH_INTERVAL_MS;
+
+/**
+ * Fetches the enabled feeds that are due (or all of them with `force`) and adds their new headlines
+ * to the inbox. A broken feed is recorded on its row and never stops the others.
+ * @returns How many new headlines were added.
+ */
+export const refreshHeadlineFeeds = async (supabaseUrl: string, supabaseServiceRoleKey: string, force = false): Promise<number> => {
+  const now = Date.now();
+  const feeds = (await getHeadlineFeeds(supabaseUrl, supabaseServiceRoleKey)).filter(feed => feed.isEnabled && (force || isDue(feed, now)));
+
+  let added = 0;
+  for (const feed of feeds) {
+    try {
+      const count = await saveFeedHeadlines(feed, parseFeed(await fetchFeed(feed)), supabaseUrl, supabaseServiceRoleKey);
+      await recordHeadlineFeedFetch(feed, null, supabaseUrl, supabaseServiceRoleKey);
+      if (count > 0) console.log(`[Headlines] ${count} new from "${feed.name}".`);
+      added += count;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Headlines] Fetching "${feed.name}" failed:`, message);
+      await recordHeadlineFeedFetch(feed, message, supabaseUrl, supabaseServiceRoleKey)
+        .catch(recordError => console.error(`[Headlines] Could not record the failure of "${feed.name}":`, recordError instanceof Error ? recordError.message : recordError));
+    }
+  }
+  return added;
+};
@@ -0,0 +1,6 @@
+/** Thrown by API request handlers to answer with a specific status code. */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,263 @@
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import type { SocialPlatform, SocialPlatformId } from '../types';
+
+// Social publishers hold account tokens and passwords, so they only ever run in the worker.
+
+export interface SocialPostContent {
+  caption: string;
+  altText: string;
+  /** A public URL of a JPEG image. */
+  imageUrl: string;
+}
+
+export interface PublishedPost {
+  /** Where the post can be seen. */
+  postUrl: string;
+}
+
+export interface SocialPublisherConfig {
+  instagramUserId: string;
+  instagramAccessToken: string;
+  blueskyServiceUrl: string;
+  blueskyHandle: string;
+  blueskyAppPassword: string;
+  xApiKey: string;
+  xApiSecret: string;
+  xAccessToken: string;
+  xAccessTokenSecret: string;
+  /** Share of mock posts that fail, from 0 to 1, to exercise retries in development. */
+  mockFailureRate: number;
+}
+
+export interface SocialPublisher {
+  id: SocialPlatformId;
+  label: string;
+  maxCaptionLength: number;
+  isConfigured: (config: SocialPublisherConfig) => boolean;
+  /** Publishes the post. Throws an Error describing the failure, which is stored on the queue row. */
+  publish: (content: SocialPostContent, config: SocialPublisherConfig) => Promise<PublishedPost>;
+}
+
+const publishers = new Map<SocialPlatformId, SocialPublisher>();
+
+export const registerSocialPublisher = (publisher: SocialPublisher): void => {
+  publishers.set(publisher.id, publisher);
+};
+
+export const getSocialPublisher = (id: SocialPlatformId): SocialPublisher | undefined => publishers.get(id);
+
+export const listSocialPublishers = (): SocialPublisher[] => Array.from(publishers.values());
+
+/** The registered platforms as the admin panel sees them. */
+export const listSocialPlatforms = (config: SocialPublisherConfig): SocialPlatform[] =>
+  listSocialPublishers().map(({ id, label, maxCaptionLength, isConfigured }) =>
+    ({ id, label, maxCaptionLength, isConfigured: isConfigured(config) }));
+
+/**
+ * Reads the account credentials from the worker's environment.
+ */
+export const getSocialPublisherConfigFromEnv = (env: NodeJS.ProcessEnv): SocialPublisherConfig => ({
+  instagramUserId: env.INSTAGRAM_USER_ID ?? '',
+  instagramAccessToken: env.INSTAGRAM_ACCESS_TOKEN ?? '',
+  blueskyServiceUrl: env.BLUESKY_SERVICE_URL || 'https://bsky.social',
+  blueskyHandle: env.BLUESKY_HANDLE ?? '',
+  blueskyAppPassword: env.BLUESKY_APP_PASSWORD ?? '',
+  xApiKey: env.X_API_KEY ?? '',
+  xApiSecret: env.X_API_SECRET ?? '',
+  xAccessToken: env.X_ACCESS_TOKEN ?? '',
+  xAccessTokenSecret: env.X_ACCESS_TOKEN_SECRET ?? '',
+  mockFailureRate: Number(env.SOCIAL_MOCK_FAILURE_RATE) || 0,
+});
+
+/** Where the platforms put their error messages: Instagram in error.message, Bluesky in message, X in detail or errors. */
+interface PlatformErrorBody {
+  error?: { message?: string };
+  message?: string;
+  detail?: string;
+  errors?: { message?: string }[];
+}
+
+/**
+ * Reads a platform's JSON response as the shape its API documents.
+ * Throws with the platform's error message when a response is not OK.
+ */
+const readJsonResponse = async <T>(response: Response, platform: string): Promise<T> => {
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = (body ?? {}) as PlatformErrorBody;
+    const detail = error.error?.message ?? error.message ?? error.detail ?? error.errors?.[0]?.message ?? `HTTP ${response.status}`;
+    console.error(`[Social] ${platform} request failed:`, response.status, JSON.stringify(body));
+    throw new Error(`${platform} rejected the post: ${detail}`);
+  }
+  return body as T;
+};
+
+const fetchImage = async (imageUrl: string): Promise<Blob> => {
+  const response = await fetch(imageUrl);
+  if (!response.ok) throw new Error(`Could not download the meme image (${response.status}).`);
+  return response.blob();
+};
+
+// --- Built-in publishers ---
+
+const INSTAGRAM_GRAPH_URL = 'https://graph.facebook.com/v21.0';
+
+registerSocialPublisher({
+  id: 'instagram',
+  label: 'Instagram',
+  maxCaptionLength: 2200,
+  isConfigured: config => Boolean(config.instagramUserId && config.instagramAccessToken),
+  publish: async (content, config) => {
+    // Instagram fetches the image itself, then publishes the media container in a second step.
+    const container = await readJsonResponse<{ id: string }>(await fetch(`${INSTAGRAM_GRAPH_URL}/${config.instagramUserId}/media`, {
+      method: 'POST',
+      body: new URLSearchParams({
+        image_url: content.imageUrl,
+        caption: content.caption,
+        alt_text: content.altText,
+        access_token: config.instagramAccessToken,
+      }),
+    }), 'Instagram');
+
+    const media = await readJsonResponse<{ id: string }>(await fetch(`${INSTAGRAM_GRAPH_URL}/${config.instagramUserId}/media_publish`, {
+      method: 'POST',
+      body: new URLSearchParams({ creation_id: container.id, access_token: config.instagramAccessToken }),
+    }), 'Instagram');
+
+    const permalinkUrl = `${INSTAGRAM_GRAPH_URL}/${media.id}?${new URLSearchParams({ fields: 'permalink', access_token: config.instagramAccessToken })}`;
+    const { permalink } = await readJsonResponse<{ permalink: string }>(await fetch(permalinkUrl), 'Instagram');
+    return { postUrl: permalink };
+  },
+});
+
+/** Bluesky rejects images over 1,000,000 bytes. */
+const BLUESKY_MAX_IMAGE_BYTES = 1000000;
+
+registerSocialPublisher({
+  id: 'bluesky',
+  label: 'Bluesky',
+  maxCaptionLength: 300,
+  isConfigured: config => Boolean(config.blueskyHandle && config.blueskyAppPassword),
+  publish: async (content, config) => {
+    const xrpc = (method: string) => `${config.blueskyServiceUrl}/xrpc/${method}`;
+
+    const session = await readJsonResponse<{ accessJwt: string; did: string; handle: string }>(await fetch(xrpc('com.atproto.server.createSession'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identifier: config.blueskyHandle, password: config.blueskyAppPassword }),
+    }), 'Bluesky');
+    const authorization = `Bearer ${session.accessJwt}`;
+
+    const image = await fetchImage(content.imageUrl);
+    if (image.size > BLUESKY_MAX_IMAGE_BYTES) {
+      throw new Error(`The image is ${Math.round(image.size / 1000)} KB, but Bluesky only accepts images up to 1 MB.`);
+    }
+    // The blob reference goes back into the post record as is.
+    const { blob } = await readJsonResponse<{ blob: object }>(await fetch(xrpc('com.atproto.repo.uploadBlob'), {
+      method: 'POST',
+      headers: { 'Content-Type': image.type || 'image/jpeg', 'Authorization': authorization },
+      body: image,
+    }), 'Bluesky');
+
+    const { uri } = await readJsonResponse<{ uri: string }>(await fetch(xrpc('com.atproto.repo.createRecord'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': authorization },
+      body: JSON.stringify({
+        repo: session.did,
+        collection: 'app.bsky.feed.post',
+        record: {
+          $type: 'app.bsky.feed.post',
+          text: content.caption,
+          createdAt: new Date().toISOString(),
+          embed: { $type: 'app.bsky.embed.images', images: [{ alt: content.altText, image: blob }] },
+        },
+      }),
+    }), 'Bluesky');
+
+    // at://<did>/app.bsky.feed.post/<rkey>
+    return { postUrl: `https://bsky.app/profile/${session.handle}/post/${uri.split('/').pop()}` };
+  },
+});
+
+/** RFC 3986 percent-encoding, as OAuth 1.0a requires. */
+const percentEncode = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Builds an OAuth 1.0a Authorization header for X. Its user tokens don't expire, unlike OAuth 2.0 ones.
+ * JSON and multipart bodies are not part of the signature, so only the URL's query is signed.
+ */
+const getXAuthorization = (method: string, url: string, config: SocialPublisherConfig): string => {
+  const { origin, pathname, searchParams } = new URL(url);
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: config.xApiKey,
+    oauth_nonce: randomBytes(16).toString('hex'),
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: String(Math.floor(Date.now() / 1000)),
+    oauth_token: config.xAccessToken,
+    oauth_version: '1.0',
+  };
+  const parameterString = [...Object.entries(oauthParams), ...searchParams.entries()]
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    // Sorted by encoded key, then value, in byte order.
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : (a < b ? -1 : 1)))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const baseString = [method.toUpperCase(), percentEncode(`${origin}${pathname}`), percentEncode(parameterString)].join('&');
+  const signingKey = `${percentEncode(config.xApiSecret)}&${percentEncode(config.xAccessTokenSecret)}`;
+  oauthParams.oauth_signature = createHmac('sha1', signingKey).update(baseString).digest('base64');
+
+  return `OAuth ${Object.entries(oauthParams).map(([key, value]) => `${percentEncode(key)}="${percentEncode(value)}"`).join(', ')}`;
+};
+
+const X_API_URL = 'https://api.x.com/2';
+
+registerSocialPublisher({
+  id: 'x',
+  label: 'X',
+  maxCaptionLength: 280,
+  isConfigured: config => Boolean(config.xApiKey && config.xApiSecret && config.xAccessToken && config.xAccessTokenSecret),
+  publish: async (content, config) => {
+    /** X wraps every result in `data`; media and posts both have an id. */
+    const postX = async (path: string, body: FormData | object): Promise<{ data: { id: string } }> => {
+      const url = `${X_API_URL}${path}`;
+      const isForm = body instanceof FormData;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': getXAuthorization('POST', url, config),
+          ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+        },
+        body: isForm ? body : JSON.stringify(body),
+      });
+      return readJsonResponse<{ data: { id: string } }>(response, 'X');
+    };
+
+    const form = new FormData();
+    form.append('media', await fetchImage(content.imageUrl), 'meme.jpg');
+    form.append('media_category', 'tweet_image');
+    const { data: media } = await postX('/media/upload', form);
+
+    if (content.altText) {
+      await postX('/media/metadata', { id: media.id, metadata: { alt_text: { text: content.altText.slice(0, 1000) } } });
+    }
+
+    const { data: post } = await postX('/tweets', { text: content.caption, media: { media_ids: [media.id] } });
+    return { postUrl: `https://x.com/i/web/status/${post.id}` };
+  },
+});
+
+registerSocialPublisher({
+  id: 'mock',
+  label: 'Mock (development)',
+  maxCaptionLength: 2200,
+  isConfigured: () => true,
+  publish: async (content, config) => {
+    if (Math.random() < config.mockFailureRate) {
+      throw new Error('The mock publisher failed on purpose (SOCIAL_MOCK_FAILURE_RATE).');
+    }
+    console.log(`[Social] Mock post: "${content.caption}" (alt: "${content.altText}") with ${content.imageUrl}`);
+    // Nothing is posted anywhere, so link to the image that would have been.
+    return { postUrl: `${content.imageUrl}#mock-post-${randomUUID()}` };
+  },
+});
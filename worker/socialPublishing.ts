@@ -0,0 +1,49 @@
+import type { SocialPost } from '../types';
+import { claimDueSocialPosts, completeSocialPost, failSocialPost, recoverStaleSocialPosts } from '../services/socialQueueService';
+import { getSocialPublisher, getSocialPublisherConfigFromEnv } from './socialPublishers';
+
+const publishPost = async (post: SocialPost, supabaseUrl: string, supabaseServiceRoleKey: string): Promise<void> => {
+  const label = `${post.platform} post ${post.id} (attempt ${post.attempt}/${post.maxAttempts})`;
+  const publisher = getSocialPublisher(post.platform);
+  const config = getSocialPublisherConfigFromEnv(process.env);
+
+  // Missing credentials won't fix themselves between retries.
+  if (!publisher || !publisher.isConfigured(config)) {
+    const reason = publisher
+      ? `${publisher.label} is not configured on the worker. Check its environment variables.`
+      : `Unknown platform "${post.platform}".`;
+    await failSocialPost(post, reason, supabaseUrl, supabaseServiceRoleKey, false);
+    console.error(`[Social] ${label} failed:`, reason);
+    return;
+  }
+
+  let postUrl: string;
+  try {
+    ({ postUrl } = await publisher.publish({ caption: post.caption, altText: post.altText, imageUrl: post.imageUrl }, config));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = await failSocialPost(post, message, supabaseUrl, supabaseServiceRoleKey);
+    console.error(`[Social] ${label} failed (${status}):`, message);
+    return;
+  }
+
+  // The post is live, so failing to record it must never make it retryable: it would go out twice.
+  // A post left 'publishing' is failed for good by recoverStaleSocialPosts instead.
+  try {
+    await completeSocialPost(post, postUrl, supabaseUrl, supabaseServiceRoleKey);
+    console.log(`[Social] Published ${label}: ${postUrl}`);
+  } catch (error) {
+    console.error(`[Social] Published ${label} at ${postUrl}, but could not record it:`, error instanceof Error ? error.message : error);
+  }
+};
+
+/**
+ * Publishes every queued post that has come due, one at a time.
+ */
+export const publishDueSocialPosts = async (supabaseUrl: string, supabaseServiceRoleKey: string): Promise<void> => {
+  await recoverStaleSocialPosts(supabaseUrl, supabaseServiceRoleKey);
+  const posts = await claimDueSocialPosts(supabaseUrl, supabaseServiceRoleKey);
+  for (const post of posts) {
+    await publishPost(post, supabaseUrl, supabaseServiceRoleKey);
+  }
+};